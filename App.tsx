@@ -1,10 +1,37 @@
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { initializeHandTracker, detectHand } from './services/handTracking';
-import { ParticleEngine } from './services/particleEngine';
+import { initializeHandTracker, pollHands, setTrackerFailureListener } from './services/handTracking';
+import { ParticleEngine, SimulationMode } from './services/particleEngine';
+import { AudioEngine } from './services/audioEngine';
+import { GestureRecognizer } from './services/gestureRecognizer';
+import { HandSmoother, DEFAULT_TRACKING_SETTINGS } from './services/handSmoothing';
+import { AssetLoadError } from './services/assets';
+import { DEFAULT_TEXT_OPTIONS } from './services/textSampler';
+import { DEFAULT_TRANSITION_CONFIG } from './services/morphTransition';
+import { DEFAULT_SEED } from './services/random';
+import { DEFAULT_GLOW, DEFAULT_PARTICLE_SIZE, DEFAULT_TWINKLE } from './services/particleMaterial';
+import { DEFAULT_EFFECTS_CONFIG, EffectsQuality } from './services/postProcessing';
+import { DEFAULT_COLOR_SPEC } from './services/palette';
+import { DEFAULT_CAMERA_SETTINGS } from './services/cameraRig';
+import {
+  AudioBands, AudioModulation, AudioReactor, DEFAULT_AUDIO_REACTIVE_SETTINGS, mixOpenness
+} from './services/audioAnalysis';
+import {
+  Preset, SHARE_MAX_POINTS, createPreset, decodeShape, deletePreset, listPresets, loadSession,
+  parsePreset, presetFromHash, presetToHash, savePreset, saveSession, serializePreset
+} from './services/presets';
+import {
+  CanvasRecorder, DEFAULT_RECORDING_OPTIONS, RecordingOptions, downloadBlob, timestampedName
+} from './services/recorder';
+import { SequencePlayer, SequenceStatus, cueToConfig, parseSequence, serializeSequence } from './services/sequencer';
 import { Controls } from './components/Controls';
 import { DrawingCanvas } from './components/DrawingCanvas';
-import { ParticleConfig, ShapeType, Point3D } from './types';
+import { ImageImport } from './components/ImageImport';
+import { ModelImport } from './components/ModelImport';
+import {
+  ParticleConfig, ShapeType, Point3D, ForceMode, GestureType, GestureEvent, TrackingSettings, ColorMode,
+  AudioReactiveSettings, InputSource, CameraPath, CameraSettings, HandData
+} from './types';
 
 // Independent component to handle video stream stability
 const CameraPreview: React.FC<{ stream: MediaStream }> = ({ stream }) => {
@@ -31,10 +58,75 @@ const CameraPreview: React.FC<{ stream: MediaStream }> = ({ stream }) => {
   );
 };
 
+// Order used when cycling with gestures
+const SHAPE_CYCLE = [ShapeType.NEBULA, ShapeType.HEART, ShapeType.SPHERE, ShapeType.GALAXY, ShapeType.MOBIUS, ShapeType.TEXT];
+const FORCE_MODE_CYCLE = [ForceMode.PUSH_PULL, ForceMode.ATTRACT, ForceMode.REPEL, ForceMode.SWIRL];
+
+// On-screen feedback for gesture bindings
+const gestureLabels: Partial<Record<GestureType, string>> = {
+  [GestureType.SWIPE_LEFT]: '👈 上一个模型',
+  [GestureType.SWIPE_RIGHT]: '👉 下一个模型',
+  [GestureType.PEACE]: '✌️ 切换颜色模式',
+  [GestureType.THUMBS_UP]: '👍 打开手绘画板',
+  [GestureType.CIRCLE]: '🔄 切换力场模式'
+};
+
+// ?sim=cpu forces the CPU particle simulation, ?sim=gpu forces the GPGPU path
+const getSimulationMode = (): SimulationMode => {
+  const sim = new URLSearchParams(window.location.search).get('sim');
+  return sim === 'cpu' || sim === 'gpu' ? sim : 'auto';
+};
+
+const INITIAL_CONFIG: ParticleConfig = {
+  density: 0.8,
+  spread: 1.0,
+  color: DEFAULT_COLOR_SPEC,
+  shape: ShapeType.NEBULA,
+  forceMode: ForceMode.PUSH_PULL,
+  forceRadius: 8,
+  text: DEFAULT_TEXT_OPTIONS,
+  transition: DEFAULT_TRANSITION_CONFIG,
+  seed: DEFAULT_SEED,
+  particleSize: DEFAULT_PARTICLE_SIZE,
+  glow: DEFAULT_GLOW,
+  twinkle: DEFAULT_TWINKLE,
+  effects: DEFAULT_EFFECTS_CONFIG
+};
+
+// A shared link wins over the last session
+const getStartupPreset = (): Preset | null => {
+  const shared = presetFromHash(window.location.hash, INITIAL_CONFIG);
+  if (shared) {
+    // Drop the payload so a reload restores the session instead
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    return shared;
+  }
+  return loadSession(INITIAL_CONFIG);
+};
+
+const cycle = <T,>(list: T[], current: T, step: number): T => {
+  const idx = list.indexOf(current);
+  return list[(Math.max(idx, 0) + step + list.length) % list.length];
+};
+
 const App: React.FC = () => {
   const containerRef = useRef<HTMLDivElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const engineRef = useRef<ParticleEngine | null>(null);
+  const audioRef = useRef<AudioEngine | null>(null);
+  const gestureRecognizerRef = useRef(new GestureRecognizer());
+  const handSmootherRef = useRef(new HandSmoother());
+  const sequencerRef = useRef(new SequencePlayer());
+  const sequencePlayingRef = useRef(false); // Playing state last shown, to catch the end of a show
+  const recorderRef = useRef<CanvasRecorder | null>(null);
+  const audioReactorRef = useRef(new AudioReactor());
+  // Read by the memoized render loop
+  const audioSettingsRef = useRef<AudioReactiveSettings>(DEFAULT_AUDIO_REACTIVE_SETTINGS);
+  // Latest gesture handler, so the memoized render loop never sees a stale closure
+  const gestureHandlerRef = useRef<(g: GestureEvent) => void>(() => {});
+  const handsRef = useRef<HandData[]>([]); // Latest smoothed hands, for air drawing
+  const lastColorModeRef = useRef(ColorMode.SOLID);
+  const gestureToastTimerRef = useRef<number>(0);
   const animationFrameRef = useRef<number>(0);
   
   // Ref to track stream for cleanup (state value in cleanup closure is stale)
@@ -48,13 +140,32 @@ const App: React.FC = () => {
   const [selectedDeviceId, setSelectedDeviceId] = useState<string>('');
   
   const [handOpenness, setHandOpenness] = useState(0); // 0 (closed) - 1 (open)
+  const [isHandOpen, setIsHandOpen] = useState(false);
+  const [trackingSettings, setTrackingSettings] = useState<TrackingSettings>(DEFAULT_TRACKING_SETTINGS);
   const [isDrawing, setIsDrawing] = useState(false);
-  const [config, setConfig] = useState<ParticleConfig>({
-    density: 0.8,
-    spread: 1.0,
-    color: '#6366f1', // Indigo-500
-    shape: ShapeType.NEBULA
-  });
+  const [drawingByHand, setDrawingByHand] = useState(false); // Drawing board opened by gesture: draw in the air
+  const [isImporting, setIsImporting] = useState(false);
+  const [isImportingModel, setIsImportingModel] = useState(false);
+  const isOverlayOpen = isDrawing || isImporting || isImportingModel;
+  const [gestureToast, setGestureToast] = useState<string | null>(null);
+  const [isMuted, setIsMuted] = useState(false);
+  const [volume, setVolume] = useState(0.6);
+  const [startupPreset] = useState(getStartupPreset);
+  const [config, setConfig] = useState<ParticleConfig>(startupPreset?.config ?? INITIAL_CONFIG);
+  const [presets, setPresets] = useState<Preset[]>(() => listPresets(INITIAL_CONFIG));
+  const [effectsQuality, setEffectsQuality] = useState(EffectsQuality.FULL);
+  const [audioSettings, setAudioSettings] = useState<AudioReactiveSettings>(DEFAULT_AUDIO_REACTIVE_SETTINGS);
+  const [audioInputName, setAudioInputName] = useState<string | null>(null);
+  const [audioInputError, setAudioInputError] = useState<string | null>(null);
+  const [audioLevels, setAudioLevels] = useState<AudioBands | null>(null);
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(DEFAULT_CAMERA_SETTINGS);
+  const [presetError, setPresetError] = useState<string | null>(null);
+  const [recordingOptions, setRecordingOptions] = useState<RecordingOptions>(DEFAULT_RECORDING_OPTIONS);
+  const [recordingStartedAt, setRecordingStartedAt] = useState<number | null>(null);
+  const [recordingError, setRecordingError] = useState<string | null>(null);
+  const [morphProgress, setMorphProgress] = useState<number | null>(null); // null when no morph runs
+  const [sequenceStatus, setSequenceStatus] = useState<SequenceStatus>(() => sequencerRef.current.getStatus());
+  const [sequenceError, setSequenceError] = useState<string | null>(null);
 
   const getDevices = async () => {
     try {
@@ -123,7 +234,9 @@ const App: React.FC = () => {
         
         // Handle common DOMExceptions and Error types
         const errorName = err?.name || '';
-        if (errorName === 'NotAllowedError' || errorName === 'PermissionDeniedError') {
+        if (err instanceof AssetLoadError) {
+             msg = `${err.message}。请确认资源已放置在本地资源目录（npm run assets:offline），或检查网络连接。`;
+        } else if (errorName === 'NotAllowedError' || errorName === 'PermissionDeniedError') {
              msg = "摄像头权限被拒绝。请在浏览器设置中允许访问，并点击下方重试按钮。";
         } else if (errorName === 'NotFoundError') {
              msg = "未找到摄像头设备，请检查连接。";
@@ -158,6 +271,15 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // Tracking can still break after startup (worker crash): say so instead of going quiet
+  useEffect(() => {
+    setTrackerFailureListener((message, fatal) => {
+        if (fatal) setError(message);
+        else showToast(`⚠️ ${message}`);
+    });
+    return () => setTrackerFailureListener(null);
+  }, []);
+
   // Initialize Three.js Engine with strict cleanup
   useEffect(() => {
     if (!containerRef.current) return;
@@ -170,10 +292,22 @@ const App: React.FC = () => {
     const engine = new ParticleEngine(
         containerRef.current, 
         window.innerWidth, 
-        window.innerHeight
+        window.innerHeight,
+        getSimulationMode()
     );
     engineRef.current = engine;
+    if (startupPreset?.customShape) {
+        const shape = decodeShape(startupPreset.customShape);
+        engine.setCustomShape(shape.points, shape.colors);
+    }
     engine.updateConfig(config); // Apply initial config
+    engine.onTransitionChange = (state) => {
+        if (state.active) {
+            audioRef.current?.playMorph(engine.currentConfig.transition.duration);
+        }
+    };
+    engine.onEffectsQualityChange = setEffectsQuality;
+    engine.cameraRig.onPathStop = () => setCameraSettings(prev => ({ ...prev, path: CameraPath.NONE }));
 
     const handleResize = () => {
       engine.resize(window.innerWidth, window.innerHeight);
@@ -188,6 +322,33 @@ const App: React.FC = () => {
     };
   }, []); // Run once on mount (and cleanup on unmount)
 
+  // Initialize Audio Engine. Browsers block autoplay, so the context is
+  // only resumed (and BGM started) on the first user gesture.
+  useEffect(() => {
+    const audio = new AudioEngine();
+    audioRef.current = audio;
+
+    const unlock = () => {
+        audio.init().catch(e => console.warn("Audio unlock failed", e));
+        removeUnlockListeners();
+    };
+    const removeUnlockListeners = () => {
+        window.removeEventListener('pointerdown', unlock);
+        window.removeEventListener('keydown', unlock);
+        window.removeEventListener('touchstart', unlock);
+    };
+
+    window.addEventListener('pointerdown', unlock);
+    window.addEventListener('keydown', unlock);
+    window.addEventListener('touchstart', unlock);
+
+    return () => {
+        removeUnlockListeners();
+        audio.dispose();
+        audioRef.current = null;
+    };
+  }, []);
+
   // Sync React Config to Engine
   useEffect(() => {
       if(engineRef.current) {
@@ -195,31 +356,87 @@ const App: React.FC = () => {
       }
   }, [config]);
 
+  // Persist the session (debounced) so a reload restores it
+  useEffect(() => {
+      const timer = window.setTimeout(() => {
+          saveSession(createPreset('session', config, getCustomShape(config)));
+      }, 500);
+      return () => window.clearTimeout(timer);
+  }, [config]);
+
+  useEffect(() => {
+      audioSettingsRef.current = audioSettings;
+      audioReactorRef.current.sensitivity = audioSettings.sensitivity;
+  }, [audioSettings]);
+
   // Main Animation Loop
   const loop = useCallback(() => {
+    // Scripted show: apply the next cue when playback enters it
+    const sequencer = sequencerRef.current;
+    const cue = sequencer.update();
+    if (cue) {
+        setConfig(prev => ({ ...prev, ...cueToConfig(cue, prev) }));
+    }
+    // A non-looping show pauses itself at the end: refresh once more so the controls see it
+    if (sequencer.playing || cue || sequencePlayingRef.current) {
+        setSequenceStatus(sequencer.getStatus());
+    }
+    sequencePlayingRef.current = sequencer.playing;
+
+    // Music, when it drives the particles and a source is playing
+    const { source } = audioSettingsRef.current;
+    const input = audioRef.current?.input;
+    let audioMod: AudioModulation | null = null;
+    if (source !== InputSource.HAND && input?.active) {
+        audioMod = audioReactorRef.current.update(input.readSpectrum(), input.sampleRate, performance.now());
+        setAudioLevels(audioMod.bands);
+    }
+
+    let rendered = false;
     if (videoRef.current && videoRef.current.readyState >= 2 && !loading && !error) {
-       // 1. Detect Hand
-       const handData = detectHand(videoRef.current);
-       let openVal = 0;
-       
-       if (handData) {
-           openVal = handData.openness;
-       } else {
-           // Default idle animation if no hand detected
-           openVal = (Math.sin(Date.now() / 1000) + 1) * 0.2; 
-       }
+       // 1. Latest hands from the tracker (never blocks), then filter jitter
+       //    (eases to idle animation if no hand detected)
+       const detection = pollHands(videoRef.current);
+       const smoothed = handSmootherRef.current.update(detection);
+       const hands = smoothed.hands;
+       const openVal = smoothed.openness;
+       handsRef.current = hands;
        
        setHandOpenness(openVal);
+       setIsHandOpen(smoothed.isOpen);
+
+       // 2. Gestures -> Actions (only new detections count towards holds and trajectories)
+       const gestures = gestureRecognizerRef.current.update(hands, detection.timestamp);
+       gestures.forEach(g => gestureHandlerRef.current(g));
 
-       // 2. Update Particles
+       // 3. Update Particles (in AUDIO mode hands only gesture)
        if (engineRef.current) {
-           engineRef.current.animate(openVal);
+           const useHands = source !== InputSource.AUDIO;
+           engineRef.current.animate(
+               mixOpenness(source, useHands ? openVal : 0, audioMod),
+               useHands ? hands : [],
+               audioMod
+           );
+           rendered = true;
+           const morph = engineRef.current.getTransitionState();
+           setMorphProgress(morph.active ? morph.progress : null);
+       }
+
+       // 4. Update Sound (the music is the sound in AUDIO mode)
+       if (audioRef.current && source !== InputSource.AUDIO) {
+           audioRef.current.syncToOpenness(openVal);
        }
     } else if (engineRef.current && !loading) {
+        handsRef.current = [];
         // Fallback animation
-        engineRef.current.animate(0.5);
+        engineRef.current.animate(audioMod ? mixOpenness(source, 0.5, audioMod) : 0.5, [], audioMod);
+        rendered = true;
     }
 
+    // Must follow the render in the same frame (see CanvasRecorder.drawFrame); while
+    // the engine is still loading there is nothing to record yet
+    if (rendered) recorderRef.current?.drawFrame();
+
     animationFrameRef.current = requestAnimationFrame(loop);
   }, [loading, error]);
 
@@ -230,6 +447,28 @@ const App: React.FC = () => {
 
 
   // Event Handlers
+  const handleAudioInput = async (start: () => Promise<void>) => {
+      const input = audioRef.current?.input;
+      if (!input) return;
+      setAudioInputError(null);
+      try {
+          await start();
+          audioReactorRef.current.reset();
+          setAudioInputName(input.name);
+          // Picking a source means the music should do something
+          setAudioSettings(prev => prev.source === InputSource.HAND ? { ...prev, source: InputSource.MIX } : prev);
+      } catch (e: any) {
+          setAudioInputError(e?.message || '音频输入失败');
+          setAudioInputName(input.active ? input.name : null);
+      }
+  };
+
+  const handleAudioStop = () => {
+      audioRef.current?.input.stop();
+      setAudioInputName(null);
+      setAudioLevels(null);
+  };
+
   const handleConfigChange = (newConf: Partial<ParticleConfig>) => {
       setConfig(prev => ({ ...prev, ...newConf }));
   };
@@ -241,11 +480,255 @@ const App: React.FC = () => {
       setConfig(prev => ({ ...prev, shape: ShapeType.CUSTOM }));
       setIsDrawing(false);
   };
+
+  // Shared by image and 3D model import: sampled points plus optional per-point colors
+  const handleSampledShapeComplete = (points: Point3D[], colors: Float32Array | null) => {
+      if(engineRef.current) {
+          engineRef.current.setCustomShape(points, colors);
+      }
+      setConfig(prev => ({ ...prev, shape: ShapeType.CUSTOM }));
+      setIsImporting(false);
+      setIsImportingModel(false);
+  };
   
+  useEffect(() => {
+      handSmootherRef.current.setSettings(trackingSettings);
+  }, [trackingSettings]);
+
+  useEffect(() => {
+      engineRef.current?.setCameraSettings(cameraSettings);
+  }, [cameraSettings]);
+
+  const handleCameraReset = () => {
+      setCameraSettings(prev => ({ ...prev, path: CameraPath.NONE }));
+      engineRef.current?.resetCamera();
+  };
+
+  useEffect(() => {
+      if (config.color.mode !== ColorMode.RANDOM) {
+          lastColorModeRef.current = config.color.mode;
+      }
+  }, [config.color.mode]);
+
+  // Gesture bindings: drive the same state the Controls panel does.
+  // Config changes from gestures override a playing sequence for a while.
+  gestureHandlerRef.current = (g: GestureEvent) => {
+      if (isOverlayOpen || g.confidence < 0.5) return;
+      const override = () => sequencerRef.current.override(g.timestamp);
+
+      switch (g.type) {
+          case GestureType.SWIPE_LEFT:
+          case GestureType.SWIPE_RIGHT: {
+              const step = g.type === GestureType.SWIPE_RIGHT ? 1 : -1;
+              setConfig(prev => ({ ...prev, shape: cycle(SHAPE_CYCLE, prev.shape, step) }));
+              override();
+              break;
+          }
+          case GestureType.PEACE:
+              setConfig(prev => ({
+                  ...prev,
+                  color: {
+                      ...prev.color,
+                      mode: prev.color.mode === ColorMode.RANDOM ? lastColorModeRef.current : ColorMode.RANDOM
+                  }
+              }));
+              override();
+              break;
+          case GestureType.THUMBS_UP:
+              setDrawingByHand(true);
+              setIsDrawing(true);
+              break;
+          case GestureType.CIRCLE:
+              setConfig(prev => ({ ...prev, forceMode: cycle(FORCE_MODE_CYCLE, prev.forceMode, 1) }));
+              override();
+              break;
+          case GestureType.PINCH_DRAG:
+              // Drag up to increase spread, down to decrease
+              setConfig(prev => ({
+                  ...prev,
+                  spread: Math.min(Math.max(prev.spread - (g.dy ?? 0) * 4, 0.1), 2)
+              }));
+              override();
+              return; // Continuous, no toast
+          default:
+              return;
+      }
+
+      const label = gestureLabels[g.type];
+      if (label) showToast(label);
+  };
+
+  const showToast = (message: string) => {
+      setGestureToast(message);
+      window.clearTimeout(gestureToastTimerRef.current);
+      gestureToastTimerRef.current = window.setTimeout(() => setGestureToast(null), 1500);
+  };
+
+  // Presets: the custom point set is only stored while it is on screen
+  const getCustomShape = (conf: ParticleConfig) => {
+      const engine = engineRef.current;
+      if (!engine || conf.shape !== ShapeType.CUSTOM) return null;
+      return { points: engine.customShapePoints, colors: engine.customShapeColors };
+  };
+
+  const applyPreset = (preset: Preset) => {
+      if (preset.customShape && engineRef.current) {
+          const shape = decodeShape(preset.customShape);
+          engineRef.current.setCustomShape(shape.points, shape.colors);
+      }
+      setConfig(preset.config);
+  };
+
+  const handlePresetSave = (name: string) => {
+      try {
+          setPresets(savePreset(createPreset(name, config, getCustomShape(config)), INITIAL_CONFIG));
+          setPresetError(null);
+          showToast(`💾 已保存预设「${name}」`);
+      } catch (e: any) {
+          setPresetError(e?.message || '预设保存失败');
+      }
+  };
+
+  const handlePresetLoad = (name: string) => {
+      const preset = presets.find(p => p.name === name);
+      if (preset) applyPreset(preset);
+  };
+
+  const handlePresetDelete = (name: string) => {
+      try {
+          setPresets(deletePreset(name, INITIAL_CONFIG));
+      } catch (e: any) {
+          setPresetError(e?.message || '预设删除失败');
+      }
+  };
+
+  const handlePresetExport = () => {
+      const preset = createPreset('导出预设', config, getCustomShape(config));
+      downloadBlob(new Blob([serializePreset(preset)], { type: 'application/json' }), 'particle-preset.json');
+  };
+
+  const handlePresetImport = async (file: File) => {
+      try {
+          const preset = parsePreset(await file.text(), INITIAL_CONFIG);
+          applyPreset(preset);
+          setPresets(savePreset(preset, INITIAL_CONFIG));
+          setPresetError(null);
+      } catch (e: any) {
+          setPresetError(e?.message || '预设文件读取失败');
+      }
+  };
+
+  const handlePresetShare = async () => {
+      const preset = createPreset('分享', config, getCustomShape(config), SHARE_MAX_POINTS);
+      const url = window.location.origin + window.location.pathname + window.location.search + presetToHash(preset);
+      try {
+          await navigator.clipboard.writeText(url);
+          showToast('🔗 分享链接已复制');
+      } catch {
+          // Clipboard blocked: put it in the address bar so it can be copied by hand
+          window.history.replaceState(null, '', url);
+          showToast('🔗 分享链接已写入地址栏');
+      }
+  };
+
+  // Sequence transport
+  const refreshSequenceStatus = () => setSequenceStatus(sequencerRef.current.getStatus());
+
+  const handleSequencePlayToggle = () => {
+      const sequencer = sequencerRef.current;
+      if (sequencer.playing) sequencer.pause(); else sequencer.play();
+      refreshSequenceStatus();
+  };
+
+  const handleSequenceLoopToggle = () => {
+      sequencerRef.current.setLoop(!sequencerRef.current.sequence.loop);
+      refreshSequenceStatus();
+  };
+
+  const handleSequenceSeek = (ms: number) => {
+      sequencerRef.current.seek(ms);
+      refreshSequenceStatus();
+  };
+
+  const handleSequenceImport = async (file: File) => {
+      try {
+          sequencerRef.current.load(parseSequence(await file.text()));
+          setSequenceError(null);
+      } catch (e: any) {
+          setSequenceError(e?.message || '节目文件读取失败');
+      }
+      refreshSequenceStatus();
+  };
+
+  const handleSequenceExport = () => {
+      const sequence = sequencerRef.current.sequence;
+      downloadBlob(new Blob([serializeSequence(sequence)], { type: 'application/json' }), `${sequence.name || 'sequence'}.json`);
+  };
+
   const handleCameraChange = (deviceId: string) => {
       startWebcam(deviceId);
   };
 
+  const handleMuteToggle = () => {
+      const next = !isMuted;
+      setIsMuted(next);
+      audioRef.current?.toggleMute(next);
+  };
+
+  const handleVolumeChange = (v: number) => {
+      setVolume(v);
+      audioRef.current?.setVolume(v);
+  };
+
+  // Recording: the clip downloads as soon as it is stopped
+  const handleRecordToggle = async () => {
+      const engine = engineRef.current;
+      if (!engine) return;
+
+      const recorder = recorderRef.current;
+      if (recorder?.isRecording) {
+          setRecordingStartedAt(null);
+          try {
+              const blob = await recorder.stop();
+              const ext = recorder.mimeType === 'image/gif' ? 'gif' : recorder.mimeType.startsWith('video/mp4') ? 'mp4' : 'webm';
+              downloadBlob(blob, timestampedName('particles', ext));
+          } catch (e: any) {
+              setRecordingError(e?.message || '录制保存失败');
+          } finally {
+              audioRef.current?.releaseRecordingStream();
+              engine.setRecordingSize(null);
+          }
+          return;
+      }
+
+      const isGif = recordingOptions.format === 'gif';
+      try {
+          // Videos render at their own resolution rather than scaling the window up
+          if (!isGif && recordingOptions.width > 0) {
+              engine.setRecordingSize({ width: recordingOptions.width, height: recordingOptions.height });
+          }
+          const next = new CanvasRecorder(engine.renderer.domElement);
+          next.start(recordingOptions, isGif ? null : audioRef.current?.createRecordingStream() ?? null, videoRef.current);
+          recorderRef.current = next;
+          setRecordingStartedAt(performance.now());
+          setRecordingError(null);
+      } catch (e: any) {
+          audioRef.current?.releaseRecordingStream();
+          engine.setRecordingSize(null);
+          setRecordingError(e?.message || '无法开始录制');
+      }
+  };
+
+  const handleStillCapture = async (scale: number) => {
+      if (!engineRef.current) return;
+      try {
+          downloadBlob(await engineRef.current.captureStill(scale), timestampedName('particles', 'png'));
+          showToast('📷 截图已保存');
+      } catch (e: any) {
+          setRecordingError(e?.message || '截图失败');
+      }
+  };
+
   return (
     <div className="relative w-full h-screen bg-black overflow-hidden font-sans">
         {/* Hidden Video for MediaPipe */}
@@ -261,26 +744,102 @@ const App: React.FC = () => {
         <div ref={containerRef} className="absolute inset-0 z-0" />
 
         {/* UI Overlay */}
-        {!isDrawing && !loading && !error && (
+        {!isOverlayOpen && !loading && !error && (
             <Controls 
                 config={config} 
                 onChange={handleConfigChange} 
-                onDrawRequest={() => setIsDrawing(true)}
+                onDrawRequest={() => {
+                    setDrawingByHand(false);
+                    setIsDrawing(true);
+                }}
+                onImageImportRequest={() => setIsImporting(true)}
+                onModelImportRequest={() => setIsImportingModel(true)}
                 handOpenness={handOpenness}
+                isHandOpen={isHandOpen}
+                morphProgress={morphProgress}
+                trackingSettings={trackingSettings}
+                onTrackingChange={(t) => setTrackingSettings(prev => ({ ...prev, ...t }))}
                 videoDevices={videoDevices}
                 selectedDeviceId={selectedDeviceId}
                 onCameraChange={handleCameraChange}
+                isMuted={isMuted}
+                volume={volume}
+                onMuteToggle={handleMuteToggle}
+                onVolumeChange={handleVolumeChange}
+                sequenceStatus={sequenceStatus}
+                sequenceError={sequenceError}
+                onSequencePlayToggle={handleSequencePlayToggle}
+                onSequenceLoopToggle={handleSequenceLoopToggle}
+                onSequenceSeek={handleSequenceSeek}
+                onSequenceImport={handleSequenceImport}
+                onSequenceExport={handleSequenceExport}
+                presetNames={presets.map(p => p.name)}
+                presetError={presetError}
+                onPresetSave={handlePresetSave}
+                onPresetLoad={handlePresetLoad}
+                onPresetDelete={handlePresetDelete}
+                onPresetExport={handlePresetExport}
+                onPresetImport={handlePresetImport}
+                onPresetShare={handlePresetShare}
+                recordingOptions={recordingOptions}
+                onRecordingOptionsChange={(o) => setRecordingOptions(prev => ({ ...prev, ...o }))}
+                recordingStartedAt={recordingStartedAt}
+                recordingError={recordingError}
+                onRecordToggle={handleRecordToggle}
+                onStillCapture={handleStillCapture}
+                effectsQuality={effectsQuality}
+                audioSettings={audioSettings}
+                onAudioSettingsChange={(a) => setAudioSettings(prev => ({ ...prev, ...a }))}
+                audioInputName={audioInputName}
+                audioInputError={audioInputError}
+                audioLevels={audioLevels}
+                onAudioMicrophone={() => handleAudioInput(() => audioRef.current!.input.useMicrophone())}
+                onAudioFile={(file) => handleAudioInput(() => audioRef.current!.input.useFile(file))}
+                onAudioStop={handleAudioStop}
+                cameraSettings={cameraSettings}
+                onCameraSettingsChange={(c) => setCameraSettings(prev => ({ ...prev, ...c }))}
+                onCameraReset={handleCameraReset}
             />
         )}
 
+        {/* Gesture Feedback */}
+        {gestureToast && !isOverlayOpen && (
+            <div className="absolute top-6 left-1/2 -translate-x-1/2 z-40 bg-black/60 backdrop-blur-md border border-white/10 px-4 py-2 rounded-full text-sm text-white shadow-lg pointer-events-none">
+                {gestureToast}
+            </div>
+        )}
+
         {/* Drawing Mode Overlay */}
         {isDrawing && (
             <DrawingCanvas 
+                seed={config.seed}
+                particleCount={Math.floor((engineRef.current?.maxParticles ?? 25000) * config.density)}
+                handsRef={handsRef}
+                airDrawing={drawingByHand}
                 onComplete={handleDrawComplete} 
                 onCancel={() => setIsDrawing(false)}
             />
         )}
 
+        {/* Image Import Overlay */}
+        {isImporting && (
+            <ImageImport
+                seed={config.seed}
+                onComplete={handleSampledShapeComplete}
+                onCancel={() => setIsImporting(false)}
+            />
+        )}
+
+        {/* 3D Model Import Overlay */}
+        {isImportingModel && (
+            <ModelImport
+                seed={config.seed}
+                particleCount={Math.floor((engineRef.current?.maxParticles ?? 25000) * config.density)}
+                onComplete={handleSampledShapeComplete}
+                onCancel={() => setIsImportingModel(false)}
+            />
+        )}
+
         {/* Loading State */}
         {loading && !error && (
             <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black text-white">
@@ -307,7 +866,7 @@ const App: React.FC = () => {
         )}
         
         {/* Camera Preview (Small PIP) */}
-        {!loading && !isDrawing && !error && cameraStream && (
+        {!loading && !isOverlayOpen && !error && cameraStream && (
              <CameraPreview stream={cameraStream} />
         )}
     </div>
@@ -1,35 +1,239 @@
 
-import React from 'react';
-import { ParticleConfig, ShapeType } from '../types';
+import React, { useRef, useState } from 'react';
+import {
+  ParticleConfig, ShapeType, ForceMode, TrackingSettings, TextShapeOptions,
+  TransitionConfig, TransitionEasing, TransitionWave, TransitionMatching, EffectsConfig, ColorMode, ColorSpec,
+  AudioReactiveSettings, InputSource, CameraPath, CameraSettings
+} from '../types';
+import { FONT_FAMILIES } from '../services/textSampler';
+import { randomSeed } from '../services/random';
+import { SequenceStatus } from '../services/sequencer';
+import {
+  RecordingFormat, RecordingOptions, RESOLUTION_OPTIONS, FORMAT_OPTIONS, FPS_OPTIONS, BITRATE_OPTIONS, GIF_MAX_FPS, GIF_MAX_SIZE
+} from '../services/recorder';
+import { EffectsQuality } from '../services/postProcessing';
+import { usesGradient } from '../services/palette';
+import { AudioBands } from '../services/audioAnalysis';
+import { GradientEditor } from './GradientEditor';
 
 interface Props {
   config: ParticleConfig;
   onChange: (newConfig: Partial<ParticleConfig>) => void;
   onDrawRequest: () => void;
+  onImageImportRequest: () => void;
+  onModelImportRequest: () => void;
   handOpenness: number;
+  isHandOpen: boolean;
+  morphProgress: number | null; // 0 - 1 while a shape morph runs
+  trackingSettings: TrackingSettings;
+  onTrackingChange: (settings: Partial<TrackingSettings>) => void;
   videoDevices: MediaDeviceInfo[];
   selectedDeviceId: string;
   onCameraChange: (deviceId: string) => void;
+  isMuted: boolean;
+  volume: number;
+  onMuteToggle: () => void;
+  onVolumeChange: (volume: number) => void;
+  sequenceStatus: SequenceStatus;
+  sequenceError: string | null;
+  onSequencePlayToggle: () => void;
+  onSequenceLoopToggle: () => void;
+  onSequenceSeek: (ms: number) => void;
+  onSequenceImport: (file: File) => void;
+  onSequenceExport: () => void;
+  presetNames: string[];
+  presetError: string | null;
+  onPresetSave: (name: string) => void;
+  onPresetLoad: (name: string) => void;
+  onPresetDelete: (name: string) => void;
+  onPresetExport: () => void;
+  onPresetImport: (file: File) => void;
+  onPresetShare: () => void;
+  recordingOptions: RecordingOptions;
+  onRecordingOptionsChange: (options: Partial<RecordingOptions>) => void;
+  recordingStartedAt: number | null; // performance.now() when recording began, null when idle
+  recordingError: string | null;
+  onRecordToggle: () => void;
+  onStillCapture: (scale: number) => void;
+  effectsQuality: EffectsQuality;
+  audioSettings: AudioReactiveSettings;
+  onAudioSettingsChange: (settings: Partial<AudioReactiveSettings>) => void;
+  audioInputName: string | null; // Microphone label or file name while a source is active
+  audioInputError: string | null;
+  audioLevels: AudioBands | null;
+  onAudioMicrophone: () => void;
+  onAudioFile: (file: File) => void;
+  onAudioStop: () => void;
+  cameraSettings: CameraSettings;
+  onCameraSettingsChange: (settings: Partial<CameraSettings>) => void;
+  onCameraReset: () => void;
 }
 
+const formatTime = (ms: number) => {
+  const s = Math.floor(ms / 1000);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
 const shapeLabels: Record<string, string> = {
   [ShapeType.NEBULA]: '星云',
   [ShapeType.HEART]: '爱心',
   [ShapeType.SPHERE]: '球体',
   [ShapeType.GALAXY]: '星系螺旋',
-  [ShapeType.MOBIUS]: '莫比乌斯环'
+  [ShapeType.MOBIUS]: '莫比乌斯环',
+  [ShapeType.TEXT]: '文字'
+};
+
+const fontWeights: [number, string][] = [[300, '细'], [400, '常规'], [700, '粗'], [900, '特粗']];
+const alignLabels: Record<TextShapeOptions['align'], string> = { left: '左对齐', center: '居中', right: '右对齐' };
+
+const forceModeLabels: Record<string, string> = {
+  [ForceMode.PUSH_PULL]: '推拉',
+  [ForceMode.ATTRACT]: '吸引',
+  [ForceMode.REPEL]: '排斥',
+  [ForceMode.SWIRL]: '漩涡'
+};
+
+const easingLabels: Record<string, string> = {
+  [TransitionEasing.LINEAR]: '线性',
+  [TransitionEasing.EASE_IN_OUT_SINE]: '正弦缓动',
+  [TransitionEasing.EASE_IN_OUT_CUBIC]: '三次缓动',
+  [TransitionEasing.EASE_OUT_EXPO]: '指数减速',
+  [TransitionEasing.EASE_OUT_BACK]: '回弹'
+};
+
+const waveLabels: Record<string, string> = {
+  [TransitionWave.NONE]: '同时',
+  [TransitionWave.RADIAL]: '由内向外',
+  [TransitionWave.AXIS_X]: '从左到右',
+  [TransitionWave.AXIS_Y]: '从上到下',
+  [TransitionWave.RANDOM]: '随机'
+};
+
+const matchingLabels: Record<string, string> = {
+  [TransitionMatching.SPATIAL]: '空间就近',
+  [TransitionMatching.AXIS]: '按轴排序',
+  [TransitionMatching.RANDOM]: '随机'
+};
+
+const inputSourceLabels: Record<string, string> = {
+  [InputSource.HAND]: '✋ 手势',
+  [InputSource.AUDIO]: '🎵 音乐',
+  [InputSource.MIX]: '混合'
+};
+
+const cameraPathLabels: Record<string, string> = {
+  [CameraPath.NONE]: '自由',
+  [CameraPath.ORBIT]: '环绕',
+  [CameraPath.SWOOP]: '俯冲',
+  [CameraPath.SPIRAL]: '螺旋'
+};
+
+const bandLabels: [keyof AudioBands, string][] = [['bass', '低音'], ['mids', '中音'], ['highs', '高音']];
+
+const colorModeLabels: Record<string, string> = {
+  [ColorMode.SOLID]: '单色',
+  [ColorMode.RANDOM]: '随机多彩',
+  [ColorMode.RADIAL]: '径向渐变',
+  [ColorMode.HEIGHT]: '高度渐变',
+  [ColorMode.VELOCITY]: '按速度',
+  [ColorMode.HAND_DISTANCE]: '按手距',
+  [ColorMode.SHAPE]: '按形状',
+  [ColorMode.HUE_CYCLE]: '色彩循环'
+};
+
+type EffectFlag = 'bloom' | 'trails' | 'chromatic' | 'vignette' | 'grain' | 'followHand' | 'autoQuality';
+
+const effectToggles: [EffectFlag, string][] = [
+  ['bloom', '辉光'],
+  ['trails', '拖尾'],
+  ['chromatic', '色差'],
+  ['vignette', '暗角'],
+  ['grain', '胶片颗粒'],
+  ['followHand', '跟随手势'],
+  ['autoQuality', '自动降级']
+];
+
+// [key, label, min, max, step, digits, shown while this flag is on]
+const effectSliders: [keyof EffectsConfig, string, number, number, number, number, EffectFlag][] = [
+  ['bloomStrength', '辉光强度', 0, 3, 0.05, 2, 'bloom'],
+  ['bloomRadius', '辉光半径', 0, 1, 0.05, 2, 'bloom'],
+  ['bloomThreshold', '辉光阈值', 0, 1, 0.05, 2, 'bloom'],
+  ['trailLength', '拖尾长度', 0.5, 0.97, 0.01, 2, 'trails'],
+  ['chromaticAmount', '色差强度', 0, 0.01, 0.0005, 4, 'chromatic'],
+  ['vignetteDarkness', '暗角强度', 0, 1.5, 0.05, 2, 'vignette'],
+  ['grainIntensity', '颗粒强度', 0, 1, 0.05, 2, 'grain']
+];
+
+const qualityLabels: Record<EffectsQuality, string> = {
+  [EffectsQuality.FULL]: '全画质',
+  [EffectsQuality.REDUCED]: '已降级',
+  [EffectsQuality.MINIMAL]: '最低画质'
 };
 
 export const Controls: React.FC<Props> = ({ 
   config, 
   onChange, 
   onDrawRequest, 
+  onImageImportRequest,
+  onModelImportRequest,
   handOpenness,
+  isHandOpen,
+  morphProgress,
+  trackingSettings,
+  onTrackingChange,
   videoDevices,
   selectedDeviceId,
-  onCameraChange
+  onCameraChange,
+  isMuted,
+  volume,
+  onMuteToggle,
+  onVolumeChange,
+  sequenceStatus,
+  sequenceError,
+  onSequencePlayToggle,
+  onSequenceLoopToggle,
+  onSequenceSeek,
+  onSequenceImport,
+  onSequenceExport,
+  presetNames,
+  presetError,
+  onPresetSave,
+  onPresetLoad,
+  onPresetDelete,
+  onPresetExport,
+  onPresetImport,
+  onPresetShare,
+  recordingOptions,
+  onRecordingOptionsChange,
+  recordingStartedAt,
+  recordingError,
+  onRecordToggle,
+  onStillCapture,
+  effectsQuality,
+  audioSettings,
+  onAudioSettingsChange,
+  audioInputName,
+  audioInputError,
+  audioLevels,
+  onAudioMicrophone,
+  onAudioFile,
+  onAudioStop,
+  cameraSettings,
+  onCameraSettingsChange,
+  onCameraReset
 }) => {
-  const isMulticolor = config.color === 'MULTICOLOR';
+  const sequenceFileRef = useRef<HTMLInputElement>(null);
+  const presetFileRef = useRef<HTMLInputElement>(null);
+  const audioFileRef = useRef<HTMLInputElement>(null);
+  const [presetName, setPresetName] = useState('');
+  const isRecording = recordingStartedAt !== null;
+  const resolutionIndex = Math.max(RESOLUTION_OPTIONS.findIndex(
+    r => r.width === recordingOptions.width && r.height === recordingOptions.height
+  ), 0);
+  const setText = (patch: Partial<TextShapeOptions>) => onChange({ text: { ...config.text, ...patch } });
+  const setTransition = (patch: Partial<TransitionConfig>) => onChange({ transition: { ...config.transition, ...patch } });
+  const setColor = (patch: Partial<ColorSpec>) => onChange({ color: { ...config.color, ...patch } });
+  const setEffects = (patch: Partial<EffectsConfig>) => onChange({ effects: { ...config.effects, ...patch } });
   
   return (
     <div className="absolute top-4 left-4 z-40 w-80 bg-black/40 backdrop-blur-md border border-white/10 p-6 rounded-2xl shadow-2xl text-white transition-all duration-300 hover:bg-black/60 font-sans max-h-[90vh] overflow-y-auto custom-scrollbar">
@@ -38,10 +242,19 @@ export const Controls: React.FC<Props> = ({
           粒子变形
         </h1>
         <div className="flex items-center gap-3">
+            {/* Mute Toggle */}
+            <button
+                onClick={onMuteToggle}
+                title={isMuted ? '开启声音' : '静音'}
+                className="text-sm text-gray-400 hover:text-white transition-colors"
+            >
+                {isMuted ? '🔇' : '🔊'}
+            </button>
             {/* Status Indicator */}
             <div className="flex items-center gap-2">
-                <div className={`w-3 h-3 rounded-full ${handOpenness > 0.5 ? 'bg-green-500 shadow-[0_0_10px_#22c55e]' : 'bg-orange-500'}`} />
-                <span className="text-xs text-gray-400">{handOpenness > 0.5 ? '张开' : '握拳'}</span>
+                <div className={`w-3 h-3 rounded-full ${isHandOpen ? 'bg-green-500 shadow-[0_0_10px_#22c55e]' : 'bg-orange-500'}`} />
+                <span className="text-xs text-gray-400">{isHandOpen ? '张开' : '握拳'}</span>
+                <span className="text-[10px] text-gray-500 w-7 text-right">{Math.round(handOpenness * 100)}%</span>
             </div>
         </div>
       </div>
@@ -97,9 +310,160 @@ export const Controls: React.FC<Props> = ({
               >
                 手绘自定义
               </button>
+             <button
+                onClick={onImageImportRequest}
+                className="px-3 py-2 text-sm rounded-lg border transition-all bg-transparent border-white/10 text-gray-400 hover:bg-white/5"
+              >
+                图片导入
+              </button>
+             <button
+                onClick={onModelImportRequest}
+                className="px-3 py-2 text-sm rounded-lg border transition-all bg-transparent border-white/10 text-gray-400 hover:bg-white/5"
+              >
+                3D 模型导入
+              </button>
           </div>
         </div>
 
+        {/* Text Shape Options */}
+        {config.shape === ShapeType.TEXT && (
+          <div className="space-y-3">
+            <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider block">文字内容</label>
+            <textarea
+              value={config.text.content}
+              onChange={(e) => setText({ content: e.target.value })}
+              rows={3}
+              placeholder="输入文字，回车换行"
+              className="w-full bg-white/5 border border-white/20 text-gray-200 text-sm rounded-lg p-2.5 resize-none focus:outline-none focus:border-cyan-500"
+            />
+            <div className="flex gap-2">
+              <select
+                value={config.text.fontFamily}
+                onChange={(e) => setText({ fontFamily: e.target.value })}
+                className="flex-1 bg-white/5 border border-white/20 text-gray-300 text-xs rounded-lg p-2 cursor-pointer"
+              >
+                {Object.entries(FONT_FAMILIES).map(([key, f]) => (
+                  <option key={key} value={key} className="bg-zinc-900">{f.label}</option>
+                ))}
+              </select>
+              <select
+                value={config.text.fontWeight}
+                onChange={(e) => setText({ fontWeight: parseInt(e.target.value) })}
+                className="flex-1 bg-white/5 border border-white/20 text-gray-300 text-xs rounded-lg p-2 cursor-pointer"
+              >
+                {fontWeights.map(([w, label]) => (
+                  <option key={w} value={w} className="bg-zinc-900">{label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-3 gap-1">
+              {(Object.keys(alignLabels) as TextShapeOptions['align'][]).map(align => (
+                <button
+                  key={align}
+                  onClick={() => setText({ align })}
+                  className={`px-2 py-1.5 text-xs rounded-lg border transition-all ${
+                    config.text.align === align
+                      ? 'bg-white/20 border-white/40 text-white shadow-lg'
+                      : 'bg-transparent border-white/10 text-gray-400 hover:bg-white/5'
+                  }`}
+                >
+                  {alignLabels[align]}
+                </button>
+              ))}
+            </div>
+            <div>
+              <div className="flex justify-between mb-1">
+                <label className="text-xs font-semibold text-gray-400">挤出深度</label>
+                <span className="text-xs text-gray-500">{config.text.depth.toFixed(1)}</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="12"
+                step="0.5"
+                value={config.text.depth}
+                onChange={(e) => setText({ depth: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-cyan-400"
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Morph Transition */}
+        <div className="space-y-3">
+          <div className="flex justify-between items-center">
+            <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider">变形过渡</label>
+            <span className="text-xs text-gray-500">{(config.transition.duration / 1000).toFixed(1)} 秒</span>
+          </div>
+          <div className="h-0.5 bg-white/10 rounded overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-cyan-400 to-purple-400"
+              style={{ width: `${Math.round((morphProgress ?? 0) * 100)}%` }}
+            />
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="4000"
+            step="100"
+            value={config.transition.duration}
+            onChange={(e) => setTransition({ duration: parseInt(e.target.value) })}
+            className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-cyan-400"
+          />
+          <div className="flex gap-2">
+            <select
+              value={config.transition.easing}
+              onChange={(e) => setTransition({ easing: e.target.value as TransitionEasing })}
+              className="flex-1 bg-white/5 border border-white/20 text-gray-300 text-xs rounded-lg p-2 cursor-pointer"
+            >
+              {Object.entries(easingLabels).map(([key, label]) => (
+                <option key={key} value={key} className="bg-zinc-900">{label}</option>
+              ))}
+            </select>
+            <select
+              value={config.transition.matching}
+              onChange={(e) => setTransition({ matching: e.target.value as TransitionMatching })}
+              className="flex-1 bg-white/5 border border-white/20 text-gray-300 text-xs rounded-lg p-2 cursor-pointer"
+            >
+              {Object.entries(matchingLabels).map(([key, label]) => (
+                <option key={key} value={key} className="bg-zinc-900">{label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-5 gap-1">
+            {Object.entries(waveLabels).map(([wave, label]) => (
+              <button
+                key={wave}
+                onClick={() => setTransition({ wave: wave as TransitionWave })}
+                className={`px-1 py-1.5 text-[10px] rounded-lg border transition-all ${
+                  config.transition.wave === wave
+                    ? 'bg-white/20 border-white/40 text-white shadow-lg'
+                    : 'bg-transparent border-white/10 text-gray-400 hover:bg-white/5'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {config.transition.wave !== TransitionWave.NONE && (
+            <div>
+              <div className="flex justify-between mb-1">
+                <label className="text-xs font-semibold text-gray-400">波次错开</label>
+                <span className="text-xs text-gray-500">{Math.round(config.transition.stagger * 100)}%</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max="0.9"
+                step="0.05"
+                value={config.transition.stagger}
+                onChange={(e) => setTransition({ stagger: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-purple-400"
+              />
+            </div>
+          )}
+        </div>
+
         {/* Sliders */}
         <div>
            <div className="flex justify-between mb-1">
@@ -117,6 +481,29 @@ export const Controls: React.FC<Props> = ({
           />
         </div>
 
+        <div>
+           <label className="text-xs font-semibold text-gray-400 mb-1 block">随机种子</label>
+           <div className="flex gap-2">
+             <input
+              type="number"
+              min="0"
+              value={config.seed}
+              onChange={(e) => {
+                const seed = parseInt(e.target.value);
+                if (Number.isFinite(seed)) onChange({ seed: seed >>> 0 });
+              }}
+              className="flex-1 min-w-0 bg-white/5 border border-white/20 text-gray-200 text-xs font-mono rounded-lg px-2 py-1.5 focus:outline-none focus:border-cyan-500"
+             />
+             <button
+              onClick={() => onChange({ seed: randomSeed() })}
+              title="换一个种子"
+              className="px-3 py-1.5 text-xs rounded-lg border transition-all bg-transparent border-white/10 text-gray-300 hover:bg-white/5"
+             >
+              🎲
+             </button>
+           </div>
+        </div>
+
         <div>
            <div className="flex justify-between mb-1">
              <label className="text-xs font-semibold text-gray-400">手势扩散力度</label>
@@ -133,38 +520,614 @@ export const Controls: React.FC<Props> = ({
           />
         </div>
 
-        {/* Color */}
+        {/* Hand Force */}
+        <div>
+          <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2 block">手部力场</label>
+          <div className="grid grid-cols-4 gap-1 mb-3">
+            {Object.entries(forceModeLabels).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => onChange({ forceMode: mode as ForceMode })}
+                className={`px-2 py-1.5 text-xs rounded-lg border transition-all ${
+                  config.forceMode === mode
+                    ? 'bg-white/20 border-white/40 text-white shadow-lg'
+                    : 'bg-transparent border-white/10 text-gray-400 hover:bg-white/5'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex justify-between mb-1">
+            <label className="text-xs font-semibold text-gray-400">力场半径</label>
+            <span className="text-xs text-gray-500">{config.forceRadius.toFixed(0)}</span>
+          </div>
+          <input
+            type="range"
+            min="2"
+            max="25"
+            step="1"
+            value={config.forceRadius}
+            onChange={(e) => onChange({ forceRadius: parseFloat(e.target.value) })}
+            className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-pink-400"
+          />
+        </div>
+
+        {/* Tracking Smoothing */}
+        <div>
+           <div className="flex justify-between mb-1">
+             <label className="text-xs font-semibold text-gray-400">跟踪平滑</label>
+             <span className="text-xs text-gray-500">{trackingSettings.minCutoff.toFixed(1)} Hz</span>
+           </div>
+           <input
+            type="range"
+            min="0.1"
+            max="5"
+            step="0.1"
+            value={5.1 - trackingSettings.minCutoff}
+            onChange={(e) => onTrackingChange({ minCutoff: 5.1 - parseFloat(e.target.value) })}
+            className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-sky-400"
+          />
+           <div className="flex justify-between mb-1 mt-3">
+             <label className="text-xs font-semibold text-gray-400">跟踪灵敏度</label>
+             <span className="text-xs text-gray-500">{trackingSettings.beta.toFixed(2)}</span>
+           </div>
+           <input
+            type="range"
+            min="0"
+            max="0.5"
+            step="0.01"
+            value={trackingSettings.beta}
+            onChange={(e) => onTrackingChange({ beta: parseFloat(e.target.value) })}
+            className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-sky-400"
+          />
+        </div>
+
         <div>
-          <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2 block">粒子颜色</label>
-          <div className="flex gap-2 h-10">
-              {/* Multicolor Button */}
+           <div className="flex justify-between mb-1">
+             <label className="text-xs font-semibold text-gray-400">音量</label>
+             <span className="text-xs text-gray-500">{isMuted ? '静音' : `${Math.round(volume * 100)}%`}</span>
+           </div>
+           <input
+            type="range"
+            min="0"
+            max="1"
+            step="0.01"
+            value={volume}
+            disabled={isMuted}
+            onChange={(e) => onVolumeChange(parseFloat(e.target.value))}
+            className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-emerald-400 disabled:opacity-40"
+          />
+        </div>
+
+        {/* Camera: free orbit or a scripted flight */}
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider">镜头</label>
+            <button
+              onClick={onCameraReset}
+              className="px-2 py-0.5 text-[10px] rounded-lg border transition-all bg-transparent border-white/10 text-gray-400 hover:bg-white/5"
+            >
+              ↺ 重置视角
+            </button>
+          </div>
+          <div className="grid grid-cols-4 gap-1">
+            {Object.entries(cameraPathLabels).map(([path, label]) => (
               <button
-                onClick={() => onChange({ color: 'MULTICOLOR' })}
-                className={`flex-1 rounded-lg border transition-all flex items-center justify-center font-bold text-sm tracking-wide ${
-                  isMulticolor 
-                    ? 'border-white/50 shadow-[0_0_15px_rgba(255,255,255,0.3)]' 
-                    : 'border-white/10 hover:border-white/30 opacity-80 hover:opacity-100'
+                key={path}
+                onClick={() => onCameraSettingsChange({ path: path as CameraPath })}
+                className={`px-2 py-1.5 text-xs rounded-lg border transition-all ${
+                  cameraSettings.path === path
+                    ? 'bg-white/20 border-white/40 text-white shadow-lg'
+                    : 'bg-transparent border-white/10 text-gray-400 hover:bg-white/5'
                 }`}
-                style={{
-                  background: 'linear-gradient(90deg, #ff0000, #ffff00, #00ff00, #00ffff, #0000ff, #ff00ff)'
-                }}
               >
-                🌈 多彩
+                {label}
               </button>
+            ))}
+          </div>
+          {cameraSettings.path !== CameraPath.NONE ? (
+            <div>
+              <div className="flex justify-between mb-1">
+                <label className="text-xs font-semibold text-gray-400">飞行速度</label>
+                <span className="text-xs text-gray-500">{cameraSettings.pathSpeed.toFixed(2)}×</span>
+              </div>
+              <input
+                type="range"
+                min="0.25"
+                max="3"
+                step="0.05"
+                value={cameraSettings.pathSpeed}
+                onChange={(e) => onCameraSettingsChange({ pathSpeed: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-sky-400"
+              />
+            </div>
+          ) : (
+            <button
+              onClick={() => onCameraSettingsChange({ followHand: !cameraSettings.followHand })}
+              className={`w-full px-2 py-1.5 text-xs rounded-lg border transition-all ${
+                cameraSettings.followHand
+                  ? 'bg-white/20 border-white/40 text-white shadow-lg'
+                  : 'bg-transparent border-white/10 text-gray-400 hover:bg-white/5'
+              }`}
+            >
+              手势控制镜头：倾斜旋转，远近缩放
+            </button>
+          )}
+          <div className="text-[10px] text-gray-500">拖动旋转 · 右键或双指平移 · 滚轮或捏合缩放</div>
+        </div>
 
-              {/* Single Color Picker */}
-              <div className={`relative flex-1 bg-white/5 rounded-lg border flex items-center gap-2 px-2 transition-all ${!isMulticolor ? 'border-white/40 bg-white/10' : 'border-white/10 opacity-60'}`}>
-                  <input 
-                    type="color" 
-                    value={isMulticolor ? '#ffffff' : config.color}
-                    onChange={(e) => onChange({ color: e.target.value })}
-                    className="w-8 h-8 rounded cursor-pointer bg-transparent border-0 p-0"
-                  />
-                  <span className="text-xs font-mono text-gray-300 flex-1 text-center">
-                    {isMulticolor ? '单色' : config.color}
-                  </span>
+        {/* Input Source: hand, music or both */}
+        <div className="space-y-2">
+          <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider block">输入源</label>
+          <div className="grid grid-cols-3 gap-2">
+            {Object.entries(inputSourceLabels).map(([source, label]) => (
+              <button
+                key={source}
+                onClick={() => onAudioSettingsChange({ source: source as InputSource })}
+                className={`px-2 py-1.5 text-xs rounded-lg border transition-all ${
+                  audioSettings.source === source
+                    ? 'bg-white/20 border-white/40 text-white shadow-lg'
+                    : 'bg-transparent border-white/10 text-gray-400 hover:bg-white/5'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {audioSettings.source !== InputSource.HAND && (
+            <>
+              <div className="flex gap-2">
+                <button
+                  onClick={onAudioMicrophone}
+                  className="flex-1 px-2 py-1.5 text-xs rounded-lg border transition-all bg-transparent border-white/10 text-gray-400 hover:bg-white/5"
+                >
+                  🎤 麦克风
+                </button>
+                <button
+                  onClick={() => audioFileRef.current?.click()}
+                  className="flex-1 px-2 py-1.5 text-xs rounded-lg border transition-all bg-transparent border-white/10 text-gray-400 hover:bg-white/5"
+                >
+                  📁 音频文件
+                </button>
+                <button
+                  onClick={onAudioStop}
+                  disabled={!audioInputName}
+                  className="px-2 py-1.5 text-xs rounded-lg border transition-all bg-transparent border-white/10 text-gray-400 hover:bg-white/5 disabled:opacity-40"
+                >
+                  停止
+                </button>
+                <input
+                  ref={audioFileRef}
+                  type="file"
+                  accept="audio/*"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) onAudioFile(file);
+                    e.target.value = '';
+                  }}
+                />
+              </div>
+              <div className="text-[10px] text-gray-500 truncate">{audioInputName ?? '未选择音频来源'}</div>
+              {audioInputName && (
+                <div className="space-y-1">
+                  {bandLabels.map(([band, label]) => (
+                    <div key={band} className="flex items-center gap-2">
+                      <span className="text-[10px] text-gray-500 w-6">{label}</span>
+                      <div className="flex-1 h-1 bg-white/10 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-gradient-to-r from-pink-500 to-amber-300"
+                          style={{ width: `${Math.round((audioLevels?.[band] ?? 0) * 100)}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div>
+                <div className="flex justify-between mb-1">
+                  <label className="text-xs font-semibold text-gray-400">音乐灵敏度</label>
+                  <span className="text-xs text-gray-500">{audioSettings.sensitivity.toFixed(2)}×</span>
+                </div>
+                <input
+                  type="range"
+                  min="0.25"
+                  max="3"
+                  step="0.05"
+                  value={audioSettings.sensitivity}
+                  onChange={(e) => onAudioSettingsChange({ sensitivity: parseFloat(e.target.value) })}
+                  className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-pink-400"
+                />
               </div>
+              {audioInputError && <div className="text-xs text-red-400">{audioInputError}</div>}
+            </>
+          )}
+        </div>
+
+        {/* Color */}
+        <div className="space-y-3">
+          <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider block">粒子颜色</label>
+          <div className="grid grid-cols-4 gap-1">
+            {Object.entries(colorModeLabels).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => setColor({ mode: mode as ColorMode })}
+                className={`px-1 py-1.5 text-[10px] rounded-lg border transition-all ${
+                  config.color.mode === mode
+                    ? 'bg-white/20 border-white/40 text-white shadow-lg'
+                    : 'bg-transparent border-white/10 text-gray-400 hover:bg-white/5'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
           </div>
+          {config.color.mode === ColorMode.SOLID && (
+            <div className="bg-white/10 rounded-lg border border-white/40 flex items-center gap-2 px-2 h-10">
+              <input
+                type="color"
+                value={config.color.solid}
+                onChange={(e) => setColor({ solid: e.target.value })}
+                className="w-8 h-8 rounded cursor-pointer bg-transparent border-0 p-0"
+              />
+              <span className="text-xs font-mono text-gray-300 flex-1 text-center">{config.color.solid}</span>
+            </div>
+          )}
+          {usesGradient(config.color.mode) && (
+            <GradientEditor stops={config.color.gradient} onChange={(gradient) => setColor({ gradient })} />
+          )}
+          {config.color.mode === ColorMode.HUE_CYCLE && (
+            <div>
+              <div className="flex justify-between mb-1">
+                <label className="text-xs font-semibold text-gray-400">循环速度</label>
+                <span className="text-xs text-gray-500">{config.color.cycleSpeed.toFixed(2)}</span>
+              </div>
+              <input
+                type="range"
+                min="-1"
+                max="1"
+                step="0.05"
+                value={config.color.cycleSpeed}
+                onChange={(e) => setColor({ cycleSpeed: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-cyan-400"
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Particle Look */}
+        <div className="space-y-3">
+          <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider block">粒子外观</label>
+          <div>
+            <div className="flex justify-between mb-1">
+              <label className="text-xs font-semibold text-gray-400">粒子大小</label>
+              <span className="text-xs text-gray-500">{config.particleSize.toFixed(1)}</span>
+            </div>
+            <input
+              type="range"
+              min="0.2"
+              max="2"
+              step="0.1"
+              value={config.particleSize}
+              onChange={(e) => onChange({ particleSize: parseFloat(e.target.value) })}
+              className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-cyan-400"
+            />
+          </div>
+          <div>
+            <div className="flex justify-between mb-1">
+              <label className="text-xs font-semibold text-gray-400">光晕强度</label>
+              <span className="text-xs text-gray-500">{Math.round(config.glow * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="2"
+              step="0.05"
+              value={config.glow}
+              onChange={(e) => onChange({ glow: parseFloat(e.target.value) })}
+              className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-cyan-400"
+            />
+          </div>
+          <div>
+            <div className="flex justify-between mb-1">
+              <label className="text-xs font-semibold text-gray-400">闪烁</label>
+              <span className="text-xs text-gray-500">{Math.round(config.twinkle * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={config.twinkle}
+              onChange={(e) => onChange({ twinkle: parseFloat(e.target.value) })}
+              className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-cyan-400"
+            />
+          </div>
+        </div>
+
+        {/* Post-processing */}
+        <div className="space-y-3">
+          <div className="flex justify-between items-center">
+            <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider">后期特效</label>
+            {config.effects.autoQuality && (
+              <span className={`text-[10px] ${effectsQuality === EffectsQuality.FULL ? 'text-gray-500' : 'text-orange-400'}`}>
+                {qualityLabels[effectsQuality]}
+              </span>
+            )}
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            {effectToggles.map(([key, label]) => (
+              <button
+                key={key}
+                onClick={() => setEffects({ [key]: !config.effects[key] })}
+                className={`px-1 py-1.5 text-[10px] rounded-lg border transition-all ${
+                  config.effects[key]
+                    ? 'bg-white/20 border-white/40 text-white shadow-lg'
+                    : 'bg-transparent border-white/10 text-gray-400 hover:bg-white/5'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {effectSliders.filter(([, , , , , , flag]) => config.effects[flag]).map(([key, label, min, max, step, digits]) => (
+            <div key={key}>
+              <div className="flex justify-between mb-1">
+                <label className="text-xs font-semibold text-gray-400">{label}</label>
+                <span className="text-xs text-gray-500">{(config.effects[key] as number).toFixed(digits)}</span>
+              </div>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={config.effects[key] as number}
+                onChange={(e) => setEffects({ [key]: parseFloat(e.target.value) })}
+                className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-purple-400"
+              />
+            </div>
+          ))}
+        </div>
+
+        {/* Show Sequence */}
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider">节目序列</label>
+            <span className="text-[10px] text-gray-500 truncate max-w-[10rem]">{sequenceStatus.name}</span>
+          </div>
+          <div className="flex gap-2 mb-2">
+            <button
+              onClick={onSequencePlayToggle}
+              className={`flex-1 px-2 py-1.5 text-xs rounded-lg border transition-all ${
+                sequenceStatus.playing
+                  ? 'bg-white/20 border-white/40 text-white shadow-lg'
+                  : 'bg-transparent border-white/10 text-gray-400 hover:bg-white/5'
+              }`}
+            >
+              {sequenceStatus.playing ? '⏸ 暂停' : '▶ 播放'}
+            </button>
+            <button
+              onClick={onSequenceLoopToggle}
+              className={`flex-1 px-2 py-1.5 text-xs rounded-lg border transition-all ${
+                sequenceStatus.loop
+                  ? 'bg-white/20 border-white/40 text-white shadow-lg'
+                  : 'bg-transparent border-white/10 text-gray-400 hover:bg-white/5'
+              }`}
+            >
+              🔁 循环
+            </button>
+            <button
+              onClick={() => sequenceFileRef.current?.click()}
+              className="flex-1 px-2 py-1.5 text-xs rounded-lg border transition-all bg-transparent border-white/10 text-gray-400 hover:bg-white/5"
+            >
+              导入
+            </button>
+            <button
+              onClick={onSequenceExport}
+              className="flex-1 px-2 py-1.5 text-xs rounded-lg border transition-all bg-transparent border-white/10 text-gray-400 hover:bg-white/5"
+            >
+              导出
+            </button>
+            <input
+              ref={sequenceFileRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onSequenceImport(file);
+                e.target.value = ''; // Allow re-importing the same file
+              }}
+            />
+          </div>
+          <input
+            type="range"
+            min="0"
+            max={sequenceStatus.total}
+            step="100"
+            value={sequenceStatus.position}
+            onChange={(e) => onSequenceSeek(parseFloat(e.target.value))}
+            className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-amber-400"
+          />
+          <div className="flex justify-between mt-1 text-[10px] text-gray-500">
+            <span>
+              片段 {sequenceStatus.cueIndex + 1}
+              {sequenceStatus.overridden && <span className="text-amber-300 ml-2">手势接管中</span>}
+            </span>
+            <span>{formatTime(sequenceStatus.position)} / {formatTime(sequenceStatus.total)}</span>
+          </div>
+          {sequenceError && <div className="text-xs text-red-400 mt-1">{sequenceError}</div>}
+        </div>
+
+        {/* Presets */}
+        <div>
+          <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2 block">预设</label>
+          <div className="flex gap-2 mb-2">
+            <input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="预设名称"
+              className="flex-1 min-w-0 bg-white/5 border border-white/20 text-gray-200 text-xs rounded-lg px-2 py-1.5 focus:outline-none focus:border-cyan-500"
+            />
+            <button
+              onClick={() => {
+                if (!presetName.trim()) return;
+                onPresetSave(presetName.trim());
+                setPresetName('');
+              }}
+              disabled={!presetName.trim()}
+              className="px-3 py-1.5 text-xs rounded-lg border transition-all bg-white/10 border-white/20 text-white hover:bg-white/20 disabled:opacity-40"
+            >
+              保存
+            </button>
+          </div>
+          {presetNames.length > 0 && (
+            <div className="space-y-1 mb-2 max-h-32 overflow-y-auto custom-scrollbar">
+              {presetNames.map(name => (
+                <div key={name} className="flex items-center gap-2">
+                  <button
+                    onClick={() => onPresetLoad(name)}
+                    className="flex-1 text-left px-2 py-1 text-xs rounded-lg border border-white/10 text-gray-300 hover:bg-white/5 truncate"
+                  >
+                    {name}
+                  </button>
+                  <button
+                    onClick={() => onPresetDelete(name)}
+                    title="删除"
+                    className="text-xs text-gray-500 hover:text-red-400"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="grid grid-cols-3 gap-1">
+            <button
+              onClick={() => presetFileRef.current?.click()}
+              className="px-2 py-1.5 text-xs rounded-lg border transition-all bg-transparent border-white/10 text-gray-400 hover:bg-white/5"
+            >
+              导入
+            </button>
+            <button
+              onClick={onPresetExport}
+              className="px-2 py-1.5 text-xs rounded-lg border transition-all bg-transparent border-white/10 text-gray-400 hover:bg-white/5"
+            >
+              导出
+            </button>
+            <button
+              onClick={onPresetShare}
+              className="px-2 py-1.5 text-xs rounded-lg border transition-all bg-transparent border-white/10 text-gray-400 hover:bg-white/5"
+            >
+              分享链接
+            </button>
+            <input
+              ref={presetFileRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onPresetImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          {presetError && <div className="text-xs text-red-400 mt-1">{presetError}</div>}
+        </div>
+
+        {/* Recording */}
+        <div>
+          <label className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2 block">录制</label>
+          <div className="flex gap-2 mb-2">
+            <select
+              value={recordingOptions.format}
+              disabled={isRecording}
+              onChange={(e) => onRecordingOptionsChange({ format: e.target.value as RecordingFormat })}
+              className="flex-1 min-w-0 bg-white/5 border border-white/20 text-gray-300 text-xs rounded-lg p-2 cursor-pointer disabled:opacity-40"
+            >
+              {FORMAT_OPTIONS.map(f => (
+                <option key={f.value} value={f.value} className="bg-zinc-900">{f.label}</option>
+              ))}
+            </select>
+            <select
+              value={resolutionIndex}
+              disabled={isRecording}
+              onChange={(e) => {
+                const r = RESOLUTION_OPTIONS[parseInt(e.target.value)];
+                onRecordingOptionsChange({ width: r.width, height: r.height });
+              }}
+              className="flex-[2] min-w-0 bg-white/5 border border-white/20 text-gray-300 text-xs rounded-lg p-2 cursor-pointer disabled:opacity-40"
+            >
+              {RESOLUTION_OPTIONS.map((r, i) => (
+                <option key={r.label} value={i} className="bg-zinc-900">{r.label}</option>
+              ))}
+            </select>
+            <select
+              value={recordingOptions.fps}
+              disabled={isRecording}
+              onChange={(e) => onRecordingOptionsChange({ fps: parseInt(e.target.value) })}
+              className="flex-1 min-w-0 bg-white/5 border border-white/20 text-gray-300 text-xs rounded-lg p-2 cursor-pointer disabled:opacity-40"
+            >
+              {FPS_OPTIONS.map(fps => (
+                <option key={fps} value={fps} className="bg-zinc-900">{fps} fps</option>
+              ))}
+            </select>
+            <select
+              value={recordingOptions.bitrate}
+              disabled={isRecording || recordingOptions.format === 'gif'}
+              onChange={(e) => onRecordingOptionsChange({ bitrate: parseInt(e.target.value) })}
+              className="flex-1 min-w-0 bg-white/5 border border-white/20 text-gray-300 text-xs rounded-lg p-2 cursor-pointer disabled:opacity-40"
+            >
+              {BITRATE_OPTIONS.map(b => (
+                <option key={b} value={b} className="bg-zinc-900">{b / 1_000_000} Mbps</option>
+              ))}
+            </select>
+          </div>
+          {recordingOptions.format === 'gif' && (
+            <div className="text-[10px] text-gray-500 mb-2">
+              GIF 无声音，最长边 {GIF_MAX_SIZE} 像素、最高 {GIF_MAX_FPS} fps
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={onRecordToggle}
+              className={`px-2 py-1.5 text-xs rounded-lg border transition-all ${
+                isRecording
+                  ? 'bg-red-500/30 border-red-400/60 text-white shadow-[0_0_10px_rgba(239,68,68,0.5)]'
+                  : 'bg-transparent border-white/10 text-gray-300 hover:bg-white/5'
+              }`}
+            >
+              {isRecording
+                ? `■ 停止 ${formatTime(performance.now() - recordingStartedAt!)}`
+                : '● 开始录制'}
+            </button>
+            <button
+              onClick={() => onRecordingOptionsChange({ includeCamera: !recordingOptions.includeCamera })}
+              disabled={isRecording}
+              className={`px-2 py-1.5 text-xs rounded-lg border transition-all disabled:opacity-40 ${
+                recordingOptions.includeCamera
+                  ? 'bg-white/20 border-white/40 text-white shadow-lg'
+                  : 'bg-transparent border-white/10 text-gray-400 hover:bg-white/5'
+              }`}
+            >
+              包含摄像头画面
+            </button>
+            <button
+              onClick={() => onStillCapture(2)}
+              className="px-2 py-1.5 text-xs rounded-lg border transition-all bg-transparent border-white/10 text-gray-400 hover:bg-white/5"
+            >
+              📷 截图 2×
+            </button>
+            <button
+              onClick={() => onStillCapture(4)}
+              className="px-2 py-1.5 text-xs rounded-lg border transition-all bg-transparent border-white/10 text-gray-400 hover:bg-white/5"
+            >
+              📷 截图 4×
+            </button>
+          </div>
+          {recordingError && <div className="text-xs text-red-400 mt-1">{recordingError}</div>}
         </div>
       </div>
       
@@ -172,6 +1135,9 @@ export const Controls: React.FC<Props> = ({
           <p className="text-[10px] text-gray-500 leading-relaxed">
               张开手掌以扩散粒子，握紧拳头将粒子凝聚成选定形状。
           </p>
+          <p className="text-[10px] text-gray-500 leading-relaxed mt-1">
+              左右挥手切换模型，✌️ 切换颜色，👍 打开画板，画圈切换力场，捏合上下拖动调节扩散。
+          </p>
       </div>
     </div>
   );
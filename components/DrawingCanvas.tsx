@@ -1,48 +1,199 @@
 
 import React, { useRef, useState, useEffect } from 'react';
-import { Point3D } from '../types';
+import { HandData, Point3D } from '../types';
+import { createRandom, deriveSeed } from '../services/random';
+import { AirPen, AirPenState, PenTrigger } from '../services/airDrawing';
+import {
+  DEFAULT_SKETCH_OPTIONS, SKETCH_EXTENT, SketchHistory, SketchPoint, SketchSymmetry, SketchVolumeMode, SketchVolumeOptions, Stroke,
+  addStrokePoint, canvasToSketch, isClosedStroke, sketchToCanvas, sketchToPoints, symmetricStrokes, symmetryTransforms
+} from '../services/sketch';
 
 interface Props {
+  seed: number; // Point sampling of the strokes is reproducible for a given seed
+  particleCount: number; // Current active particle count; the drawing is sampled to it
+  handsRef: React.RefObject<HandData[]>; // Latest smoothed hands, read every frame in air drawing
+  airDrawing: boolean; // Start in air drawing mode (opened by a gesture, no pointer device)
   onComplete: (points: Point3D[]) => void;
   onCancel: () => void;
 }
 
-export const DrawingCanvas: React.FC<Props> = ({ onComplete, onCancel }) => {
+const PREVIEW_SIZE = 220;
+const PREVIEW_MAX_POINTS = 4000;
+
+const symmetryLabels: [SketchSymmetry, string][] = [['none', '无'], ['mirror', '镜像'], ['radial', '放射']];
+const volumeLabels: [SketchVolumeMode, string][] = [['flat', '平面'], ['extrude', '挤出'], ['lathe', '旋转'], ['inflate', '膨胀']];
+const triggerLabels: [PenTrigger, string][] = [['pinch', '捏合落笔'], ['point', '食指落笔']];
+
+const toggleClass = (active: boolean) =>
+  `flex-1 px-2 py-1 text-xs rounded-lg border transition-all ${
+    active
+      ? 'bg-white/20 border-white/40 text-white shadow-lg'
+      : 'bg-transparent border-white/10 text-gray-400 hover:bg-white/5'
+  }`;
+
+export const DrawingCanvas: React.FC<Props> = ({ seed, particleCount, handsRef, airDrawing, onComplete, onCancel }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const historyRef = useRef(new SketchHistory());
+  const strokeRef = useRef<Stroke | null>(null); // Stroke being drawn, before symmetry
   const [isDrawing, setIsDrawing] = useState(false);
   const [brushSize, setBrushSize] = useState(5);
-  const pointsRef = useRef<Point3D[]>([]);
+  const [symmetry, setSymmetry] = useState<SketchSymmetry>('none');
+  const [folds, setFolds] = useState(6);
+  const [volume, setVolume] = useState<SketchVolumeOptions>({ ...DEFAULT_SKETCH_OPTIONS, sampleCount: particleCount });
+  const [strokes, setStrokes] = useState<Stroke[]>([]); // Mirrors historyRef for rendering
+  const [points, setPoints] = useState<Point3D[]>([]);
+  const [airMode, setAirMode] = useState(airDrawing);
+  const [penTrigger, setPenTrigger] = useState<PenTrigger>('pinch');
+  const [airPen, setAirPen] = useState<AirPenState | null>(null);
+  const airPenRef = useRef(new AirPen());
+
+  const setVolumeOption = (patch: Partial<SketchVolumeOptions>) => setVolume(prev => ({ ...prev, ...patch }));
+
+  // Brush width in world units (the old scatter radius)
+  const strokeWidth = brushSize * 0.05;
+
+  const applyHistory = () => setStrokes(historyRef.current.strokes);
+
+  const redraw = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const { width, height } = canvas;
+    ctx.clearRect(0, 0, width, height);
+
+    // Symmetry guides
+    if (symmetry !== 'none') {
+      ctx.save();
+      ctx.strokeStyle = 'rgba(255,255,255,0.12)';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([6, 8]);
+      ctx.beginPath();
+      if (symmetry === 'mirror') {
+        ctx.moveTo(width / 2, 0);
+        ctx.lineTo(width / 2, height);
+      } else {
+        const reach = Math.hypot(width, height);
+        for (let k = 0; k < folds; k++) {
+          const a = Math.PI / 2 + (k / folds) * Math.PI * 2;
+          ctx.moveTo(width / 2, height / 2);
+          ctx.lineTo(width / 2 + Math.cos(a) * reach, height / 2 - Math.sin(a) * reach);
+        }
+      }
+      ctx.stroke();
+      ctx.restore();
+    }
+
+    const all = strokeRef.current
+      ? [...historyRef.current.strokes, ...symmetricStrokes(strokeRef.current, symmetry, folds)]
+      : historyRef.current.strokes;
+    ctx.save();
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.shadowBlur = 10;
+    ctx.shadowColor = '#00ffff';
+    ctx.strokeStyle = '#00ffff';
+    ctx.fillStyle = '#00ffff';
+    for (const stroke of all) {
+      const px = stroke.points.map(p => sketchToCanvas(p, width, height));
+      const lineWidth = (stroke.width * height) / SKETCH_EXTENT;
+      if (px.length === 1) {
+        ctx.beginPath();
+        ctx.arc(px[0].x, px[0].y, lineWidth / 2, 0, Math.PI * 2);
+        ctx.fill();
+        continue;
+      }
+      ctx.lineWidth = lineWidth;
+      ctx.beginPath();
+      px.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      if (isClosedStroke(stroke)) ctx.closePath();
+      ctx.stroke();
+    }
+    ctx.restore();
+  };
+  const redrawRef = useRef(redraw);
+  redrawRef.current = redraw;
 
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
-    
-    canvas.width = window.innerWidth;
-    canvas.height = window.innerHeight;
-    
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
-      ctx.lineWidth = brushSize;
-      ctx.shadowBlur = 10;
-      ctx.shadowColor = '#00ffff';
-      ctx.strokeStyle = '#00ffff';
-    }
+
+    // Strokes are vectors, so a resize simply repaints them at the new scale
+    const resize = () => {
+      canvas.width = window.innerWidth;
+      canvas.height = window.innerHeight;
+      redrawRef.current();
+    };
+    resize();
+    window.addEventListener('resize', resize);
+    return () => window.removeEventListener('resize', resize);
   }, []);
 
-  // Update line width when brush size changes
+  useEffect(redraw, [strokes, symmetry, folds]);
+
+  // Resample the finished strokes for the preview and the final shape
   useEffect(() => {
-      const ctx = canvasRef.current?.getContext('2d');
-      if (ctx) {
-          ctx.lineWidth = brushSize;
+    setPoints(sketchToPoints(strokes, volume, createRandom(deriveSeed(seed, 'drawing'))));
+  }, [strokes, volume, seed]);
+
+  // Live 3D preview: the sampled points slowly turning, nearer points brighter
+  useEffect(() => {
+    const canvas = previewRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const step = Math.max(Math.ceil(points.length / PREVIEW_MAX_POINTS), 1);
+    let extent = 1;
+    for (const p of points) extent = Math.max(extent, Math.hypot(p.x, p.y, p.z));
+    const scale = (canvas.width * 0.45) / extent;
+
+    let frame = 0;
+    const render = (now: number) => {
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      const yaw = now / 2000;
+      const cos = Math.cos(yaw), sin = Math.sin(yaw);
+      for (let i = 0; i < points.length; i += step) {
+        const p = points[i];
+        const x = p.x * cos + p.z * sin;
+        const depth = (p.z * cos - p.x * sin) / extent; // -1 (far) to 1 (near)
+        ctx.fillStyle = `rgba(34,211,238,${0.35 + 0.3 * (depth + 1)})`;
+        ctx.fillRect(canvas.width / 2 + x * scale, canvas.height / 2 - p.y * scale, 1.2, 1.2);
       }
-  }, [brushSize]);
+      frame = requestAnimationFrame(render);
+    };
+    frame = requestAnimationFrame(render);
+    return () => cancelAnimationFrame(frame);
+  }, [points]);
+
+  const handleUndo = () => {
+    historyRef.current.undo();
+    applyHistory();
+  };
+
+  const handleRedo = () => {
+    historyRef.current.redo();
+    applyHistory();
+  };
+
+  // Ctrl / Cmd + Z undoes, with Shift (or Ctrl + Y) redoes
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) handleUndo();
+      else if ((key === 'z' && e.shiftKey) || key === 'y') handleRedo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
 
   const getPos = (e: React.MouseEvent | React.TouchEvent) => {
       const canvas = canvasRef.current;
       if(!canvas) return {x:0, y:0};
-      
+
       let clientX, clientY;
       if ('touches' in e) {
           clientX = e.touches[0].clientX;
@@ -51,87 +202,118 @@ export const DrawingCanvas: React.FC<Props> = ({ onComplete, onCancel }) => {
           clientX = (e as React.MouseEvent).clientX;
           clientY = (e as React.MouseEvent).clientY;
       }
-      
+
       const rect = canvas.getBoundingClientRect();
-      return {
-          x: clientX - rect.left,
-          y: clientY - rect.top
-      };
+      return canvasToSketch(clientX - rect.left, clientY - rect.top, canvas.width, canvas.height);
   }
 
-  const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
+  const beginStroke = (p: SketchPoint) => {
     setIsDrawing(true);
-    const { x, y } = getPos(e);
-    
-    const ctx = canvasRef.current?.getContext('2d');
-    if (ctx) {
-        ctx.beginPath();
-        ctx.moveTo(x, y);
-    }
-    
-    // Add initial point
-    addPoint(x, y);
+    strokeRef.current = { points: [p], width: strokeWidth };
+    redraw();
   };
 
-  const draw = (e: React.MouseEvent | React.TouchEvent) => {
-    if (!isDrawing) return;
-    const { x, y } = getPos(e);
-    
-    addPoint(x, y);
-
-    const ctx = canvasRef.current?.getContext('2d');
-    if (ctx) {
-      ctx.lineTo(x, y);
-      ctx.stroke();
+  // Only the newest segment of each symmetric copy is painted while drawing
+  const extendStroke = (p: SketchPoint) => {
+    const stroke = strokeRef.current;
+    if (!stroke) return;
+    const previous = stroke.points[stroke.points.length - 1];
+    if (!addStrokePoint(stroke, p)) return;
+
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.save();
+    ctx.lineCap = 'round';
+    ctx.lineWidth = (stroke.width * canvas.height) / SKETCH_EXTENT;
+    ctx.shadowBlur = 10;
+    ctx.shadowColor = '#00ffff';
+    ctx.strokeStyle = '#00ffff';
+    ctx.beginPath();
+    for (const t of symmetryTransforms(symmetry, folds)) {
+      const a = sketchToCanvas(t(previous), canvas.width, canvas.height);
+      const b = sketchToCanvas(t(p), canvas.width, canvas.height);
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x, b.y);
     }
+    ctx.stroke();
+    ctx.restore();
   };
 
-  const addPoint = (x: number, y: number) => {
-      const w = canvasRef.current!.width;
-      const h = canvasRef.current!.height;
-      
-      const x3d = (x / w) * 40 - 20;
-      const y3d = -((y / h) * 40 - 20); 
-      
-      // Scatter particles based on brush size to create volume
-      const density = Math.max(1, Math.floor(brushSize / 2));
-      const scatter = brushSize * 0.05; // Adjust multiplier for world space scatter
-
-      for(let i=0; i<density; i++) {
-          pointsRef.current.push({ 
-              x: x3d + (Math.random() - 0.5) * scatter, 
-              y: y3d + (Math.random() - 0.5) * scatter, 
-              z: (Math.random() - 0.5) * 5 // Depth noise
-          });
-      }
+  const startDrawing = (e: React.MouseEvent | React.TouchEvent) => beginStroke(getPos(e));
+
+  const draw = (e: React.MouseEvent | React.TouchEvent) => {
+    if (isDrawing) extendStroke(getPos(e));
   };
 
   const endDrawing = () => {
     setIsDrawing(false);
-    const ctx = canvasRef.current?.getContext('2d');
-    if (ctx) {
-        ctx.closePath();
-    }
+    const stroke = strokeRef.current;
+    strokeRef.current = null;
+    if (!stroke) return;
+    historyRef.current.add(symmetricStrokes(stroke, symmetry, folds));
+    applyHistory();
   };
 
   const handleClear = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-    }
-    pointsRef.current = [];
+    historyRef.current.clear();
+    applyHistory();
   };
 
   const handleConfirm = () => {
-    if (pointsRef.current.length > 5) {
-        onComplete(pointsRef.current);
+    if (points.length > 5) {
+        onComplete(points);
     } else {
         onCancel();
     }
   };
 
+  // Latest handlers for the air drawing loop, which outlives renders
+  const airActionsRef = useRef({ beginStroke, extendStroke, endDrawing, confirm: () => {} });
+  airActionsRef.current = {
+    beginStroke,
+    extendStroke,
+    endDrawing,
+    // A fist on an empty board does nothing rather than cancelling
+    confirm: () => { if (points.length > 5) onComplete(points); }
+  };
+
+  useEffect(() => {
+    airPenRef.current.trigger = penTrigger;
+  }, [penTrigger]);
+
+  // Air drawing: the index fingertip draws while the pen is down, a held fist confirms
+  useEffect(() => {
+    if (!airMode) {
+      setAirPen(null);
+      return;
+    }
+    const pen = airPenRef.current;
+    pen.reset();
+
+    let frame = 0;
+    const tick = () => {
+      const state = pen.update(handsRef.current?.[0] ?? null, performance.now());
+      const canvas = canvasRef.current;
+      const actions = airActionsRef.current;
+      if (state.penDown && state.cursor && canvas) {
+        const p = canvasToSketch(state.cursor.x * canvas.width, state.cursor.y * canvas.height, canvas.width, canvas.height);
+        if (strokeRef.current) actions.extendStroke(p);
+        else actions.beginStroke(p);
+      } else if (!state.penDown && strokeRef.current) {
+        actions.endDrawing();
+      }
+      if (state.confirmed) actions.confirm();
+      setAirPen(state);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => {
+      cancelAnimationFrame(frame);
+      if (strokeRef.current) airActionsRef.current.endDrawing();
+    };
+  }, [airMode]);
+
   return (
     <div className="absolute inset-0 z-50 bg-black/90 flex flex-col items-center justify-center cursor-crosshair backdrop-blur-md font-sans">
         <canvas
@@ -145,16 +327,38 @@ export const DrawingCanvas: React.FC<Props> = ({ onComplete, onCancel }) => {
             onTouchEnd={endDrawing}
             className="absolute inset-0 w-full h-full touch-none"
         />
-        
+
+        {/* Air drawing cursor: ring while hovering, filled while drawing, fills up while a fist is held */}
+        {airPen?.cursor && (
+            <div
+                className="absolute z-20 pointer-events-none -translate-x-1/2 -translate-y-1/2 rounded-full"
+                style={{
+                    left: `${airPen.cursor.x * 100}%`,
+                    top: `${airPen.cursor.y * 100}%`,
+                    width: 28,
+                    height: 28,
+                    background: airPen.confirmProgress > 0
+                        ? `conic-gradient(#22d3ee ${airPen.confirmProgress * 360}deg, rgba(255,255,255,0.1) 0)`
+                        : undefined
+                }}
+            >
+                <div
+                    className={`absolute inset-1 rounded-full border-2 border-cyan-300 ${
+                        airPen.penDown ? 'bg-cyan-300 shadow-[0_0_15px_rgba(34,211,238,0.8)]' : 'bg-black/40'
+                    }`}
+                />
+            </div>
+        )}
+
         {/* Top Controls: Actions */}
         <div className="absolute top-6 right-6 flex gap-3 z-10">
-            <button 
+            <button
                 onClick={onCancel}
                 className="bg-white/10 hover:bg-white/20 text-white px-6 py-2 rounded-full border border-white/20 transition-all backdrop-blur-md text-sm"
             >
                 取消
             </button>
-            <button 
+            <button
                 onClick={handleConfirm}
                 className="bg-cyan-500 hover:bg-cyan-400 text-white px-6 py-2 rounded-full shadow-[0_0_15px_rgba(34,211,238,0.4)] transition-all font-bold text-sm"
             >
@@ -162,36 +366,148 @@ export const DrawingCanvas: React.FC<Props> = ({ onComplete, onCancel }) => {
             </button>
         </div>
 
+        {/* 3D Preview */}
+        <div className="absolute top-20 right-6 z-10 rounded-2xl overflow-hidden border border-white/10 pointer-events-none">
+            <canvas ref={previewRef} width={PREVIEW_SIZE} height={PREVIEW_SIZE} className="block" />
+            <div className="absolute bottom-2 left-3 text-[10px] text-gray-500">
+                预览 · {points.length.toLocaleString()} 个粒子
+            </div>
+        </div>
+
         {/* Bottom Controls: Tools */}
-        <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-10 flex flex-col items-center gap-4 w-full max-w-md px-4">
+        <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-10 flex flex-col items-center gap-4 w-full max-w-2xl px-4">
              {/* Instructions overlay if empty */}
-            {pointsRef.current.length === 0 && !isDrawing && (
+            {strokes.length === 0 && !isDrawing && (
                 <div className="text-white/40 text-lg font-light tracking-widest pointer-events-none mb-4 animate-pulse">
-                    请在屏幕上绘制图案
+                    {airMode ? '用食指在空中绘制图案' : '请在屏幕上绘制图案'}
                 </div>
             )}
 
-            <div className="bg-black/60 backdrop-blur-xl border border-white/10 p-4 rounded-2xl w-full flex items-center justify-between gap-6 shadow-2xl">
-                 <button 
-                    onClick={handleClear}
-                    className="text-red-400 hover:text-red-300 text-sm font-medium px-3 py-1 hover:bg-white/5 rounded transition-colors whitespace-nowrap"
-                >
-                    清空画板
-                </button>
-
-                <div className="flex-1 flex items-center gap-3">
-                    <span className="text-xs text-gray-400 whitespace-nowrap">画笔粗细</span>
-                    <input 
-                        type="range" 
-                        min="2" 
-                        max="20" 
-                        step="1"
-                        value={brushSize}
-                        onChange={(e) => setBrushSize(parseInt(e.target.value))}
-                        className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-cyan-400"
-                    />
-                    <span className="text-xs text-cyan-400 w-4 text-center">{brushSize}</span>
+            <div className="bg-black/60 backdrop-blur-xl border border-white/10 p-4 rounded-2xl w-full flex flex-col gap-3 shadow-2xl cursor-default">
+                <div className="flex items-center justify-between gap-4">
+                    <div className="flex gap-1">
+                        <button
+                            onClick={handleUndo}
+                            disabled={!historyRef.current.canUndo}
+                            title="撤销 (Ctrl+Z)"
+                            className="text-gray-300 hover:text-white text-sm px-3 py-1 hover:bg-white/5 rounded transition-colors disabled:opacity-30"
+                        >
+                            ↶ 撤销
+                        </button>
+                        <button
+                            onClick={handleRedo}
+                            disabled={!historyRef.current.canRedo}
+                            title="重做 (Ctrl+Shift+Z)"
+                            className="text-gray-300 hover:text-white text-sm px-3 py-1 hover:bg-white/5 rounded transition-colors disabled:opacity-30"
+                        >
+                            ↷ 重做
+                        </button>
+                        <button
+                            onClick={handleClear}
+                            className="text-red-400 hover:text-red-300 text-sm font-medium px-3 py-1 hover:bg-white/5 rounded transition-colors whitespace-nowrap"
+                        >
+                            清空画板
+                        </button>
+                    </div>
+
+                    <div className="flex-1 flex items-center gap-3">
+                        <span className="text-xs text-gray-400 whitespace-nowrap">画笔粗细</span>
+                        <input
+                            type="range"
+                            min="2"
+                            max="20"
+                            step="1"
+                            value={brushSize}
+                            onChange={(e) => setBrushSize(parseInt(e.target.value))}
+                            className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-cyan-400"
+                        />
+                        <span className="text-xs text-cyan-400 w-4 text-center">{brushSize}</span>
+                    </div>
+                </div>
+
+                <div className="flex items-center gap-3">
+                    <span className="text-xs text-gray-400 whitespace-nowrap w-12">对称</span>
+                    <div className="flex gap-1 w-48">
+                        {symmetryLabels.map(([mode, label]) => (
+                            <button key={mode} className={toggleClass(symmetry === mode)} onClick={() => setSymmetry(mode)}>
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    {symmetry === 'radial' && (
+                        <div className="flex-1 flex items-center gap-3">
+                            <input
+                                type="range"
+                                min="3"
+                                max="12"
+                                step="1"
+                                value={folds}
+                                onChange={(e) => setFolds(parseInt(e.target.value))}
+                                className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-cyan-400"
+                            />
+                            <span className="text-xs text-cyan-400 w-8 text-center">{folds} 瓣</span>
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex items-center gap-3">
+                    <span className="text-xs text-gray-400 whitespace-nowrap w-12">立体化</span>
+                    <div className="flex gap-1 w-64">
+                        {volumeLabels.map(([mode, label]) => (
+                            <button key={mode} className={toggleClass(volume.mode === mode)} onClick={() => setVolumeOption({ mode })}>
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    {(volume.mode === 'extrude' || volume.mode === 'inflate') && (
+                        <div className="flex-1 flex items-center gap-3">
+                            <input
+                                type="range"
+                                min="1"
+                                max="20"
+                                step="0.5"
+                                value={volume.depth}
+                                onChange={(e) => setVolumeOption({ depth: parseFloat(e.target.value) })}
+                                className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-purple-400"
+                            />
+                            <span className="text-xs text-purple-400 w-8 text-center">{volume.depth}</span>
+                        </div>
+                    )}
+                    {volume.mode === 'lathe' && (
+                        <div className="flex-1 flex gap-1">
+                            <button className={toggleClass(volume.latheAxis === 'y')} onClick={() => setVolumeOption({ latheAxis: 'y' })}>
+                                绕竖轴
+                            </button>
+                            <button className={toggleClass(volume.latheAxis === 'x')} onClick={() => setVolumeOption({ latheAxis: 'x' })}>
+                                绕横轴
+                            </button>
+                        </div>
+                    )}
+                </div>
+                <div className="flex items-center gap-3">
+                    <div className="flex w-32">
+                        <button className={toggleClass(airMode)} onClick={() => setAirMode(!airMode)}>
+                            ✋ 隔空绘制
+                        </button>
+                    </div>
+                    {airMode && (
+                        <>
+                            <div className="flex gap-1 w-48">
+                                {triggerLabels.map(([trigger, label]) => (
+                                    <button key={trigger} className={toggleClass(penTrigger === trigger)} onClick={() => setPenTrigger(trigger)}>
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                            <span className="text-[10px] text-gray-500">
+                                {!airPen?.cursor ? '未检测到手' : '握拳一秒确定生成'}
+                            </span>
+                        </>
+                    )}
                 </div>
+                {volume.mode === 'inflate' && (
+                    <div className="text-[10px] text-gray-500">首尾相接的闭合笔画会膨胀成实体，开放笔画变为圆管</div>
+                )}
             </div>
         </div>
     </div>
@@ -0,0 +1,112 @@
+import React, { useRef, useState } from 'react';
+import { GradientStop } from '../types';
+import { PALETTE_PRESETS, gradientCss, sampleGradientHex } from '../services/palette';
+
+interface Props {
+  stops: GradientStop[];
+  onChange: (stops: GradientStop[]) => void;
+}
+
+// Click the bar to add a stop, drag a marker to move it
+export const GradientEditor: React.FC<Props> = ({ stops, onChange }) => {
+  const barRef = useRef<HTMLDivElement>(null);
+  const dragIndexRef = useRef<number | null>(null);
+  const [selected, setSelected] = useState(0);
+  const current = Math.min(selected, stops.length - 1);
+  const stop = stops[current];
+
+  const offsetAt = (clientX: number) => {
+    const rect = barRef.current!.getBoundingClientRect();
+    return Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+  };
+
+  const updateStop = (index: number, patch: Partial<GradientStop>) => {
+    onChange(stops.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+  };
+
+  const handleBarPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const offset = offsetAt(e.clientX);
+    onChange([...stops, { offset, color: sampleGradientHex(stops, offset) }]);
+    setSelected(stops.length);
+  };
+
+  const handleMarkerPointerDown = (e: React.PointerEvent<HTMLDivElement>, index: number) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragIndexRef.current = index;
+    setSelected(index);
+  };
+
+  const handleMarkerPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragIndexRef.current === null) return;
+    updateStop(dragIndexRef.current, { offset: offsetAt(e.clientX) });
+  };
+
+  const handleMarkerPointerUp = () => {
+    dragIndexRef.current = null;
+  };
+
+  const removeStop = () => {
+    if (stops.length <= 2) return;
+    onChange(stops.filter((_, i) => i !== current));
+    setSelected(0);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        ref={barRef}
+        onPointerDown={handleBarPointerDown}
+        className="relative h-6 rounded-lg border border-white/20 cursor-copy"
+        style={{ background: gradientCss(stops) }}
+      >
+        {stops.map((s, i) => (
+          <div
+            key={i}
+            onPointerDown={(e) => handleMarkerPointerDown(e, i)}
+            onPointerMove={handleMarkerPointerMove}
+            onPointerUp={handleMarkerPointerUp}
+            className={`absolute top-full mt-0.5 w-3 h-3 -translate-x-1/2 rounded-sm border cursor-ew-resize touch-none ${
+              i === current ? 'border-white shadow-[0_0_6px_rgba(255,255,255,0.8)]' : 'border-white/40'
+            }`}
+            style={{ left: `${s.offset * 100}%`, background: s.color }}
+          />
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 pt-3">
+        <input
+          type="color"
+          value={stop.color}
+          onChange={(e) => updateStop(current, { color: e.target.value })}
+          className="w-8 h-8 rounded cursor-pointer bg-transparent border-0 p-0"
+        />
+        <span className="text-xs font-mono text-gray-300">{stop.color}</span>
+        <span className="text-xs text-gray-500 flex-1 text-right">{Math.round(stop.offset * 100)}%</span>
+        <button
+          onClick={removeStop}
+          disabled={stops.length <= 2}
+          className="px-2 py-1 text-xs rounded-lg border border-white/10 text-gray-400 hover:bg-white/5 disabled:opacity-40"
+        >
+          删除色标
+        </button>
+      </div>
+
+      <div className="grid grid-cols-4 gap-1">
+        {PALETTE_PRESETS.map(preset => (
+          <button
+            key={preset.name}
+            onClick={() => {
+              onChange(preset.stops);
+              setSelected(0);
+            }}
+            className="h-6 rounded-lg border border-white/10 hover:border-white/40 text-[10px] text-white font-bold transition-all [text-shadow:0_0_3px_#000]"
+            style={{ background: gradientCss(preset.stops) }}
+          >
+            {preset.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+import React, { useRef, useState, useEffect } from 'react';
+import { Point3D } from '../types';
+import {
+  ImageSampleOptions,
+  ImageSampleResult,
+  DEFAULT_IMAGE_SAMPLE_OPTIONS,
+  loadImageFile,
+  getImagePixels,
+  sampleImagePixels
+} from '../services/imageSampler';
+import { createRandom, deriveSeed } from '../services/random';
+
+interface Props {
+  seed: number; // Point sampling of the image is reproducible for a given seed
+  onComplete: (points: Point3D[], colors: Float32Array | null) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_SIZE = 360;
+
+export const ImageImport: React.FC<Props> = ({ seed, onComplete, onCancel }) => {
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pixels, setPixels] = useState<ImageData | null>(null);
+  const [fileName, setFileName] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [options, setOptions] = useState<ImageSampleOptions>(DEFAULT_IMAGE_SAMPLE_OPTIONS);
+  const [keepColors, setKeepColors] = useState(true);
+  const [result, setResult] = useState<ImageSampleResult | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      const img = await loadImageFile(file);
+      setPixels(getImagePixels(img));
+      setFileName(file.name);
+    } catch (e: any) {
+      setError(e?.message || '图片读取失败');
+    }
+  };
+
+  // Re-sample whenever the image or any option changes
+  useEffect(() => {
+    if (!pixels) return;
+    setResult(sampleImagePixels(pixels, options, createRandom(deriveSeed(seed, 'image'))));
+  }, [pixels, options, seed]);
+
+  // Draw a flat preview of the sampled points (x/y only, world -20..20 mapped to canvas)
+  useEffect(() => {
+    const canvas = previewRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    if (!result) return;
+
+    const scale = canvas.width / 40;
+    result.points.forEach((p, i) => {
+      if (keepColors) {
+        const r = Math.round(result.colors[i * 3] * 255);
+        const g = Math.round(result.colors[i * 3 + 1] * 255);
+        const b = Math.round(result.colors[i * 3 + 2] * 255);
+        ctx.fillStyle = `rgb(${r},${g},${b})`;
+      } else {
+        ctx.fillStyle = '#22d3ee';
+      }
+      ctx.fillRect((p.x + 20) * scale, (20 - p.y) * scale, 1.5, 1.5);
+    });
+  }, [result, keepColors]);
+
+  const setOption = (patch: Partial<ImageSampleOptions>) => {
+    setOptions(prev => ({ ...prev, ...patch }));
+  };
+
+  const handleConfirm = () => {
+    if (result && result.points.length > 5) {
+      onComplete(result.points, keepColors ? result.colors : null);
+    } else {
+      onCancel();
+    }
+  };
+
+  const toggleClass = (active: boolean) =>
+    `flex-1 px-3 py-1.5 text-xs rounded-lg border transition-all ${
+      active
+        ? 'bg-white/20 border-white/40 text-white shadow-lg'
+        : 'bg-transparent border-white/10 text-gray-400 hover:bg-white/5'
+    }`;
+
+  return (
+    <div
+      className="absolute inset-0 z-50 bg-black/90 flex items-center justify-center backdrop-blur-md font-sans"
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.preventDefault();
+        handleFile(e.dataTransfer.files[0]);
+      }}
+    >
+      {/* Top Controls: Actions */}
+      <div className="absolute top-6 right-6 flex gap-3 z-10">
+        <button
+          onClick={onCancel}
+          className="bg-white/10 hover:bg-white/20 text-white px-6 py-2 rounded-full border border-white/20 transition-all backdrop-blur-md text-sm"
+        >
+          取消
+        </button>
+        <button
+          onClick={handleConfirm}
+          disabled={!result || result.points.length === 0}
+          className="bg-cyan-500 hover:bg-cyan-400 disabled:opacity-40 text-white px-6 py-2 rounded-full shadow-[0_0_15px_rgba(34,211,238,0.4)] transition-all font-bold text-sm"
+        >
+          确定生成
+        </button>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-6 items-center">
+        {/* Preview */}
+        <div
+          className="relative rounded-2xl overflow-hidden border border-white/10 cursor-pointer"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <canvas ref={previewRef} width={PREVIEW_SIZE} height={PREVIEW_SIZE} className="block" />
+          {!pixels && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center text-white/40 text-sm tracking-widest pointer-events-none">
+              <span className="text-3xl mb-2">🖼️</span>
+              点击或拖入图片 / Logo
+            </div>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+        </div>
+
+        {/* Options */}
+        <div className="w-72 bg-black/60 backdrop-blur-xl border border-white/10 p-5 rounded-2xl shadow-2xl text-white space-y-4">
+          <div className="text-xs text-gray-400 truncate">{fileName || '未选择图片'}</div>
+          {error && <div className="text-xs text-red-400">{error}</div>}
+
+          <div>
+            <label className="text-xs font-semibold text-gray-400 mb-2 block">采样依据</label>
+            <div className="flex gap-2">
+              <button className={toggleClass(options.weightBy === 'luminance')} onClick={() => setOption({ weightBy: 'luminance' })}>亮度</button>
+              <button className={toggleClass(options.weightBy === 'alpha')} onClick={() => setOption({ weightBy: 'alpha' })}>透明度</button>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button className={toggleClass(options.invert)} onClick={() => setOption({ invert: !options.invert })}>反相</button>
+            <button className={toggleClass(keepColors)} onClick={() => setKeepColors(!keepColors)}>保留原色</button>
+          </div>
+
+          <div>
+            <div className="flex justify-between mb-1">
+              <label className="text-xs font-semibold text-gray-400">阈值</label>
+              <span className="text-xs text-gray-500">{Math.round(options.threshold * 100)}%</span>
+            </div>
+            <input
+              type="range" min="0" max="0.95" step="0.01"
+              value={options.threshold}
+              onChange={(e) => setOption({ threshold: parseFloat(e.target.value) })}
+              className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-cyan-400"
+            />
+          </div>
+
+          <div>
+            <div className="flex justify-between mb-1">
+              <label className="text-xs font-semibold text-gray-400">采样数量</label>
+              <span className="text-xs text-gray-500">{options.sampleCount}</span>
+            </div>
+            <input
+              type="range" min="1000" max="50000" step="1000"
+              value={options.sampleCount}
+              onChange={(e) => setOption({ sampleCount: parseInt(e.target.value) })}
+              className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-purple-400"
+            />
+          </div>
+
+          <div>
+            <div className="flex justify-between mb-1">
+              <label className="text-xs font-semibold text-gray-400">亮度挤出深度</label>
+              <span className="text-xs text-gray-500">{options.depth.toFixed(1)}</span>
+            </div>
+            <input
+              type="range" min="0" max="15" step="0.5"
+              value={options.depth}
+              onChange={(e) => setOption({ depth: parseFloat(e.target.value) })}
+              className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-pink-400"
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
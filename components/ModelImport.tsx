@@ -0,0 +1,194 @@
+import React, { useRef, useState, useEffect } from 'react';
+import { Point3D } from '../types';
+import {
+  LoadedModel,
+  ModelSampleMode,
+  ModelSampleResult,
+  SUPPORTED_MODEL_EXTENSIONS,
+  loadModelFile,
+  sampleModel
+} from '../services/modelSampler';
+import { createRandom, deriveSeed } from '../services/random';
+
+interface Props {
+  seed: number; // Point sampling of the model is reproducible for a given seed
+  particleCount: number; // Current active particle count; samples are capped to it
+  onComplete: (points: Point3D[], colors: Float32Array | null) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_SIZE = 360;
+const PREVIEW_YAW = Math.PI / 6; // Slight turn so depth is visible in the flat preview
+
+export const ModelImport: React.FC<Props> = ({ seed, particleCount, onComplete, onCancel }) => {
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [model, setModel] = useState<LoadedModel | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [loadingModel, setLoadingModel] = useState(false);
+  const [mode, setMode] = useState<ModelSampleMode>('surface');
+  const [useColors, setUseColors] = useState(true);
+  const [sampleCount, setSampleCount] = useState(particleCount);
+  const [result, setResult] = useState<ModelSampleResult | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    setLoadingModel(true);
+    try {
+      setModel(await loadModelFile(file));
+      setFileName(file.name);
+    } catch (e: any) {
+      setModel(null);
+      setError(e?.message || '模型读取失败');
+    } finally {
+      setLoadingModel(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!model) return;
+    setResult(sampleModel(model, { sampleCount, mode, useColors }, createRandom(deriveSeed(seed, 'model'))));
+  }, [model, sampleCount, mode, useColors, seed]);
+
+  useEffect(() => {
+    const canvas = previewRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    if (!result) return;
+
+    const scale = canvas.width / 32;
+    const cos = Math.cos(PREVIEW_YAW), sin = Math.sin(PREVIEW_YAW);
+    result.points.forEach((p, i) => {
+      if (result.colors) {
+        const r = Math.round(result.colors[i * 3] * 255);
+        const g = Math.round(result.colors[i * 3 + 1] * 255);
+        const b = Math.round(result.colors[i * 3 + 2] * 255);
+        ctx.fillStyle = `rgb(${r},${g},${b})`;
+      } else {
+        ctx.fillStyle = '#22d3ee';
+      }
+      const x = p.x * cos + p.z * sin;
+      ctx.fillRect(canvas.width / 2 + x * scale, canvas.height / 2 - p.y * scale, 1.2, 1.2);
+    });
+  }, [result]);
+
+  const handleConfirm = () => {
+    if (result && result.points.length > 5) {
+      onComplete(result.points, result.colors);
+    } else {
+      onCancel();
+    }
+  };
+
+  const toggleClass = (active: boolean) =>
+    `flex-1 px-3 py-1.5 text-xs rounded-lg border transition-all ${
+      active
+        ? 'bg-white/20 border-white/40 text-white shadow-lg'
+        : 'bg-transparent border-white/10 text-gray-400 hover:bg-white/5'
+    }`;
+
+  return (
+    <div
+      className="absolute inset-0 z-50 bg-black/90 flex items-center justify-center backdrop-blur-md font-sans"
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.preventDefault();
+        handleFile(e.dataTransfer.files[0]);
+      }}
+    >
+      {/* Top Controls: Actions */}
+      <div className="absolute top-6 right-6 flex gap-3 z-10">
+        <button
+          onClick={onCancel}
+          className="bg-white/10 hover:bg-white/20 text-white px-6 py-2 rounded-full border border-white/20 transition-all backdrop-blur-md text-sm"
+        >
+          取消
+        </button>
+        <button
+          onClick={handleConfirm}
+          disabled={!result || result.points.length === 0}
+          className="bg-cyan-500 hover:bg-cyan-400 disabled:opacity-40 text-white px-6 py-2 rounded-full shadow-[0_0_15px_rgba(34,211,238,0.4)] transition-all font-bold text-sm"
+        >
+          确定生成
+        </button>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-6 items-center">
+        {/* Preview */}
+        <div
+          className="relative rounded-2xl overflow-hidden border border-white/10 cursor-pointer"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <canvas ref={previewRef} width={PREVIEW_SIZE} height={PREVIEW_SIZE} className="block" />
+          {!model && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center text-white/40 text-sm tracking-widest pointer-events-none">
+              <span className="text-3xl mb-2">🧊</span>
+              {loadingModel ? '模型解析中...' : '点击或拖入 OBJ / GLB / PLY 模型'}
+            </div>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={SUPPORTED_MODEL_EXTENSIONS.join(',')}
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+        </div>
+
+        {/* Options */}
+        <div className="w-72 bg-black/60 backdrop-blur-xl border border-white/10 p-5 rounded-2xl shadow-2xl text-white space-y-4">
+          <div className="text-xs text-gray-400 truncate">{fileName || '未选择模型'}</div>
+          {model && (
+            <div className="text-[10px] text-gray-500">
+              {model.stats.isPointCloud
+                ? `点云 · ${model.stats.vertices.toLocaleString()} 个点`
+                : `网格 · ${model.stats.triangles.toLocaleString()} 个三角面`}
+              {model.stats.hasColors ? ' · 含颜色' : ''}
+            </div>
+          )}
+          {error && <div className="text-xs text-red-400">{error}</div>}
+
+          <div>
+            <label className="text-xs font-semibold text-gray-400 mb-2 block">采样方式</label>
+            <div className="flex gap-2">
+              <button className={toggleClass(mode === 'surface')} onClick={() => setMode('surface')}>表面</button>
+              <button
+                className={toggleClass(mode === 'volume')}
+                onClick={() => setMode('volume')}
+                disabled={model?.stats.isPointCloud}
+              >
+                体积
+              </button>
+            </div>
+          </div>
+
+          <button
+            className={toggleClass(useColors)}
+            onClick={() => setUseColors(!useColors)}
+            disabled={model !== null && !model.stats.hasColors}
+          >
+            使用模型颜色
+          </button>
+
+          <div>
+            <div className="flex justify-between mb-1">
+              <label className="text-xs font-semibold text-gray-400">采样数量</label>
+              <span className="text-xs text-gray-500">{sampleCount}</span>
+            </div>
+            <input
+              type="range" min="1000" max={Math.max(particleCount, 1000)} step="500"
+              value={sampleCount}
+              onChange={(e) => setSampleCount(parseInt(e.target.value))}
+              className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer accent-purple-400"
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+// Populate public/assets with everything the app would otherwise fetch from CDNs.
+// Run once on a machine with network access; the resulting folder is copied into
+// dist/ by `vite build` and can be shipped to air-gapped exhibition machines.
+import { copyFile, mkdir, readdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const outDir = path.join(root, 'public', 'assets');
+
+const downloads = [
+  {
+    url: 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
+    dest: 'mediapipe/hand_landmarker.task'
+  }
+];
+
+// 1. WASM runtime ships inside the npm package, no download needed
+const wasmSrc = path.join(root, 'node_modules', '@mediapipe', 'tasks-vision', 'wasm');
+const wasmDest = path.join(outDir, 'mediapipe', 'wasm');
+await mkdir(wasmDest, { recursive: true });
+for (const file of await readdir(wasmSrc)) {
+  await copyFile(path.join(wasmSrc, file), path.join(wasmDest, file));
+  console.log(`copied  mediapipe/wasm/${file}`);
+}
+
+// 2. Model
+let failed = false;
+for (const { url, dest } of downloads) {
+  const target = path.join(outDir, dest);
+  await mkdir(path.dirname(target), { recursive: true });
+  try {
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    await writeFile(target, Buffer.from(await res.arrayBuffer()));
+    console.log(`fetched ${dest}`);
+  } catch (e) {
+    failed = true;
+    console.error(`failed  ${dest} (${url}): ${e.message}`);
+  }
+}
+
+if (failed) process.exit(1);
@@ -0,0 +1,105 @@
+import { HandData } from '../types';
+import { fingerExtension, pinchDistance } from './gestureRecognizer';
+
+// Drawing in the air with the index fingertip (landmark 8), for setups with a camera
+// and a display but no mouse or touchscreen. A pinch (or pointing with only the index
+// finger) holds the pen down; holding a fist confirms the drawing.
+
+export type PenTrigger = 'pinch' | 'point';
+
+export interface AirPenState {
+  cursor: { x: number; y: number } | null; // Normalized screen coords, mirrored like the preview
+  penDown: boolean;
+  confirmProgress: number; // 0 - 1 while a fist is held
+  confirmed: boolean; // True on the frame the fist has been held long enough
+}
+
+const INDEX_TIP = 8;
+const PINCH_DOWN = 0.3; // Hand sizes; the pen lifts again only past PINCH_UP
+const PINCH_UP = 0.45;
+const POSE_FRAMES = 3; // Frames a pointing pose change must persist
+const CONFIRM_MS = 1000;
+const LOST_GRACE_MS = 200; // Tracking dropouts shorter than this don't break the stroke
+const CURSOR_SMOOTHING = 0.5;
+
+export class AirPen {
+  trigger: PenTrigger = 'pinch';
+
+  private cursor: { x: number; y: number } | null = null;
+  private penDown = false;
+  private poseFrames = 0;
+  private fistSince: number | null = null;
+  private fistConfirmed = false;
+  private lastSeen = -Infinity;
+
+  update(hand: HandData | null, nowMs: number): AirPenState {
+    if (!hand || hand.landmarks.length < 21) {
+      this.fistSince = null;
+      if (nowMs - this.lastSeen > LOST_GRACE_MS) {
+        this.cursor = null;
+        this.penDown = false;
+      }
+      return { cursor: this.cursor, penDown: this.penDown, confirmProgress: 0, confirmed: false };
+    }
+    this.lastSeen = nowMs;
+
+    const tip = hand.landmarks[INDEX_TIP];
+    const target = { x: 1 - tip.x, y: tip.y };
+    this.cursor = this.cursor
+      ? {
+          x: this.cursor.x + (target.x - this.cursor.x) * CURSOR_SMOOTHING,
+          y: this.cursor.y + (target.y - this.cursor.y) * CURSOR_SMOOTHING
+        }
+      : target;
+
+    const fingers = fingerExtension(hand.landmarks);
+    // A pinch with the other fingers folded also curls the index; touching tips say it's still a pinch
+    const pinching = this.trigger === 'pinch' && pinchDistance(hand.landmarks) < (this.penDown ? PINCH_UP : PINCH_DOWN);
+    const isFist = !pinching && fingers.every(f => !f.extended);
+
+    // A fist lifts the pen and, held, confirms once
+    let confirmProgress = 0;
+    let confirmed = false;
+    if (isFist) {
+      this.penDown = false;
+      this.poseFrames = 0;
+      if (this.fistSince === null) this.fistSince = nowMs;
+      confirmProgress = Math.min((nowMs - this.fistSince) / CONFIRM_MS, 1);
+      if (confirmProgress >= 1 && !this.fistConfirmed) {
+        this.fistConfirmed = true;
+        confirmed = true;
+      }
+    } else {
+      this.fistSince = null;
+      this.fistConfirmed = false;
+      this.updatePen(hand, fingers.map(f => f.extended));
+    }
+
+    return { cursor: this.cursor, penDown: this.penDown, confirmProgress, confirmed };
+  }
+
+  reset() {
+    this.cursor = null;
+    this.penDown = false;
+    this.poseFrames = 0;
+    this.fistSince = null;
+    this.fistConfirmed = false;
+    this.lastSeen = -Infinity;
+  }
+
+  private updatePen(hand: HandData, extended: boolean[]) {
+    if (this.trigger === 'pinch') {
+      const distance = pinchDistance(hand.landmarks);
+      this.penDown = this.penDown ? distance < PINCH_UP : distance < PINCH_DOWN;
+      return;
+    }
+    const [index, middle, ring, pinky] = extended;
+    const pointing = index && !middle && !ring && !pinky;
+    if (pointing === this.penDown) {
+      this.poseFrames = 0;
+    } else if (++this.poseFrames >= POSE_FRAMES) {
+      this.penDown = pointing;
+      this.poseFrames = 0;
+    }
+  }
+}
@@ -0,0 +1,86 @@
+// Self-hosted asset resolution.
+// Every remote asset has a local path (relative to VITE_ASSET_BASE, served from
+// public/assets by default) and a CDN fallback. Local copies win when present,
+// so air-gapped machines work once `npm run assets:offline` has been run.
+
+export type AssetName = 'visionWasm' | 'handModel';
+
+interface AssetSource {
+  label: string; // Shown to the user when loading fails
+  local: string; // Relative to the local base path
+  cdn: string;
+  probe?: string; // File used to check availability when `local` is a directory
+}
+
+export const ASSET_SOURCES: Record<AssetName, AssetSource> = {
+  visionWasm: {
+    label: 'MediaPipe WASM 运行时',
+    local: 'mediapipe/wasm',
+    cdn: 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.3/wasm',
+    probe: 'vision_wasm_internal.js'
+  },
+  handModel: {
+    label: '手部识别模型',
+    local: 'mediapipe/hand_landmarker.task',
+    cdn: 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task'
+  }
+};
+
+export class AssetLoadError extends Error {
+  asset: AssetName;
+  urls: string[];
+
+  constructor(asset: AssetName, urls: string[]) {
+    super(`${ASSET_SOURCES[asset].label} 加载失败 (${urls.join(', ')})`);
+    this.name = 'AssetLoadError';
+    this.asset = asset;
+    this.urls = urls;
+  }
+}
+
+const normalizeBase = (base: string) => (base.endsWith('/') ? base : base + '/');
+
+export const ASSET_BASE = normalizeBase(
+  import.meta.env.VITE_ASSET_BASE || `${import.meta.env.BASE_URL}assets/`
+);
+export const CDN_FALLBACK_ENABLED = import.meta.env.VITE_ASSET_CDN_FALLBACK !== 'false';
+
+// Candidate URLs in priority order: local first, then CDN (if enabled)
+export const assetCandidates = (name: AssetName): string[] => {
+  const source = ASSET_SOURCES[name];
+  const urls = [ASSET_BASE + source.local];
+  if (CDN_FALLBACK_ENABLED) urls.push(source.cdn);
+  return urls;
+};
+
+const resolved = new Map<AssetName, string>();
+
+// Check that a URL really serves a file. The Vite dev server answers unknown
+// paths with index.html (200), so HTML responses count as missing.
+const isAvailable = async (url: string): Promise<boolean> => {
+  try {
+    const res = await fetch(url, { method: 'HEAD' });
+    if (!res.ok) return false;
+    const type = res.headers.get('content-type') || '';
+    return !type.includes('text/html');
+  } catch {
+    return false;
+  }
+};
+
+// Resolve the first reachable location of an asset. Throws AssetLoadError when none is.
+export const resolveAsset = async (name: AssetName): Promise<string> => {
+  const cached = resolved.get(name);
+  if (cached) return cached;
+
+  const source = ASSET_SOURCES[name];
+  const candidates = assetCandidates(name);
+  for (const url of candidates) {
+    const probeUrl = source.probe ? `${url}/${source.probe}` : url;
+    if (await isAvailable(probeUrl)) {
+      resolved.set(name, url);
+      return url;
+    }
+  }
+  throw new AssetLoadError(name, candidates);
+};
@@ -0,0 +1,166 @@
+import { AudioReactiveSettings, InputSource } from '../types';
+
+// Music analysis for the audio-reactive mode. Pure: works on byte spectra from an
+// AnalyserNode (see audioInput.ts) so it can be tested without Web Audio.
+
+export const DEFAULT_AUDIO_REACTIVE_SETTINGS: AudioReactiveSettings = {
+  source: InputSource.HAND,
+  sensitivity: 1
+};
+
+// Hz
+export const BAND_LIMITS = {
+  bass: [20, 250],
+  mids: [250, 2000],
+  highs: [2000, 12000]
+} as const;
+
+export interface AudioBands {
+  bass: number; // 0 - 1
+  mids: number;
+  highs: number;
+}
+
+// What the music does to the particles this frame
+export interface AudioModulation {
+  bands: AudioBands; // Normalized and smoothed
+  beat: boolean; // A bass beat started this frame
+  onset: number; // 0 - 1 spectral flux peak strength
+  drive: number; // 0 - 1, acts like hand openness: explosion force
+  noise: number; // Added to the simulation's noise amount
+  hueShift: number; // Color hue rotation in turns, 0 - 1
+  spin: number; // Extra rotation in radians per frame
+}
+
+// Mean magnitude (0 - 1) per band. Bin i of a byte spectrum covers
+// i * sampleRate / (2 * spectrum.length) Hz.
+export const extractBands = (spectrum: Uint8Array, sampleRate: number): AudioBands => {
+  const binHz = sampleRate / (2 * spectrum.length);
+  const band = ([low, high]: readonly number[]) => {
+    // Rounded so neighbouring bands share their edge bin boundary
+    const start = Math.max(Math.round(low / binHz), 0);
+    const end = Math.min(Math.round(high / binHz), spectrum.length);
+    if (end <= start) return 0;
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += spectrum[i];
+    return sum / ((end - start) * 255);
+  };
+  return { bass: band(BAND_LIMITS.bass), mids: band(BAND_LIMITS.mids), highs: band(BAND_LIMITS.highs) };
+};
+
+// Sum of magnitude increases since the previous spectrum, 0 - 1
+export const spectralFlux = (previous: Uint8Array, current: Uint8Array): number => {
+  let sum = 0;
+  for (let i = 0; i < current.length; i++) {
+    const d = current[i] - previous[i];
+    if (d > 0) sum += d;
+  }
+  return current.length > 0 ? sum / (current.length * 255) : 0;
+};
+
+// Energy beat detection: a beat is an energy clearly above its recent average,
+// at most once per minIntervalMs
+export class BeatDetector {
+  private history: number[] = [];
+  private lastBeat = -Infinity;
+
+  constructor(
+    private windowSize = 43, // About 0.7 s at 60 fps
+    private threshold = 1.35,
+    private minIntervalMs = 250,
+    private floor = 0.05 // Ignore near-silence
+  ) {}
+
+  detect(energy: number, nowMs: number): boolean {
+    const history = this.history;
+    const mean = history.length > 0 ? history.reduce((a, b) => a + b, 0) / history.length : energy;
+    history.push(energy);
+    if (history.length > this.windowSize) history.shift();
+
+    if (energy < this.floor || energy < mean * this.threshold) return false;
+    if (nowMs - this.lastBeat < this.minIntervalMs) return false;
+    this.lastBeat = nowMs;
+    return true;
+  }
+
+  reset() {
+    this.history = [];
+    this.lastBeat = -Infinity;
+  }
+}
+
+// Turns spectra into an AudioModulation: per-band auto gain (so a quiet microphone
+// reacts as much as a loud file), attack / release smoothing, beats and onsets.
+// Bass and beats drive the explosion, mids the noise, highs the hue, onsets the spin.
+export class AudioReactor {
+  sensitivity = 1;
+
+  private peaks: AudioBands = { bass: 0, mids: 0, highs: 0 };
+  private bands: AudioBands = { bass: 0, mids: 0, highs: 0 };
+  private beats = new BeatDetector();
+  private previous: Uint8Array | null = null;
+  private fluxAverage = 0;
+  private kick = 0;
+  private hue = 0;
+  private lastTime = 0;
+
+  update(spectrum: Uint8Array, sampleRate: number, nowMs: number): AudioModulation {
+    const dt = this.lastTime > 0 ? Math.min(nowMs - this.lastTime, 100) : 16;
+    this.lastTime = nowMs;
+
+    const raw = extractBands(spectrum, sampleRate);
+    const beat = this.beats.detect(raw.bass, nowMs);
+
+    for (const key of ['bass', 'mids', 'highs'] as const) {
+      // Peaks decay over a few seconds so the gain follows the music's loudness
+      this.peaks[key] = Math.max(raw[key], this.peaks[key] * Math.exp(-dt / 4000), 0.02);
+      const target = Math.min((raw[key] / this.peaks[key]) * this.sensitivity, 1);
+      const k = target > this.bands[key] ? 0.6 : 0.15; // Fast attack, slow release
+      this.bands[key] += (target - this.bands[key]) * k;
+    }
+
+    const flux = this.previous && this.previous.length === spectrum.length ? spectralFlux(this.previous, spectrum) : 0;
+    this.previous = Uint8Array.from(spectrum);
+    const onset = Math.min(Math.max((flux - this.fluxAverage) / (this.fluxAverage + 1e-3), 0), 1);
+    this.fluxAverage += (flux - this.fluxAverage) * 0.05;
+
+    this.kick = beat ? 1 : this.kick * Math.exp(-dt / 150);
+    this.hue = (this.hue + (dt / 1000) * this.bands.highs * 0.5) % 1;
+
+    const { bass, mids } = this.bands;
+    return {
+      bands: { ...this.bands },
+      beat,
+      onset,
+      drive: Math.min(bass * 0.6 + this.kick * 0.5, 1),
+      noise: mids * 1.5,
+      hueShift: this.hue,
+      spin: onset * 0.02
+    };
+  }
+
+  reset() {
+    this.peaks = { bass: 0, mids: 0, highs: 0 };
+    this.bands = { bass: 0, mids: 0, highs: 0 };
+    this.beats.reset();
+    this.previous = null;
+    this.fluxAverage = 0;
+    this.kick = 0;
+    this.hue = 0;
+    this.lastTime = 0;
+  }
+}
+
+// Openness handed to the engine for the chosen input source. Mixing is a screen
+// blend: either input alone can open the formation fully.
+export const mixOpenness = (source: InputSource, hand: number, audio: AudioModulation | null): number => {
+  const drive = audio ? audio.drive : 0;
+  switch (source) {
+    case InputSource.AUDIO:
+      return drive;
+    case InputSource.MIX:
+      return 1 - (1 - hand) * (1 - drive);
+    default:
+      return hand;
+  }
+};
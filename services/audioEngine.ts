@@ -1,3 +1,5 @@
+import { AudioInput } from './audioInput';
+
 
 export class AudioEngine {
   ctx: AudioContext;
@@ -5,18 +7,36 @@ export class AudioEngine {
   bgmNodes: AudioScheduledSourceNode[] = [];
   isMuted: boolean = false;
   isInitialized: boolean = false;
+  volume: number = 0.6;
 
   // Effects
   convolver: ConvolverNode;
   compressor: DynamicsCompressorNode;
 
+  // BGM nodes modulated by hand openness
+  droneFilter: BiquadFilterNode | null = null;
+  padGain: GainNode | null = null;
+
+  // Music for the audio-reactive mode
+  input: AudioInput;
+
+  // Recording tap (see createRecordingStream)
+  recordingDestination: MediaStreamAudioDestinationNode | null = null;
+
+  // Gesture cue state (hysteresis + debounce)
+  handState: 'open' | 'closed' = 'closed';
+  lastCueTime: number = 0;
+  openThreshold: number = 0.6;
+  closeThreshold: number = 0.4;
+  cueDebounceMs: number = 400;
+
   constructor() {
     // Cross-browser support
     const AudioContextClass = (window.AudioContext || (window as any).webkitAudioContext);
     this.ctx = new AudioContextClass();
     
     this.masterGain = this.ctx.createGain();
-    this.masterGain.gain.value = 0.6; 
+    this.masterGain.gain.value = this.volume;
     
     this.compressor = this.ctx.createDynamicsCompressor();
     this.compressor.threshold.value = -24;
@@ -32,6 +52,8 @@ export class AudioEngine {
     this.convolver.connect(this.compressor);
     this.compressor.connect(this.masterGain);
     this.masterGain.connect(this.ctx.destination);
+
+    this.input = new AudioInput(this.ctx, this.masterGain);
   }
 
   // Generate an impulse response for a wide spacey reverb
@@ -123,6 +145,7 @@ export class AudioEngine {
 
     osc1.start(now);
     lfo.start(now);
+    this.droneFilter = filter1;
 
     // Layer 2: High Ethereal Pad (Sine)
     const osc2 = this.ctx.createOscillator();
@@ -140,6 +163,7 @@ export class AudioEngine {
     gain2.connect(panner);
     panner.connect(this.convolver);
     osc2.start(now);
+    this.padGain = gain2;
 
     this.bgmNodes.push(osc1, lfo, osc2);
   }
@@ -245,13 +269,119 @@ export class AudioEngine {
     subOsc.stop(t + 0.6);
   }
 
+  // Shape morph: a soft bandpass whoosh that lasts as long as the transition
+  playMorph(durationMs: number) {
+    if (this.isMuted || !this.isInitialized) return;
+    const t = this.ctx.currentTime;
+    const duration = Math.min(Math.max(durationMs / 1000, 0.3), 4);
+
+    const bufferSize = Math.floor(this.ctx.sampleRate * duration);
+    const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < bufferSize; i++) {
+        data[i] = Math.random() * 2 - 1;
+    }
+    const noise = this.ctx.createBufferSource();
+    noise.buffer = buffer;
+
+    const filter = this.ctx.createBiquadFilter();
+    filter.type = 'bandpass';
+    filter.Q.value = 8;
+    filter.frequency.setValueAtTime(300, t);
+    filter.frequency.exponentialRampToValueAtTime(2400, t + duration * 0.6); // Rise, then settle
+    filter.frequency.exponentialRampToValueAtTime(900, t + duration);
+
+    const gain = this.ctx.createGain();
+    gain.gain.setValueAtTime(0, t);
+    gain.gain.linearRampToValueAtTime(0.12, t + duration * 0.3);
+    gain.gain.linearRampToValueAtTime(0, t + duration);
+
+    noise.connect(filter);
+    filter.connect(gain);
+    gain.connect(this.convolver);
+    noise.start(t);
+  }
+
+  // Called every frame with the current hand openness (0 - 1).
+  // Continuously opens the drone filter / swells the pad, and fires
+  // expand/contract cues when crossing the open/closed thresholds.
+  syncToOpenness(openness: number) {
+    if (!this.isInitialized) return;
+    const t = this.ctx.currentTime;
+
+    if (this.droneFilter) {
+        // Base 120Hz, LFO still adds its slow breathe on top
+        this.droneFilter.frequency.setTargetAtTime(120 + openness * 680, t, 0.1);
+    }
+    if (this.padGain) {
+        this.padGain.gain.setTargetAtTime(0.05 + openness * 0.1, t, 0.15);
+    }
+
+    // Hysteresis: only switch state once openness clearly passes the band around 0.5
+    let nextState = this.handState;
+    if (this.handState === 'closed' && openness > this.openThreshold) {
+        nextState = 'open';
+    } else if (this.handState === 'open' && openness < this.closeThreshold) {
+        nextState = 'closed';
+    }
+    if (nextState === this.handState) return;
+    this.handState = nextState;
+
+    // Debounce: swallow cues fired in rapid succession (flicker at the edges)
+    const nowMs = performance.now();
+    if (nowMs - this.lastCueTime < this.cueDebounceMs) return;
+    this.lastCueTime = nowMs;
+
+    if (nextState === 'open') {
+        this.playExpand();
+    } else {
+        this.playContract();
+    }
+  }
+
+  // Tap of the master output for MediaRecorder; stays connected until released
+  createRecordingStream(): MediaStream {
+    if (!this.recordingDestination) {
+        this.recordingDestination = this.ctx.createMediaStreamDestination();
+        this.masterGain.connect(this.recordingDestination);
+    }
+    return this.recordingDestination.stream;
+  }
+
+  releaseRecordingStream() {
+    if (!this.recordingDestination) return;
+    try { this.masterGain.disconnect(this.recordingDestination); } catch(e) {}
+    this.recordingDestination = null;
+  }
+
+  setVolume(volume: number) {
+    this.volume = Math.min(Math.max(volume, 0), 1);
+    if (!this.isMuted) {
+        this.masterGain.gain.setTargetAtTime(this.volume, this.ctx.currentTime, 0.05);
+    }
+  }
+
   toggleMute(muted: boolean) {
     this.isMuted = muted;
     const t = this.ctx.currentTime;
-    this.masterGain.gain.setTargetAtTime(muted ? 0 : 0.6, t, 0.2);
+    this.masterGain.gain.setTargetAtTime(muted ? 0 : this.volume, t, 0.2);
     
     if (!muted && this.ctx.state === 'suspended') {
         this.ctx.resume();
     }
   }
+
+  dispose() {
+    this.bgmNodes.forEach(n => {
+        try { n.stop(); } catch(e) {}
+        try { n.disconnect(); } catch(e) {}
+    });
+    this.bgmNodes = [];
+    this.droneFilter = null;
+    this.padGain = null;
+    this.input.stop();
+    this.releaseRecordingStream();
+    this.isInitialized = false;
+    this.ctx.close().catch(() => {});
+  }
 }
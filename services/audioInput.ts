@@ -0,0 +1,112 @@
+// Music source for the audio-reactive mode: the microphone or a local audio file,
+// tapped by an AnalyserNode. A file is also played through `output` (the app's master
+// gain) so volume, mute and recording apply to it; the microphone is never played back.
+
+export type AudioInputKind = 'mic' | 'file';
+
+export class AudioInput {
+  ctx: AudioContext;
+  output: AudioNode;
+  analyser: AnalyserNode;
+  spectrum: Uint8Array<ArrayBuffer>;
+  kind: AudioInputKind | null = null;
+  name: string = '';
+
+  private source: AudioNode | null = null;
+  private stream: MediaStream | null = null;
+  private element: HTMLAudioElement | null = null;
+  private objectUrl: string | null = null;
+
+  constructor(ctx: AudioContext, output: AudioNode) {
+    this.ctx = ctx;
+    this.output = output;
+    this.analyser = ctx.createAnalyser();
+    this.analyser.fftSize = 2048;
+    this.analyser.smoothingTimeConstant = 0.6;
+    this.spectrum = new Uint8Array(this.analyser.frequencyBinCount);
+  }
+
+  get active(): boolean {
+    return this.kind !== null;
+  }
+
+  get sampleRate(): number {
+    return this.ctx.sampleRate;
+  }
+
+  async useMicrophone() {
+    let stream: MediaStream;
+    try {
+      // Raw signal: voice processing would flatten the music
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false }
+      });
+    } catch {
+      throw new Error('无法访问麦克风，请检查浏览器权限');
+    }
+    this.stop();
+    await this.resume();
+    this.stream = stream;
+    this.source = this.ctx.createMediaStreamSource(stream);
+    this.source.connect(this.analyser);
+    this.kind = 'mic';
+    this.name = stream.getAudioTracks()[0]?.label || '麦克风';
+  }
+
+  async useFile(file: File) {
+    if (file.type && !file.type.startsWith('audio/')) {
+      throw new Error(`不是音频文件：${file.name}`);
+    }
+    this.stop();
+    await this.resume();
+
+    const url = URL.createObjectURL(file);
+    const element = new Audio(url);
+    element.loop = true;
+    this.objectUrl = url;
+    this.element = element;
+    this.source = this.ctx.createMediaElementSource(element);
+    this.source.connect(this.analyser);
+    this.source.connect(this.output);
+    this.kind = 'file';
+    this.name = file.name;
+
+    try {
+      await element.play();
+    } catch {
+      this.stop();
+      throw new Error(`无法播放音频文件：${file.name}`);
+    }
+  }
+
+  // Latest byte spectrum, reused between calls
+  readSpectrum(): Uint8Array {
+    this.analyser.getByteFrequencyData(this.spectrum);
+    return this.spectrum;
+  }
+
+  stop() {
+    if (this.source) {
+      try { this.source.disconnect(); } catch(e) {}
+      this.source = null;
+    }
+    this.stream?.getTracks().forEach(t => t.stop());
+    this.stream = null;
+    if (this.element) {
+      this.element.pause();
+      this.element.removeAttribute('src');
+      this.element = null;
+    }
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = null;
+    }
+    this.kind = null;
+    this.name = '';
+  }
+
+  // The context stays suspended until a user gesture; picking a source is one
+  private async resume() {
+    if (this.ctx.state === 'suspended') await this.ctx.resume();
+  }
+}
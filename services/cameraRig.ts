@@ -0,0 +1,172 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { CameraPath, CameraSettings, HandData, Point3D, TransitionEasing } from '../types';
+import { EASINGS } from './morphTransition';
+
+// Camera around the formation: OrbitControls for mouse / touch (drag to orbit,
+// right drag or two fingers to pan, wheel or pinch to zoom), scripted flight paths,
+// optional hand steering and an animated return to the home view.
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  path: CameraPath.NONE,
+  pathSpeed: 1,
+  followHand: false
+};
+
+export const HOME_POSITION: Point3D = { x: 0, y: 0, z: 35 };
+export const MIN_DISTANCE = 8;
+export const MAX_DISTANCE = 150;
+const RESET_MS = 1200;
+
+export interface CameraPose {
+  position: Point3D;
+  target: Point3D;
+}
+
+// Pose on a flight path at `t` seconds (at pathSpeed 1). Every path is periodic
+// and keeps the formation at the origin in view.
+export const pathPose = (path: CameraPath, t: number): CameraPose => {
+  const target = { x: 0, y: 0, z: 0 };
+  switch (path) {
+    case CameraPath.ORBIT: {
+      const a = t * 0.25;
+      return { position: { x: 40 * Math.sin(a), y: 8 * Math.sin(t * 0.3), z: 40 * Math.cos(a) }, target };
+    }
+    case CameraPath.SWOOP: {
+      // Close (18) in front, far (62) behind, dipping below on the way in
+      const a = t * 0.2;
+      const radius = 40 - 22 * Math.cos(a);
+      return { position: { x: radius * Math.sin(a), y: 20 * Math.sin(a * 2), z: radius * Math.cos(a) }, target };
+    }
+    case CameraPath.SPIRAL: {
+      const a = t * 0.35;
+      const radius = 20 + 30 * (0.5 + 0.5 * Math.cos(t * 0.1));
+      return { position: { x: radius * Math.sin(a), y: 15 * Math.sin(t * 0.1), z: radius * Math.cos(a) }, target };
+    }
+    default:
+      return { position: { ...HOME_POSITION }, target };
+  }
+};
+
+// Camera steering from a tracked hand: `tilt` is the roll of the wrist to middle
+// knuckle line in radians (positive = leaning right on the mirrored preview), `depth`
+// 0 (far from the webcam) to 1 (close) from the hand's apparent size
+export const handCameraInput = (hand: HandData): { tilt: number; depth: number } | null => {
+  const wrist = hand.landmarks[0];
+  const knuckle = hand.landmarks[9];
+  if (!wrist || !knuckle) return null;
+  const dx = -(knuckle.x - wrist.x); // Video is mirrored on screen
+  const dy = wrist.y - knuckle.y; // Up on screen is -y
+  const size = Math.hypot(dx, dy);
+  if (size < 1e-4) return null;
+  return {
+    tilt: Math.atan2(dx, dy),
+    depth: Math.min(Math.max((size - 0.08) / 0.2, 0), 1)
+  };
+};
+
+export class CameraRig {
+  camera: THREE.PerspectiveCamera;
+  controls: any;
+  settings: CameraSettings = DEFAULT_CAMERA_SETTINGS;
+  onPathStop?: () => void; // The user took over while a path was flying
+
+  private pathTime = 0;
+  private reset: { from: CameraPose; startTime: number } | null = null;
+  private spherical = new THREE.Spherical();
+  private offset = new THREE.Vector3();
+
+  constructor(camera: THREE.PerspectiveCamera, domElement: HTMLElement) {
+    this.camera = camera;
+    camera.position.set(HOME_POSITION.x, HOME_POSITION.y, HOME_POSITION.z);
+
+    const controls = new OrbitControls(camera, domElement);
+    controls.enableDamping = true;
+    controls.dampingFactor = 0.08;
+    controls.screenSpacePanning = true;
+    controls.minDistance = MIN_DISTANCE;
+    controls.maxDistance = MAX_DISTANCE;
+    controls.zoomSpeed = 0.8;
+    controls.addEventListener('start', this.handleInteractionStart);
+    this.controls = controls;
+  }
+
+  setSettings(settings: CameraSettings) {
+    if (settings.path !== this.settings.path) this.pathTime = 0;
+    if (settings.path !== CameraPath.NONE) this.reset = null;
+    this.settings = settings;
+  }
+
+  // Ease back to the home view; the caller also clears the path
+  resetView() {
+    const target = this.controls.target;
+    this.reset = {
+      from: {
+        position: { x: this.camera.position.x, y: this.camera.position.y, z: this.camera.position.z },
+        target: { x: target.x, y: target.y, z: target.z }
+      },
+      startTime: performance.now()
+    };
+  }
+
+  update(dt: number, hand: HandData | null) {
+    const target = this.controls.target;
+
+    if (this.reset) {
+      const t = Math.min((performance.now() - this.reset.startTime) / RESET_MS, 1);
+      const k = EASINGS[TransitionEasing.EASE_IN_OUT_CUBIC](t);
+      const { from } = this.reset;
+      this.camera.position.set(
+        from.position.x + (HOME_POSITION.x - from.position.x) * k,
+        from.position.y + (HOME_POSITION.y - from.position.y) * k,
+        from.position.z + (HOME_POSITION.z - from.position.z) * k
+      );
+      target.set(from.target.x * (1 - k), from.target.y * (1 - k), from.target.z * (1 - k));
+      if (t >= 1) this.reset = null;
+    } else if (this.settings.path !== CameraPath.NONE) {
+      this.pathTime += (dt / 1000) * this.settings.pathSpeed;
+      const pose = pathPose(this.settings.path, this.pathTime);
+      // Chase the path instead of jumping onto it, so starting a path is smooth
+      const k = 1 - Math.exp(-dt / 400);
+      this.camera.position.lerp(this.offset.set(pose.position.x, pose.position.y, pose.position.z), k);
+      target.lerp(this.offset.set(pose.target.x, pose.target.y, pose.target.z), k);
+    } else if (this.settings.followHand && hand) {
+      const input = handCameraInput(hand);
+      if (input) {
+        this.offset.copy(this.camera.position).sub(target);
+        this.spherical.setFromVector3(this.offset);
+        // Small tilts are ignored so a resting hand doesn't drift the view
+        const tilt = Math.sign(input.tilt) * Math.max(Math.abs(input.tilt) - 0.15, 0);
+        this.spherical.theta -= tilt * 1.5 * (dt / 1000);
+        const radius = 60 - input.depth * 45;
+        this.spherical.radius += (radius - this.spherical.radius) * (1 - Math.exp(-dt / 300));
+        this.offset.setFromSpherical(this.spherical);
+        this.camera.position.copy(target).add(this.offset);
+      }
+    }
+
+    this.controls.update();
+  }
+
+  // Distance the camera has moved away from the home view, for background parallax
+  get displacement(): THREE.Vector3 {
+    return this.offset.set(
+      this.camera.position.x - HOME_POSITION.x,
+      this.camera.position.y - HOME_POSITION.y,
+      this.camera.position.z - HOME_POSITION.z
+    );
+  }
+
+  dispose() {
+    this.controls.removeEventListener('start', this.handleInteractionStart);
+    this.controls.dispose();
+  }
+
+  private handleInteractionStart = () => {
+    this.reset = null;
+    if (this.settings.path !== CameraPath.NONE) {
+      this.settings = { ...this.settings, path: CameraPath.NONE };
+      this.onPathStop?.();
+    }
+  };
+}
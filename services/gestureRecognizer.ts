@@ -0,0 +1,273 @@
+import { HandData, GestureType, GestureEvent, Point3D } from "../types";
+
+// MediaPipe hand landmark indices
+const WRIST = 0;
+const THUMB_MCP = 2;
+const THUMB_TIP = 4;
+const INDEX_MCP = 5;
+const MIDDLE_MCP = 9;
+// [pip, tip] for the four long fingers: index, middle, ring, pinky
+const FINGERS: [number, number][] = [[6, 8], [10, 12], [14, 16], [18, 20]];
+
+export interface GestureRecognizerOptions {
+  holdFrames: number; // Detections a static pose must persist before it fires
+  swipeDistance: number; // Normalized screen distance for a swipe
+  swipeWindowMs: number; // A swipe must complete within this time
+  circleWindowMs: number; // History length considered for circles
+  cooldownMs: number; // Minimum gap between two events of the same type
+}
+
+const DEFAULT_OPTIONS: GestureRecognizerOptions = {
+  holdFrames: 5,
+  swipeDistance: 0.25,
+  swipeWindowMs: 400,
+  circleWindowMs: 1500,
+  cooldownMs: 700
+};
+
+export interface PoseResult {
+  type: GestureType | null;
+  confidence: number;
+}
+
+const dist2D = (a: Point3D, b: Point3D) => Math.hypot(a.x - b.x, a.y - b.y);
+const clamp01 = (v: number) => Math.min(Math.max(v, 0), 1);
+
+// A finger counts as extended when its tip is clearly farther from the wrist than its
+// PIP joint. Index, middle, ring, pinky; the ratio is the tip / PIP distance ratio.
+export const fingerExtension = (landmarks: Point3D[]): { extended: boolean; ratio: number }[] => {
+  const wrist = landmarks[WRIST];
+  return FINGERS.map(([pip, tip]) => {
+    const ratio = dist2D(wrist, landmarks[tip]) / (dist2D(wrist, landmarks[pip]) || 1e-6);
+    return { extended: ratio > 1.1, ratio };
+  });
+};
+
+// Thumb to index tip distance in hand sizes (wrist to middle knuckle)
+export const pinchDistance = (landmarks: Point3D[]): number =>
+  dist2D(landmarks[THUMB_TIP], landmarks[FINGERS[0][1]]) / (dist2D(landmarks[WRIST], landmarks[MIDDLE_MCP]) || 1e-6);
+
+// Classify a single frame of 21 landmarks into a static pose
+export const classifyPose = (landmarks: Point3D[]): PoseResult => {
+  if (landmarks.length < 21) return { type: null, confidence: 0 };
+
+  const wrist = landmarks[WRIST];
+  const handSize = dist2D(wrist, landmarks[MIDDLE_MCP]) || 1e-6;
+
+  // Pinch wins over everything else: thumb and index tips touching
+  const pinchDist = pinchDistance(landmarks);
+  if (pinchDist < 0.25) {
+    return { type: GestureType.PINCH, confidence: clamp01(1 - pinchDist / 0.25 + 0.3) };
+  }
+
+  // The margin from the 1.1 decision boundary doubles as per-finger confidence
+  const fingers = fingerExtension(landmarks);
+  const extended = fingers.map(f => f.extended);
+  const margin = fingers.reduce((sum, f) => sum + clamp01(Math.abs(f.ratio - 1.1) / 0.3), 0);
+  const confidence = margin / FINGERS.length;
+
+  const [index, middle, ring, pinky] = extended;
+  const count = extended.filter(Boolean).length;
+
+  if (count === 4) return { type: GestureType.OPEN_PALM, confidence };
+
+  if (count === 0) {
+    const thumbTip = landmarks[THUMB_TIP];
+    const thumbOut = dist2D(thumbTip, landmarks[INDEX_MCP]) / handSize > 0.6;
+    // Image y grows downward: thumb tip well above its MCP means pointing up
+    const thumbUp = thumbTip.y < landmarks[THUMB_MCP].y - handSize * 0.3;
+    if (thumbOut && thumbUp) return { type: GestureType.THUMBS_UP, confidence };
+    return { type: GestureType.FIST, confidence };
+  }
+
+  if (index && !middle && !ring && !pinky) return { type: GestureType.POINT, confidence };
+  if (index && middle && !ring && !pinky) return { type: GestureType.PEACE, confidence };
+
+  return { type: null, confidence: 0 };
+};
+
+interface TrackSample {
+  x: number; // Screen-space (mirrored like the preview)
+  y: number;
+  t: number;
+}
+
+interface HandTrack {
+  history: TrackSample[];
+  candidate: GestureType | null;
+  candidateFrames: number;
+  pose: GestureType | null; // Last pose that passed the hold test
+  lastPinch: TrackSample | null;
+}
+
+// Stateful recognizer: feed it every rendered frame with the detection timestamp, it
+// returns the gesture events that fired (static pose onsets plus dynamic swipes /
+// circles / drags). Frames repeating the last detection are skipped, so hold counts and
+// trajectories follow the tracker's rate rather than the render rate.
+export class GestureRecognizer {
+  options: GestureRecognizerOptions;
+  tracks: Map<string, HandTrack> = new Map();
+  lastEmit: Map<GestureType, number> = new Map();
+  private lastDetection: number | null = null;
+
+  constructor(options: Partial<GestureRecognizerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  reset() {
+    this.tracks.clear();
+    this.lastEmit.clear();
+    this.lastDetection = null;
+  }
+
+  update(hands: HandData[], timestamp: number = performance.now()): GestureEvent[] {
+    if (timestamp === this.lastDetection) return [];
+    this.lastDetection = timestamp;
+
+    const events: GestureEvent[] = [];
+    const seen = new Set<string>();
+
+    hands.forEach(hand => {
+      // Two people can both present a "Right" hand; disambiguate by occurrence
+      let key: string = hand.handedness;
+      while (seen.has(key)) key += '+';
+      seen.add(key);
+
+      let track = this.tracks.get(key);
+      if (!track) {
+        track = { history: [], candidate: null, candidateFrames: 0, pose: null, lastPinch: null };
+        this.tracks.set(key, track);
+      }
+      this.updateTrack(track, hand, timestamp, events);
+    });
+
+    // Forget hands that left the frame
+    for (const key of Array.from(this.tracks.keys())) {
+      if (!seen.has(key)) this.tracks.delete(key);
+    }
+
+    return events;
+  }
+
+  private updateTrack(track: HandTrack, hand: HandData, t: number, events: GestureEvent[]) {
+    const emit = (type: GestureType, confidence: number, extra: Partial<GestureEvent> = {}) => {
+      events.push({ type, confidence, handedness: hand.handedness, timestamp: t, ...extra });
+    };
+
+    // 1. Static pose with hold-frame debounce
+    const { type, confidence } = classifyPose(hand.landmarks);
+    if (type === track.candidate) {
+      track.candidateFrames++;
+    } else {
+      track.candidate = type;
+      track.candidateFrames = 1;
+    }
+    if (track.candidateFrames === this.options.holdFrames && track.pose !== type) {
+      track.pose = type;
+      if (type && this.canEmit(type, t)) emit(type, confidence);
+    }
+
+    const sample: TrackSample = { x: 1 - hand.x, y: hand.y, t };
+
+    // 2. Pinch-drag: continuous deltas while the pinch is held
+    if (track.pose === GestureType.PINCH) {
+      if (track.lastPinch) {
+        const dx = sample.x - track.lastPinch.x;
+        const dy = sample.y - track.lastPinch.y;
+        if (Math.abs(dx) + Math.abs(dy) > 0.002) {
+          emit(GestureType.PINCH_DRAG, confidence, { dx, dy });
+        }
+      }
+      track.lastPinch = sample;
+      // Dragging shouldn't also count as a swipe / circle
+      track.history = [];
+      return;
+    }
+    track.lastPinch = null;
+
+    // 3. Dynamic gestures from the center trajectory
+    track.history.push(sample);
+    while (track.history.length > 0 && t - track.history[0].t > this.options.circleWindowMs) {
+      track.history.shift();
+    }
+
+    const swipe = this.detectSwipe(track.history, t);
+    if (swipe && this.canEmit(swipe.type, t)) {
+      emit(swipe.type, swipe.confidence);
+      track.history = [];
+      return;
+    }
+
+    const circle = this.detectCircle(track.history);
+    if (circle > 0 && this.canEmit(GestureType.CIRCLE, t)) {
+      emit(GestureType.CIRCLE, circle);
+      track.history = [];
+    }
+  }
+
+  private detectSwipe(history: TrackSample[], t: number): PoseResult & { type: GestureType } | null {
+    const recent = history.filter(s => t - s.t <= this.options.swipeWindowMs);
+    if (recent.length < 3) return null;
+
+    const first = recent[0];
+    const last = recent[recent.length - 1];
+    const dx = last.x - first.x;
+    const dy = last.y - first.y;
+    const threshold = this.options.swipeDistance;
+
+    // Must be fast, long and predominantly along one axis
+    if (Math.abs(dx) > threshold && Math.abs(dx) > Math.abs(dy) * 2) {
+      return {
+        type: dx > 0 ? GestureType.SWIPE_RIGHT : GestureType.SWIPE_LEFT,
+        confidence: clamp01(Math.abs(dx) / (threshold * 1.6))
+      };
+    }
+    if (Math.abs(dy) > threshold && Math.abs(dy) > Math.abs(dx) * 2) {
+      return {
+        type: dy > 0 ? GestureType.SWIPE_DOWN : GestureType.SWIPE_UP,
+        confidence: clamp01(Math.abs(dy) / (threshold * 1.6))
+      };
+    }
+    return null;
+  }
+
+  // Returns a confidence > 0 when the trajectory sweeps a full loop at a steady radius
+  private detectCircle(history: TrackSample[]): number {
+    if (history.length < 12) return 0;
+
+    let cx = 0, cy = 0;
+    history.forEach(s => { cx += s.x; cy += s.y; });
+    cx /= history.length;
+    cy /= history.length;
+
+    const radii = history.map(s => Math.hypot(s.x - cx, s.y - cy));
+    const meanR = radii.reduce((a, b) => a + b, 0) / radii.length;
+    if (meanR < 0.04) return 0;
+
+    const variance = radii.reduce((a, r) => a + (r - meanR) * (r - meanR), 0) / radii.length;
+    const cv = Math.sqrt(variance) / meanR; // 0 for a perfect circle
+    if (cv > 0.35) return 0;
+
+    // Accumulate signed angle swept around the centroid
+    let total = 0;
+    for (let i = 1; i < history.length; i++) {
+      const a0 = Math.atan2(history[i - 1].y - cy, history[i - 1].x - cx);
+      const a1 = Math.atan2(history[i].y - cy, history[i].x - cx);
+      let d = a1 - a0;
+      if (d > Math.PI) d -= Math.PI * 2;
+      if (d < -Math.PI) d += Math.PI * 2;
+      total += d;
+    }
+
+    const loops = Math.abs(total) / (Math.PI * 2);
+    if (loops < 0.9) return 0;
+    return clamp01(loops) * (1 - cv);
+  }
+
+  private canEmit(type: GestureType, t: number): boolean {
+    const last = this.lastEmit.get(type);
+    if (last !== undefined && t - last < this.options.cooldownMs) return false;
+    this.lastEmit.set(type, t);
+    return true;
+  }
+}
@@ -0,0 +1,202 @@
+// Animated GIF encoder for short clips, free of DOM dependencies. Every frame maps to
+// one fixed palette of 6 x 7 x 6 RGB levels with ordered dithering: there is no
+// per-frame palette search to slow down recording, and dithering keeps glows from banding.
+
+const LEVELS = [6, 7, 6]; // Red / green / blue steps; green gets one more, the eye is most sensitive to it
+const MIN_CODE_SIZE = 8;
+const MAX_CODES = 4096;
+const HASH_SIZE = 8192; // Power of two, at most half full with MAX_CODES entries
+
+// 4 x 4 Bayer matrix, thresholds in 0 - 15
+const BAYER = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5];
+
+// Growable byte buffer
+class ByteWriter {
+  bytes = new Uint8Array(4096);
+  length = 0;
+
+  byte(b: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = b;
+  }
+
+  short(v: number) {
+    this.byte(v & 0xff);
+    this.byte((v >> 8) & 0xff);
+  }
+
+  text(s: string) {
+    for (let i = 0; i < s.length; i++) this.byte(s.charCodeAt(i));
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+export const GIF_PALETTE: Uint8Array = (() => {
+  const palette = new Uint8Array(256 * 3);
+  const [nr, ng, nb] = LEVELS;
+  let i = 0;
+  for (let r = 0; r < nr; r++) {
+    for (let g = 0; g < ng; g++) {
+      for (let b = 0; b < nb; b++) {
+        palette[i++] = Math.round((r * 255) / (nr - 1));
+        palette[i++] = Math.round((g * 255) / (ng - 1));
+        palette[i++] = Math.round((b * 255) / (nb - 1));
+      }
+    }
+  }
+  return palette; // The remaining 4 entries stay black
+})();
+
+// Palette index per pixel of an RGBA frame
+export const quantizeFrame = (rgba: ArrayLike<number>, width: number, height: number): Uint8Array => {
+  const [nr, ng, nb] = LEVELS;
+  const out = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const threshold = (BAYER[(y & 3) * 4 + (x & 3)] + 0.5) / 16;
+      const r = Math.min(Math.floor((rgba[p * 4] / 255) * (nr - 1) + threshold), nr - 1);
+      const g = Math.min(Math.floor((rgba[p * 4 + 1] / 255) * (ng - 1) + threshold), ng - 1);
+      const b = Math.min(Math.floor((rgba[p * 4 + 2] / 255) * (nb - 1) + threshold), nb - 1);
+      out[p] = (r * ng + g) * nb + b;
+    }
+  }
+  return out;
+};
+
+// GIF flavoured LZW: variable code width from MIN_CODE_SIZE + 1 up to 12 bits, packed
+// LSB first, a clear code whenever the table is full
+const lzwEncode = (indices: Uint8Array, out: ByteWriter) => {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+  const keys = new Int32Array(HASH_SIZE);
+  const codes = new Int16Array(HASH_SIZE);
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = endCode + 1;
+
+  // Codes go into 255-byte sub-blocks, each prefixed with its length
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bits = 0;
+  let bitCount = 0;
+  const flushBlock = () => {
+    out.byte(blockLength);
+    for (let i = 0; i < blockLength; i++) out.byte(block[i]);
+    blockLength = 0;
+  };
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block[blockLength++] = bits & 0xff;
+      if (blockLength === 255) flushBlock();
+      bits >>>= 8;
+      bitCount -= 8;
+    }
+  };
+  const reset = () => {
+    keys.fill(-1);
+    codeSize = MIN_CODE_SIZE + 1;
+    nextCode = endCode + 1;
+  };
+
+  out.byte(MIN_CODE_SIZE);
+  reset();
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    let slot = Math.imul(key, 0x9e3779b1) >>> 19; // Fibonacci hash into HASH_SIZE (2^13)
+    while (keys[slot] !== -1 && keys[slot] !== key) slot = (slot + 1) & (HASH_SIZE - 1);
+    if (keys[slot] === key) {
+      prefix = codes[slot];
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === MAX_CODES) {
+      emit(clearCode);
+      reset();
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      keys[slot] = key;
+      codes[slot] = nextCode++;
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) block[blockLength++] = bits & 0xff;
+  if (blockLength > 0) flushBlock();
+  out.byte(0); // Block terminator
+};
+
+// Frames are encoded as they arrive, so only the compressed clip is kept in memory
+export class GifEncoder {
+  readonly width: number;
+  readonly height: number;
+  frameCount = 0;
+  private out = new ByteWriter();
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+
+    const out = this.out;
+    out.text('GIF89a');
+    out.short(width);
+    out.short(height);
+    out.byte(0xf7); // Global color table of 256 entries, 8-bit color resolution
+    out.byte(0); // Background color index
+    out.byte(0); // Square pixels
+    for (let i = 0; i < GIF_PALETTE.length; i++) out.byte(GIF_PALETTE[i]);
+
+    // Loop forever
+    out.byte(0x21);
+    out.byte(0xff);
+    out.byte(11);
+    out.text('NETSCAPE2.0');
+    out.byte(3);
+    out.byte(1);
+    out.short(0);
+    out.byte(0);
+  }
+
+  // `rgba` is width x height pixels, e.g. ImageData.data
+  addFrame(rgba: ArrayLike<number>, delayMs: number) {
+    const out = this.out;
+    // Graphic control extension: frame delay in 1/100 s
+    out.byte(0x21);
+    out.byte(0xf9);
+    out.byte(4);
+    out.byte(0);
+    out.short(Math.max(Math.round(delayMs / 10), 2)); // Browsers slow down anything shorter
+    out.byte(0);
+    out.byte(0);
+
+    // Image descriptor covering the whole canvas, no local color table
+    out.byte(0x2c);
+    out.short(0);
+    out.short(0);
+    out.short(this.width);
+    out.short(this.height);
+    out.byte(0);
+
+    lzwEncode(quantizeFrame(rgba, this.width, this.height), out);
+    this.frameCount++;
+  }
+
+  finish(): Uint8Array {
+    this.out.byte(0x3b);
+    return this.out.result();
+  }
+}
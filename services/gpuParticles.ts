@@ -0,0 +1,420 @@
+import * as THREE from 'three';
+import { GPUComputationRenderer } from 'three/examples/jsm/misc/GPUComputationRenderer.js';
+import { TransitionEasing } from '../types';
+import { MAX_PULL_FRACTION, SimulationStepParams } from './particleSimulation';
+
+// GPGPU particle simulation: positions live in a float texture that is ping-ponged
+// between two render targets every frame. Target seeking, shape morphs, explosion,
+// hand forces and collision all run in the fragment shader below; the CPU only
+// uploads targets when the shape changes and advances the morph through uniforms.
+
+// The parts of GPUComputationRenderer used here (three's examples ship untyped)
+interface ComputeVariable {
+  material: THREE.ShaderMaterial;
+}
+
+interface ComputeRenderer {
+  createTexture(): THREE.DataTexture;
+  addVariable(name: string, fragmentShader: string, initialValue: THREE.Texture): ComputeVariable;
+  setVariableDependencies(variable: ComputeVariable, dependencies: ComputeVariable[]): void;
+  init(): string | null;
+  compute(): void;
+  getCurrentRenderTarget(variable: ComputeVariable): THREE.WebGLRenderTarget;
+  dispose(): void;
+}
+
+export const GPU_MAX_HANDS = 4;
+
+// Collision grid: particles are splatted into a 128^3 density volume, flattened
+// into a 2D texture of 16 x 8 tiles. Neighbor repulsion follows the density gradient.
+const GRID_RES = 128;
+const GRID_TILES_X = 16;
+const GRID_TILES_Y = 8;
+const GRID_EXTENT = 80; // World units covered by the grid (centered on the origin)
+const GRID_CELL = GRID_EXTENT / GRID_RES;
+
+const densityGLSL = /* glsl */ `
+  uniform sampler2D textureDensity;
+  uniform vec3 gridOrigin;
+  uniform float gridCell;
+
+  float densityAt(vec3 c) {
+    if (any(lessThan(c, vec3(0.0))) || any(greaterThanEqual(c, vec3(${GRID_RES}.0)))) return 0.0;
+    float tx = mod(c.z, ${GRID_TILES_X}.0);
+    float ty = floor(c.z / ${GRID_TILES_X}.0);
+    vec2 texel = vec2(tx * ${GRID_RES}.0 + c.x + 0.5, ty * ${GRID_RES}.0 + c.y + 0.5);
+    return texture2D(textureDensity, texel / vec2(${GRID_RES * GRID_TILES_X}.0, ${GRID_RES * GRID_TILES_Y}.0)).r;
+  }
+`;
+
+// Shader ids of the morph easings; the curves match EASINGS in morphTransition
+const EASING_IDS: Record<TransitionEasing, number> = {
+  [TransitionEasing.LINEAR]: 0,
+  [TransitionEasing.EASE_IN_OUT_SINE]: 1,
+  [TransitionEasing.EASE_IN_OUT_CUBIC]: 2,
+  [TransitionEasing.EASE_OUT_EXPO]: 3,
+  [TransitionEasing.EASE_OUT_BACK]: 4
+};
+
+const easingGLSL = /* glsl */ `
+  uniform int morphEasing;
+
+  float easeMorph(float t) {
+    if (morphEasing == 1) return -(cos(3.14159265 * t) - 1.0) / 2.0;
+    if (morphEasing == 2) {
+      float u = -2.0 * t + 2.0;
+      return t < 0.5 ? 4.0 * t * t * t : 1.0 - u * u * u / 2.0;
+    }
+    if (morphEasing == 3) return t >= 1.0 ? 1.0 : 1.0 - pow(2.0, -10.0 * t);
+    if (morphEasing == 4) {
+      float u = t - 1.0;
+      return 1.0 + 2.70158 * u * u * u + 1.70158 * u * u;
+    }
+    return t;
+  }
+`;
+
+const positionShader = /* glsl */ `
+  uniform sampler2D textureFrom; // xyz = morph start target, w = wave delay (0 - 1)
+  uniform sampler2D textureTo; // xyz = target the morph ends on
+  uniform float liveCount;
+  uniform float morphProgress; // Raw 0 - 1 over the morph duration, 1 when idle
+  uniform float morphStagger;
+  uniform float time;
+  uniform float handOpenness;
+  uniform float explosionFactor;
+  uniform float cohesionSpeed;
+  uniform float noiseAmt;
+  uniform vec3 explodeCenter;
+  uniform vec4 hands[${GPU_MAX_HANDS}]; // xyz = local position, w = strength
+  uniform int handCount;
+  uniform float forceRadius;
+  uniform bool swirl;
+
+  ${densityGLSL}
+  ${easingGLSL}
+
+  float hash(vec2 p) {
+    return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+  }
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec4 current = texture2D(texturePosition, uv);
+
+    // Slot beyond the live count: not drawn, remembered as dead (w = 0)
+    float index = floor(gl_FragCoord.y) * resolution.x + floor(gl_FragCoord.x);
+    if (index >= liveCount) {
+      gl_FragColor = vec4(current.xyz, 0.0);
+      return;
+    }
+
+    // Morph target, each slot eased on its own after its wave delay
+    vec4 from = texture2D(textureFrom, uv);
+    vec3 to = texture2D(textureTo, uv).xyz;
+    float local = clamp((morphProgress - from.w * morphStagger) / (1.0 - morphStagger), 0.0, 1.0);
+    vec3 t = mix(from.xyz, to, easeMorph(local));
+
+    // A slot that just came alive spawns where its morph starts (the center for
+    // slots a shape change added, its target otherwise)
+    vec3 p = current.w < 0.5 ? from.xyz : current.xyz;
+    vec3 start = p;
+    if (handOpenness > 0.1) {
+      vec3 e = t - explodeCenter;
+      float d = length(e) + 0.1;
+      t += e / d * explosionFactor;
+      t += (vec3(hash(uv + time), hash(uv + time + 1.7), hash(uv + time + 3.1)) - 0.5) * noiseAmt;
+    }
+
+    p += (t - p) * cohesionSpeed;
+
+    for (int h = 0; h < ${GPU_MAX_HANDS}; h++) {
+      if (h >= handCount) break;
+      vec3 hd = p - hands[h].xyz;
+      float dist = length(hd);
+      if (dist < forceRadius && dist > 0.01) {
+        float push = max(hands[h].w * (1.0 - dist / forceRadius) / dist, -${MAX_PULL_FRACTION.toFixed(2)});
+        if (swirl) {
+          p.xy += vec2(-hd.y, hd.x) * push - hd.xy * push * 0.2;
+        } else {
+          p += hd * push;
+        }
+      }
+    }
+
+    // Collision: move down the density gradient when the own cell is crowded
+    vec3 c = floor((p - gridOrigin) / gridCell);
+    float own = densityAt(c);
+    if (own > 1.5) {
+      vec3 grad = vec3(
+        densityAt(c + vec3(1.0, 0.0, 0.0)) - densityAt(c - vec3(1.0, 0.0, 0.0)),
+        densityAt(c + vec3(0.0, 1.0, 0.0)) - densityAt(c - vec3(0.0, 1.0, 0.0)),
+        densityAt(c + vec3(0.0, 0.0, 1.0)) - densityAt(c - vec3(0.0, 0.0, 1.0))
+      );
+      // Jitter breaks ties for particles stacked in the same cell
+      vec3 jitter = vec3(hash(uv * 3.1 + time), hash(uv * 5.7 + time), hash(uv * 7.3 + time)) - 0.5;
+      p += (-grad * 0.02 + jitter * 0.05) * min(own - 1.0, 4.0) * gridCell;
+    }
+
+    // w = 1 + distance moved this step, read back by the VELOCITY color mode
+    gl_FragColor = vec4(p, 1.0 + length(p - start));
+  }
+`;
+
+const densityVertexShader = /* glsl */ `
+  uniform sampler2D texturePosition;
+  uniform vec3 gridOrigin;
+  uniform float gridCell;
+  attribute vec2 reference;
+
+  void main() {
+    vec3 p = texture2D(texturePosition, reference).xyz;
+    vec3 c = floor((p - gridOrigin) / gridCell);
+    if (any(lessThan(c, vec3(0.0))) || any(greaterThanEqual(c, vec3(${GRID_RES}.0)))) {
+      gl_Position = vec4(2.0, 2.0, 2.0, 1.0); // Clipped
+      gl_PointSize = 0.0;
+      return;
+    }
+    float tx = mod(c.z, ${GRID_TILES_X}.0);
+    float ty = floor(c.z / ${GRID_TILES_X}.0);
+    vec2 texel = vec2(tx * ${GRID_RES}.0 + c.x + 0.5, ty * ${GRID_RES}.0 + c.y + 0.5);
+    gl_Position = vec4(texel / vec2(${GRID_RES * GRID_TILES_X}.0, ${GRID_RES * GRID_TILES_Y}.0) * 2.0 - 1.0, 0.0, 1.0);
+    gl_PointSize = 1.0;
+  }
+`;
+
+const densityFragmentShader = /* glsl */ `
+  void main() {
+    gl_FragColor = vec4(1.0);
+  }
+`;
+
+export class GPUParticleSimulation {
+  renderer: THREE.WebGLRenderer;
+  size: number;
+  count: number;
+
+  gpuCompute: ComputeRenderer;
+  positionVariable: ComputeVariable;
+  fromTexture: THREE.DataTexture;
+  toTexture: THREE.DataTexture;
+
+  densityTarget: THREE.WebGLRenderTarget;
+  densityScene: THREE.Scene;
+  densityCamera: THREE.Camera;
+  densityMaterial: THREE.ShaderMaterial;
+  densityGeometry: THREE.BufferGeometry;
+  liveCount = 0; // Slots [0, liveCount) are simulated
+
+  // Float render targets are required for the position ping-pong
+  static isSupported(renderer: THREE.WebGLRenderer): boolean {
+    return renderer.capabilities.isWebGL2 !== false
+      && renderer.extensions.has('EXT_color_buffer_float')
+      && renderer.capabilities.maxVertexTextures > 0;
+  }
+
+  constructor(renderer: THREE.WebGLRenderer, size: number, initialPositions: Float32Array) {
+    this.renderer = renderer;
+    this.size = size;
+    this.count = size * size;
+
+    this.gpuCompute = new GPUComputationRenderer(size, size, renderer) as ComputeRenderer;
+
+    const pos0 = this.gpuCompute.createTexture();
+    const data = pos0.image.data as Float32Array;
+    for (let i = 0; i < this.count; i++) {
+      data[i * 4] = initialPositions[i * 3];
+      data[i * 4 + 1] = initialPositions[i * 3 + 1];
+      data[i * 4 + 2] = initialPositions[i * 3 + 2];
+      data[i * 4 + 3] = 1;
+    }
+
+    const createDataTexture = () => {
+      const texture = new THREE.DataTexture(new Float32Array(this.count * 4), size, size, THREE.RGBAFormat, THREE.FloatType);
+      texture.needsUpdate = true;
+      return texture;
+    };
+    this.fromTexture = createDataTexture();
+    this.toTexture = createDataTexture();
+
+    this.densityTarget = new THREE.WebGLRenderTarget(GRID_RES * GRID_TILES_X, GRID_RES * GRID_TILES_Y, {
+      type: THREE.HalfFloatType,
+      format: THREE.RGBAFormat,
+      minFilter: THREE.NearestFilter,
+      magFilter: THREE.NearestFilter,
+      depthBuffer: false
+    });
+
+    const gridOrigin = new THREE.Vector3(-GRID_EXTENT / 2, -GRID_EXTENT / 2, -GRID_EXTENT / 2);
+
+    this.positionVariable = this.gpuCompute.addVariable('texturePosition', positionShader, pos0);
+    this.gpuCompute.setVariableDependencies(this.positionVariable, [this.positionVariable]);
+    const hands: THREE.Vector4[] = [];
+    for (let i = 0; i < GPU_MAX_HANDS; i++) hands.push(new THREE.Vector4());
+    Object.assign(this.positionVariable.material.uniforms, {
+      textureFrom: { value: this.fromTexture },
+      textureTo: { value: this.toTexture },
+      liveCount: { value: 0 },
+      morphProgress: { value: 1 },
+      morphStagger: { value: 0 },
+      morphEasing: { value: 0 },
+      textureDensity: { value: this.densityTarget.texture },
+      gridOrigin: { value: gridOrigin },
+      gridCell: { value: GRID_CELL },
+      time: { value: 0 },
+      handOpenness: { value: 0 },
+      explosionFactor: { value: 0 },
+      cohesionSpeed: { value: 0.1 },
+      noiseAmt: { value: 0 },
+      explodeCenter: { value: new THREE.Vector3() },
+      hands: { value: hands },
+      handCount: { value: 0 },
+      forceRadius: { value: 8 },
+      swirl: { value: false }
+    });
+
+    const error = this.gpuCompute.init();
+    if (error !== null) {
+      throw new Error(`GPU particle simulation init failed: ${error}`);
+    }
+
+    // Density splatting pass
+    const references = this.createReferences();
+    const densityGeo = new THREE.BufferGeometry();
+    densityGeo.setAttribute('position', new THREE.BufferAttribute(new Float32Array(this.count * 3), 3));
+    densityGeo.setAttribute('reference', new THREE.BufferAttribute(references, 2));
+    densityGeo.setDrawRange(0, 0);
+    this.densityGeometry = densityGeo;
+    this.densityMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        texturePosition: { value: null },
+        gridOrigin: { value: gridOrigin },
+        gridCell: { value: GRID_CELL }
+      },
+      vertexShader: densityVertexShader,
+      fragmentShader: densityFragmentShader,
+      blending: THREE.AdditiveBlending,
+      depthTest: false,
+      depthWrite: false,
+      transparent: true
+    });
+    const densityPoints = new THREE.Points(densityGeo, this.densityMaterial);
+    densityPoints.frustumCulled = false;
+    this.densityScene = new THREE.Scene();
+    this.densityScene.add(densityPoints);
+    this.densityCamera = new THREE.Camera();
+  }
+
+  // Per-vertex uv into the simulation texture
+  createReferences(): Float32Array {
+    const references = new Float32Array(this.count * 2);
+    for (let i = 0; i < this.count; i++) {
+      references[i * 2] = ((i % this.size) + 0.5) / this.size;
+      references[i * 2 + 1] = (Math.floor(i / this.size) + 0.5) / this.size;
+    }
+    return references;
+  }
+
+  // Slots beyond the live count keep their last position and stop moving
+  setLiveCount(liveCount: number) {
+    this.liveCount = liveCount;
+    this.positionVariable.material.uniforms.liveCount.value = liveCount;
+    this.densityGeometry.setDrawRange(0, liveCount);
+  }
+
+  // Settled targets of the first `count` slots; ends any running morph
+  setTargets(targets: Float32Array, count: number) {
+    const from = this.fromTexture.image.data as Float32Array;
+    const to = this.toTexture.image.data as Float32Array;
+    for (let i = 0; i < count; i++) {
+      for (let a = 0; a < 3; a++) from[i * 4 + a] = to[i * 4 + a] = targets[i * 3 + a];
+      from[i * 4 + 3] = 0;
+    }
+    this.fromTexture.needsUpdate = true;
+    this.toTexture.needsUpdate = true;
+    this.setMorphProgress(1, TransitionEasing.LINEAR, 0);
+  }
+
+  // Morph the first `count` slots from `from` to `to`, each starting after its delay
+  // (0 - 1, scaled by the stagger). Slots beyond keep the targets last set.
+  startMorph(from: Float32Array, to: Float32Array, delays: Float32Array, count: number) {
+    const fromData = this.fromTexture.image.data as Float32Array;
+    const toData = this.toTexture.image.data as Float32Array;
+    for (let i = 0; i < count; i++) {
+      for (let a = 0; a < 3; a++) {
+        fromData[i * 4 + a] = from[i * 3 + a];
+        toData[i * 4 + a] = to[i * 3 + a];
+      }
+      fromData[i * 4 + 3] = delays[i];
+    }
+    this.fromTexture.needsUpdate = true;
+    this.toTexture.needsUpdate = true;
+    this.setMorphProgress(0, TransitionEasing.LINEAR, 0);
+  }
+
+  setMorphProgress(progress: number, easing: TransitionEasing, stagger: number) {
+    const u = this.positionVariable.material.uniforms;
+    u.morphProgress.value = progress;
+    u.morphEasing.value = EASING_IDS[easing] ?? 0;
+    u.morphStagger.value = stagger;
+  }
+
+  get positionTexture(): THREE.Texture {
+    return this.gpuCompute.getCurrentRenderTarget(this.positionVariable).texture;
+  }
+
+  // Geometry for the visible points: a dummy position attribute (for draw count) + texture
+  // references. The material reads positions from `positionTexture` (see particleMaterial).
+  createGeometry(): THREE.BufferGeometry {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(this.count * 3), 3));
+    geometry.setAttribute('reference', new THREE.BufferAttribute(this.createReferences(), 2));
+    return geometry;
+  }
+
+  step(params: SimulationStepParams) {
+    // 1. Splat current positions into the density grid
+    const prevTarget = this.renderer.getRenderTarget();
+    const prevClearColor = new THREE.Color();
+    this.renderer.getClearColor(prevClearColor);
+    const prevClearAlpha = this.renderer.getClearAlpha();
+
+    this.densityMaterial.uniforms.texturePosition.value = this.positionTexture;
+    this.renderer.setRenderTarget(this.densityTarget);
+    this.renderer.setClearColor(0x000000, 0);
+    this.renderer.clear();
+    this.renderer.render(this.densityScene, this.densityCamera);
+    this.renderer.setRenderTarget(prevTarget);
+    this.renderer.setClearColor(prevClearColor, prevClearAlpha);
+
+    // 2. Integrate positions
+    const u = this.positionVariable.material.uniforms;
+    u.time.value = params.time;
+    u.handOpenness.value = params.handOpenness;
+    u.explosionFactor.value = params.explosionFactor;
+    u.cohesionSpeed.value = params.cohesionSpeed;
+    u.noiseAmt.value = params.noiseAmt;
+    u.explodeCenter.value.set(params.explodeCenter.x, params.explodeCenter.y, params.explodeCenter.z);
+    const handCount = Math.min(params.hands.length, GPU_MAX_HANDS);
+    for (let i = 0; i < handCount; i++) {
+      const h = params.hands[i];
+      u.hands.value[i].set(h.x, h.y, h.z, h.strength);
+    }
+    u.handCount.value = handCount;
+    u.forceRadius.value = params.forceRadius;
+    u.swirl.value = params.swirl;
+
+    this.gpuCompute.compute();
+  }
+
+  dispose() {
+    this.gpuCompute.dispose();
+    this.fromTexture.dispose();
+    this.toTexture.dispose();
+    this.densityTarget.dispose();
+    this.densityMaterial.dispose();
+    this.densityScene.traverse((object: any) => {
+      if (object.geometry) object.geometry.dispose();
+    });
+  }
+}
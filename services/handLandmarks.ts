@@ -0,0 +1,46 @@
+import { NormalizedLandmark, Category } from "@mediapipe/tasks-vision";
+import { HandData } from "../types";
+
+// Derive openness / center for a single hand from its 21 landmarks
+export const toHandData = (landmarks: NormalizedLandmark[], category?: Category): HandData => {
+    // Calculate "Openness"
+    // We measure the distance of finger tips to the wrist (landmark 0)
+    // Normalized by the scale of the hand (wrist to middle finger mcp)
+    
+    const wrist = landmarks[0];
+    const tips = [4, 8, 12, 16, 20]; // Thumb, Index, Middle, Ring, Pinky tips
+    const mcp = landmarks[9]; // Middle finger MCP (knuckle)
+
+    // Rough hand size scale
+    const handSize = Math.sqrt(
+        Math.pow(mcp.x - wrist.x, 2) + Math.pow(mcp.y - wrist.y, 2)
+    );
+
+    let totalTipDist = 0;
+    tips.forEach(tipIdx => {
+        const tip = landmarks[tipIdx];
+        const dist = Math.sqrt(Math.pow(tip.x - wrist.x, 2) + Math.pow(tip.y - wrist.y, 2));
+        totalTipDist += dist;
+    });
+
+    const avgDist = totalTipDist / 5;
+    
+    // Heuristic: If fingers are extended, avgDist is large relative to handSize.
+    // Closed fist: avgDist is close to handSize (or less for thumb tuck).
+    // Ratio ~ 1.8+ is open, ~ 0.8 is closed.
+    
+    const rawOpenness = (avgDist / handSize);
+    
+    // Map 1.0 (fist) -> 2.2 (flat hand) to 0 -> 1 range
+    const clampedOpenness = Math.min(Math.max((rawOpenness - 0.8) / 1.4, 0), 1);
+
+    return {
+      isOpen: clampedOpenness > 0.5,
+      openness: clampedOpenness,
+      x: landmarks[9].x, // Use middle knuckle as center
+      y: landmarks[9].y,
+      handedness: category?.categoryName === 'Left' ? 'Left' : 'Right',
+      score: category?.score ?? 1,
+      landmarks: landmarks.map(l => ({ x: l.x, y: l.y, z: l.z }))
+    };
+};
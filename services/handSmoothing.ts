@@ -0,0 +1,208 @@
+import { HandData, TrackingSettings } from "../types";
+import type { HandDetection } from "./handTracking";
+
+export const DEFAULT_TRACKING_SETTINGS: TrackingSettings = {
+  minCutoff: 1.0,
+  beta: 0.05,
+  dCutoff: 1.0,
+  openThreshold: 0.6,
+  closeThreshold: 0.4,
+  minConfidence: 0.6,
+  lostEaseSpeed: 0.04
+};
+
+// Single-pole low pass used internally by the One Euro filter
+class LowPassFilter {
+  y: number | null = null;
+
+  filter(x: number, alpha: number): number {
+    this.y = this.y === null ? x : alpha * x + (1 - alpha) * this.y;
+    return this.y;
+  }
+
+  reset() {
+    this.y = null;
+  }
+}
+
+// One Euro filter (Casiez et al. 2012): heavy smoothing when the signal is slow,
+// cutoff rises with speed so fast moves stay responsive instead of lagging.
+export class OneEuroFilter {
+  minCutoff: number;
+  beta: number;
+  dCutoff: number;
+
+  private x = new LowPassFilter();
+  private dx = new LowPassFilter();
+  private lastTime: number | null = null;
+  private lastRaw: number | null = null;
+
+  constructor(minCutoff: number, beta: number, dCutoff: number) {
+    this.minCutoff = minCutoff;
+    this.beta = beta;
+    this.dCutoff = dCutoff;
+  }
+
+  private alpha(cutoff: number, dt: number) {
+    const tau = 1 / (2 * Math.PI * cutoff);
+    return 1 / (1 + tau / dt);
+  }
+
+  // timestamp in ms
+  filter(value: number, timestamp: number): number {
+    if (this.lastTime === null || this.lastRaw === null) {
+      this.lastTime = timestamp;
+      this.lastRaw = value;
+      this.dx.filter(0, 1);
+      return this.x.filter(value, 1);
+    }
+
+    const dt = Math.max((timestamp - this.lastTime) / 1000, 1e-3);
+    this.lastTime = timestamp;
+
+    const rawDerivative = (value - this.lastRaw) / dt;
+    this.lastRaw = value;
+    const derivative = this.dx.filter(rawDerivative, this.alpha(this.dCutoff, dt));
+
+    const cutoff = this.minCutoff + this.beta * Math.abs(derivative);
+    return this.x.filter(value, this.alpha(cutoff, dt));
+  }
+
+  reset() {
+    this.x.reset();
+    this.dx.reset();
+    this.lastTime = null;
+    this.lastRaw = null;
+  }
+}
+
+interface HandFilterState {
+  openness: OneEuroFilter;
+  x: OneEuroFilter;
+  y: OneEuroFilter;
+  isOpen: boolean;
+}
+
+export interface SmoothedHands {
+  hands: HandData[];
+  openness: number; // Global openness driving the formation (eases to idle when hands are lost)
+  isOpen: boolean; // Global open/closed state with hysteresis
+}
+
+// Idle "breathing" used while no hand is tracked
+const idleOpenness = (timestamp: number) => (Math.sin(timestamp / 1000) + 1) * 0.2;
+
+const FRAME_MS = 1000 / 60; // lostEaseSpeed is given per frame at this rate
+
+// Per-hand filter bank between detectHand and the render loop
+export class HandSmoother {
+  settings: TrackingSettings;
+  states: Map<string, HandFilterState> = new Map();
+  openness: number = 0;
+  isOpen: boolean = false;
+
+  private hands: HandData[] = []; // Filtered hands of the last detection
+  private lastDetection: number | null = null;
+  private lastUpdate: number | null = null;
+
+  constructor(settings: TrackingSettings = DEFAULT_TRACKING_SETTINGS) {
+    this.settings = settings;
+  }
+
+  setSettings(settings: TrackingSettings) {
+    this.settings = settings;
+    this.states.forEach(state => {
+      [state.openness, state.x, state.y].forEach(f => {
+        f.minCutoff = settings.minCutoff;
+        f.beta = settings.beta;
+        f.dCutoff = settings.dCutoff;
+      });
+    });
+  }
+
+  private createState(): HandFilterState {
+    const { minCutoff, beta, dCutoff } = this.settings;
+    return {
+      openness: new OneEuroFilter(minCutoff, beta, dCutoff),
+      // Positions move faster than openness; a lower beta would make the attractor lag
+      x: new OneEuroFilter(minCutoff, beta * 4, dCutoff),
+      y: new OneEuroFilter(minCutoff, beta * 4, dCutoff),
+      isOpen: false
+    };
+  }
+
+  private applyHysteresis(wasOpen: boolean, openness: number): boolean {
+    if (wasOpen) return openness > this.settings.closeThreshold;
+    return openness > this.settings.openThreshold;
+  }
+
+  // Called every render frame. The filters only run when a new detection arrives:
+  // feeding them the same detection again would read as a hand standing still.
+  update(detection: HandDetection, now: number = performance.now()): SmoothedHands {
+    const dt = this.lastUpdate === null ? FRAME_MS : Math.min(Math.max(now - this.lastUpdate, 0), 100);
+    this.lastUpdate = now;
+
+    if (detection.timestamp !== this.lastDetection) {
+      this.lastDetection = detection.timestamp;
+      this.hands = this.filterHands(detection.hands, detection.timestamp);
+    }
+    const hands = this.hands;
+
+    if (hands.length > 0) {
+      // Global openness follows the most open hand
+      this.openness = Math.max(...hands.map(h => h.openness));
+    } else {
+      // Hand lost: glide back toward the idle breathing instead of snapping to it
+      const ease = 1 - Math.pow(1 - this.settings.lostEaseSpeed, dt / FRAME_MS);
+      this.openness += (idleOpenness(now) - this.openness) * ease;
+    }
+    this.isOpen = this.applyHysteresis(this.isOpen, this.openness);
+
+    return { hands, openness: this.openness, isOpen: this.isOpen };
+  }
+
+  private filterHands(rawHands: HandData[], timestamp: number): HandData[] {
+    const seen = new Set<string>();
+
+    const hands = rawHands
+      .filter(h => h.score >= this.settings.minConfidence)
+      .map(hand => {
+        let key: string = hand.handedness;
+        while (seen.has(key)) key += '+';
+        seen.add(key);
+
+        let state = this.states.get(key);
+        if (!state) {
+          state = this.createState();
+          this.states.set(key, state);
+        }
+
+        const openness = Math.min(Math.max(state.openness.filter(hand.openness, timestamp), 0), 1);
+        state.isOpen = this.applyHysteresis(state.isOpen, openness);
+
+        return {
+          ...hand,
+          openness,
+          isOpen: state.isOpen,
+          x: state.x.filter(hand.x, timestamp),
+          y: state.y.filter(hand.y, timestamp)
+        };
+      });
+
+    // Drop filters of hands that left so a returning hand doesn't glide in from its old spot
+    for (const key of Array.from(this.states.keys())) {
+      if (!seen.has(key)) this.states.delete(key);
+    }
+
+    return hands;
+  }
+
+  reset() {
+    this.states.clear();
+    this.hands = [];
+    this.lastDetection = null;
+    this.lastUpdate = null;
+    this.openness = 0;
+    this.isOpen = false;
+  }
+}
@@ -1,70 +1,212 @@
-import { FilesetResolver, HandLandmarker, DrawingUtils } from "@mediapipe/tasks-vision";
+import { FilesetResolver, HandLandmarker } from "@mediapipe/tasks-vision";
 import { HandData } from "../types";
+import { resolveAsset } from "./assets";
+import { toHandData } from "./handLandmarks";
+import type { HandWorkerRequest, HandWorkerResponse } from "./handTracking.worker";
 
 let handLandmarker: HandLandmarker | undefined;
 let runningMode: "IMAGE" | "VIDEO" = "VIDEO";
 
-export const initializeHandTracker = async (): Promise<void> => {
-  const vision = await FilesetResolver.forVisionTasks(
-    "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.3/wasm"
-  );
+export const MAX_HANDS = 2;
+
+// Hands from one detection, stamped with the capture time of the frame they came from
+export interface HandDetection {
+  hands: HandData[];
+  timestamp: number;
+}
+
+// Worker path state
+let worker: Worker | null = null;
+let inFlight = false; // At most one frame queued in the worker at a time
+let lastSendTime = 0;
+let latestHands: HandData[] = [];
+let latestResultTime = 0;
+let latestDetectionTime = 0; // Capture time of the frame behind latestHands
+
+// Detection runs at its own rate, independent of requestAnimationFrame
+let detectionIntervalMs = 1000 / 30;
+// Results older than this are treated as "no hands" (worker stalled / crashed)
+const STALE_RESULT_MS = 500;
+
+// Told when tracking breaks down after startup; `fatal` means no detector is left
+export type TrackerFailureListener = (message: string, fatal: boolean) => void;
+let onTrackerFailure: TrackerFailureListener | null = null;
+
+export const setTrackerFailureListener = (listener: TrackerFailureListener | null) => {
+  onTrackerFailure = listener;
+};
+
+// Kept so a crashed worker can be replaced by the main-thread detector
+let trackerAssets: { wasmBase: string; modelPath: string; numHands: number } | null = null;
+
+export const setDetectionRate = (fps: number) => {
+  detectionIntervalMs = 1000 / Math.max(fps, 1);
+};
+
+export const isUsingWorker = () => worker !== null;
+
+const createMainThreadTracker = async (wasmBase: string, modelPath: string, numHands: number) => {
+  const vision = await FilesetResolver.forVisionTasks(wasmBase);
   handLandmarker = await HandLandmarker.createFromOptions(vision, {
     baseOptions: {
-      modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
+      modelAssetPath: modelPath,
       delegate: "GPU"
     },
     runningMode: runningMode,
-    numHands: 1
+    numHands: numHands
   });
 };
 
-export const detectHand = (video: HTMLVideoElement): HandData | null => {
-  if (!handLandmarker) return null;
+const createWorkerTracker = (wasmBase: string, modelPath: string, numHands: number): Promise<Worker> => {
+  return new Promise((resolve, reject) => {
+    const w = new Worker(new URL('./handTracking.worker.ts', import.meta.url), { type: 'module' });
+
+    const fail = (reason: string) => {
+      w.terminate();
+      reject(new Error(reason));
+    };
+
+    w.onerror = (e) => fail(e.message || 'worker error');
+    w.onmessage = (e: MessageEvent<HandWorkerResponse>) => {
+      const msg = e.data;
+      if (msg.type === 'ready') {
+        w.onmessage = handleWorkerMessage;
+        w.onerror = (err) => handleWorkerCrash(w, err);
+        resolve(w);
+      } else if (msg.type === 'error') {
+        fail(msg.message);
+      }
+    };
+
+    // Asset URLs must be absolute: the worker resolves relative URLs against its own script
+    const request: HandWorkerRequest = {
+      type: 'init',
+      wasmBase: new URL(wasmBase, location.href).href,
+      modelPath: new URL(modelPath, location.href).href,
+      numHands
+    };
+    w.postMessage(request);
+  });
+};
+
+const handleWorkerMessage = (e: MessageEvent<HandWorkerResponse>) => {
+  const msg = e.data;
+  if (msg.type === 'result') {
+    latestHands = msg.hands;
+    latestResultTime = performance.now();
+    latestDetectionTime = msg.timestamp;
+    inFlight = false;
+  } else if (msg.type === 'error') {
+    console.warn("Hand detection failed in worker:", msg.message);
+    inFlight = false;
+  }
+};
+
+// The worker died after startup (e.g. out of memory or a WASM abort). Its pending
+// frame will never be answered, so drop it and keep tracking on the main thread.
+const handleWorkerCrash = (w: Worker, err: ErrorEvent) => {
+  console.error("Hand tracking worker error:", err);
+  w.terminate();
+  if (worker !== w) return;
+  worker = null;
+  inFlight = false;
+  latestHands = [];
+  if (!trackerAssets) return;
+
+  onTrackerFailure?.("手势识别线程出错，正在切换到主线程识别", false);
+  const { wasmBase, modelPath, numHands } = trackerAssets;
+  createMainThreadTracker(wasmBase, modelPath, numHands).catch(e => {
+    console.error("Main-thread hand tracker failed:", e);
+    initPromise = null; // Let the retry button start over
+    onTrackerFailure?.(`手势识别已停止：${e instanceof Error ? e.message : String(e)}`, true);
+  });
+};
+
+let initPromise: Promise<void> | null = null;
+
+export const initializeHandTracker = (numHands: number = MAX_HANDS, useWorker: boolean = true): Promise<void> => {
+  // Already running or starting (e.g. camera switch): the tracker doesn't depend on the stream
+  if (!initPromise) {
+    initPromise = createTracker(numHands, useWorker).catch(e => {
+      initPromise = null; // Allow the retry button to try again
+      throw e;
+    });
+  }
+  return initPromise;
+};
+
+const createTracker = async (numHands: number, useWorker: boolean): Promise<void> => {
+  // Prefer self-hosted copies, fall back to CDN (throws AssetLoadError if neither is reachable)
+  const [wasmBase, modelPath] = await Promise.all([
+    resolveAsset('visionWasm'),
+    resolveAsset('handModel')
+  ]);
+  trackerAssets = { wasmBase, modelPath, numHands };
+
+  if (useWorker && typeof Worker !== 'undefined' && typeof createImageBitmap !== 'undefined') {
+    try {
+      worker = await createWorkerTracker(wasmBase, modelPath, numHands);
+      return;
+    } catch (e) {
+      console.warn("Hand tracking worker unavailable, falling back to main thread", e);
+      worker = null;
+    }
+  }
+
+  await createMainThreadTracker(wasmBase, modelPath, numHands);
+};
+
+// Main-thread detection: blocks for the duration of inference.
+// Returns one HandData per detected hand (empty array when no hands in frame)
+export const detectHand = (video: HTMLVideoElement): HandData[] => {
+  if (!handLandmarker) return [];
 
   const startTimeMs = performance.now();
   const results = handLandmarker.detectForVideo(video, startTimeMs);
 
-  if (results.landmarks && results.landmarks.length > 0) {
-    const landmarks = results.landmarks[0];
-
-    // Calculate "Openness"
-    // We measure the distance of finger tips to the wrist (landmark 0)
-    // Normalized by the scale of the hand (wrist to middle finger mcp)
-    
-    const wrist = landmarks[0];
-    const tips = [4, 8, 12, 16, 20]; // Thumb, Index, Middle, Ring, Pinky tips
-    const mcp = landmarks[9]; // Middle finger MCP (knuckle)
-
-    // Rough hand size scale
-    const handSize = Math.sqrt(
-        Math.pow(mcp.x - wrist.x, 2) + Math.pow(mcp.y - wrist.y, 2)
-    );
-
-    let totalTipDist = 0;
-    tips.forEach(tipIdx => {
-        const tip = landmarks[tipIdx];
-        const dist = Math.sqrt(Math.pow(tip.x - wrist.x, 2) + Math.pow(tip.y - wrist.y, 2));
-        totalTipDist += dist;
+  if (!results.landmarks || results.landmarks.length === 0) return [];
+
+  return results.landmarks.map((landmarks, i) =>
+    toHandData(landmarks, results.handednesses?.[i]?.[0])
+  );
+};
+
+const sendFrameToWorker = (video: HTMLVideoElement, timestamp: number) => {
+  inFlight = true;
+  lastSendTime = timestamp;
+  createImageBitmap(video)
+    .then(bitmap => {
+      if (!worker) {
+        bitmap.close();
+        return;
+      }
+      const request: HandWorkerRequest = { type: 'detect', bitmap, timestamp };
+      worker.postMessage(request, [bitmap]);
+    })
+    .catch(() => {
+      inFlight = false;
     });
+};
 
-    const avgDist = totalTipDist / 5;
-    
-    // Heuristic: If fingers are extended, avgDist is large relative to handSize.
-    // Closed fist: avgDist is close to handSize (or less for thumb tuck).
-    // Ratio ~ 1.8+ is open, ~ 0.8 is closed.
-    
-    const rawOpenness = (avgDist / handSize);
-    
-    // Map 1.0 (fist) -> 2.2 (flat hand) to 0 -> 1 range
-    const clampedOpenness = Math.min(Math.max((rawOpenness - 0.8) / 1.4, 0), 1);
-
-    return {
-      isOpen: clampedOpenness > 0.5,
-      openness: clampedOpenness,
-      x: landmarks[9].x, // Use middle knuckle as center
-      y: landmarks[9].y
-    };
+// Non-blocking entry point for the render loop: schedules a detection when one is
+// due and returns the most recent result. Falls back to synchronous detection
+// (throttled to the detection rate) when the worker isn't available. The timestamp
+// only changes when a new detection arrived, so callers can tell repeats apart.
+export const pollHands = (video: HTMLVideoElement): HandDetection => {
+  const now = performance.now();
+  const due = now - lastSendTime >= detectionIntervalMs;
+
+  if (worker) {
+    if (due && !inFlight) sendFrameToWorker(video, now);
+    if (now - latestResultTime > STALE_RESULT_MS) return { hands: [], timestamp: now };
+    return { hands: latestHands, timestamp: latestDetectionTime };
   }
 
-  return null;
-};
\ No newline at end of file
+  if (due) {
+    lastSendTime = now;
+    latestHands = detectHand(video);
+    latestResultTime = now;
+    latestDetectionTime = now;
+  }
+  return { hands: latestHands, timestamp: latestDetectionTime };
+};
@@ -0,0 +1,93 @@
+// Runs MediaPipe hand landmark inference off the render thread.
+// The main thread transfers ImageBitmaps in, HandData[] comes back asynchronously.
+import { FilesetResolver, HandLandmarker } from "@mediapipe/tasks-vision";
+import { HandData } from "../types";
+import { toHandData } from "./handLandmarks";
+
+export type HandWorkerRequest =
+  | { type: 'init'; wasmBase: string; modelPath: string; numHands: number }
+  | { type: 'detect'; bitmap: ImageBitmap; timestamp: number };
+
+export type HandWorkerResponse =
+  | { type: 'ready'; delegate: 'GPU' | 'CPU' }
+  | { type: 'result'; hands: HandData[]; timestamp: number }
+  | { type: 'error'; stage: 'init' | 'detect'; message: string };
+
+// The project compiles against the DOM lib, so describe the worker scope we use by hand
+interface WorkerScope {
+  postMessage(message: HandWorkerResponse): void;
+  onmessage: ((e: MessageEvent<HandWorkerRequest>) => void) | null;
+  importScripts?: (...urls: string[]) => void;
+}
+const ctx = self as unknown as WorkerScope;
+
+// MediaPipe's wasm loader relies on importScripts, which module workers don't have.
+// Emulate it with a synchronous fetch + global eval (allowed inside workers).
+if (typeof ctx.importScripts !== 'function') {
+  ctx.importScripts = (...urls: string[]) => {
+    urls.forEach(url => {
+      const xhr = new XMLHttpRequest();
+      xhr.open('GET', url, false);
+      xhr.send();
+      if (xhr.status < 200 || xhr.status >= 300) {
+        throw new Error(`importScripts failed for ${url} (HTTP ${xhr.status})`);
+      }
+      (0, eval)(xhr.responseText);
+    });
+  };
+}
+
+let handLandmarker: HandLandmarker | undefined;
+
+const post = (msg: HandWorkerResponse) => ctx.postMessage(msg);
+
+const init = async (wasmBase: string, modelPath: string, numHands: number) => {
+  const vision = await FilesetResolver.forVisionTasks(wasmBase);
+  const create = (delegate: 'GPU' | 'CPU') => HandLandmarker.createFromOptions(vision, {
+    baseOptions: { modelAssetPath: modelPath, delegate },
+    runningMode: "VIDEO",
+    numHands
+  });
+
+  // WebGL in workers needs OffscreenCanvas support; fall back to the CPU delegate without it
+  try {
+    handLandmarker = await create('GPU');
+    post({ type: 'ready', delegate: 'GPU' });
+  } catch (e) {
+    console.warn("Worker GPU delegate unavailable, using CPU", e);
+    handLandmarker = await create('CPU');
+    post({ type: 'ready', delegate: 'CPU' });
+  }
+};
+
+ctx.onmessage = async (e: MessageEvent<HandWorkerRequest>) => {
+  const msg = e.data;
+
+  if (msg.type === 'init') {
+    try {
+      await init(msg.wasmBase, msg.modelPath, msg.numHands);
+    } catch (err: any) {
+      post({ type: 'error', stage: 'init', message: err?.message || String(err) });
+    }
+    return;
+  }
+
+  if (msg.type === 'detect') {
+    const { bitmap, timestamp } = msg;
+    try {
+      if (!handLandmarker) {
+        post({ type: 'result', hands: [], timestamp });
+        return;
+      }
+      const results = handLandmarker.detectForVideo(bitmap, timestamp);
+      const hands = (results.landmarks || []).map((landmarks, i) =>
+        toHandData(landmarks, results.handednesses?.[i]?.[0])
+      );
+      post({ type: 'result', hands, timestamp });
+    } catch (err: any) {
+      post({ type: 'error', stage: 'detect', message: err?.message || String(err) });
+    } finally {
+      bitmap.close();
+    }
+  }
+};
@@ -0,0 +1,124 @@
+import { Point3D } from '../types';
+import { RandomSource } from './random';
+
+export interface ImageSampleOptions {
+  sampleCount: number; // Number of points to generate
+  threshold: number; // 0 - 1, pixels with a lower weight are ignored
+  invert: boolean; // Sample dark pixels instead of bright ones (dark logo on white)
+  weightBy: 'luminance' | 'alpha'; // Alpha works best for transparent PNG logos
+  depth: number; // World units of z extrusion driven by brightness (0 = flat)
+}
+
+export const DEFAULT_IMAGE_SAMPLE_OPTIONS: ImageSampleOptions = {
+  sampleCount: 12000,
+  threshold: 0.2,
+  invert: false,
+  weightBy: 'luminance',
+  depth: 4
+};
+
+export interface ImageSampleResult {
+  points: Point3D[];
+  colors: Float32Array; // sRGB 0 - 1, 3 floats per point
+}
+
+// Longest side the image is resampled to before sampling (keeps the CDF small)
+const SAMPLE_RESOLUTION = 256;
+// World-space size of the longest side, same 40-unit frame DrawingCanvas maps onto
+const WORLD_SIZE = 40;
+
+export const loadImageFile = (file: File): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`无法读取图片：${file.name}`));
+    };
+    img.src = url;
+  });
+};
+
+// Rasterize the image at sampling resolution and return its pixels
+export const getImagePixels = (image: CanvasImageSource & { width: number; height: number }): ImageData => {
+  const scale = SAMPLE_RESOLUTION / Math.max(image.width, image.height);
+  const w = Math.max(1, Math.round(image.width * scale));
+  const h = Math.max(1, Math.round(image.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.drawImage(image, 0, 0, w, h);
+  return ctx.getImageData(0, 0, w, h);
+};
+
+// Importance-sample points from pixels: each pixel's chance is proportional to its
+// weight (luminance or alpha above threshold). Every point carries its pixel's color.
+export const sampleImagePixels = (
+  pixels: ImageData,
+  options: ImageSampleOptions,
+  random: RandomSource = Math.random
+): ImageSampleResult => {
+  const { width, height, data } = pixels;
+  const { sampleCount, threshold, invert, weightBy, depth } = options;
+
+  // 1. Per-pixel weights + cumulative distribution
+  const cdf = new Float32Array(width * height);
+  const brightness = new Float32Array(width * height);
+  let total = 0;
+  for (let i = 0; i < width * height; i++) {
+    const r = data[i * 4] / 255;
+    const g = data[i * 4 + 1] / 255;
+    const b = data[i * 4 + 2] / 255;
+    const a = data[i * 4 + 3] / 255;
+    const lum = (0.2126 * r + 0.7152 * g + 0.0722 * b) * a;
+    brightness[i] = lum;
+
+    let w = weightBy === 'alpha' ? a : lum;
+    if (invert) w = weightBy === 'alpha' ? 1 - a : (1 - lum) * a;
+    if (w < threshold) w = 0;
+
+    total += w;
+    cdf[i] = total;
+  }
+
+  const points: Point3D[] = [];
+  const colors = new Float32Array(total > 0 ? sampleCount * 3 : 0);
+  if (total <= 0) return { points, colors };
+
+  // 2. Fit the image into the world frame, preserving aspect ratio
+  const unit = WORLD_SIZE / Math.max(width, height);
+  const halfW = (width * unit) / 2;
+  const halfH = (height * unit) / 2;
+
+  // 3. Draw samples by binary search over the CDF
+  for (let n = 0; n < sampleCount; n++) {
+    const target = random() * total;
+    let lo = 0, hi = cdf.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cdf[mid] < target) lo = mid + 1; else hi = mid;
+    }
+
+    const px = lo % width;
+    const py = Math.floor(lo / width);
+    // Jitter inside the pixel so dense areas don't form a visible grid
+    const x = (px + random()) * unit - halfW;
+    const y = -((py + random()) * unit - halfH);
+    // Extrude: bright pixels come forward, with a little noise for volume
+    const z = (brightness[lo] - 0.5) * depth + (random() - 0.5) * 0.5;
+    points.push({ x, y, z });
+
+    colors[n * 3] = data[lo * 4] / 255;
+    colors[n * 3 + 1] = data[lo * 4 + 1] / 255;
+    colors[n * 3 + 2] = data[lo * 4 + 2] / 255;
+  }
+
+  return { points, colors };
+};
@@ -0,0 +1,403 @@
+import * as THREE from 'three';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import { Point3D } from '../types';
+import { RandomSource } from './random';
+
+export type ModelSampleMode = 'surface' | 'volume';
+
+export interface ModelSampleOptions {
+  sampleCount: number; // Points to produce (point clouds are decimated down to this)
+  mode: ModelSampleMode;
+  useColors: boolean; // Vertex colors / base color texture drive particle colors
+}
+
+export interface ModelSampleResult {
+  points: Point3D[];
+  colors: Float32Array | null; // sRGB 0 - 1, 3 floats per point
+}
+
+export interface ModelStats {
+  triangles: number;
+  vertices: number;
+  isPointCloud: boolean;
+  hasColors: boolean;
+}
+
+// Longest side after normalization, same scale as the SPHERE shape's 24-unit diameter
+const TARGET_EXTENT = 24;
+const RAY_GRID = 64; // Cells per side of the y / z grid that bins triangles for inside tests
+const VOLUME_ATTEMPTS = 50; // Candidate points per requested point before giving up
+
+// One triangle soup (world-space, non-indexed) with optional color sources
+export interface MeshSource {
+  positions: Float32Array;
+  colors: Float32Array | null; // Linear vertex colors
+  uvs: Float32Array | null;
+  texture: { data: ImageData; flipY: boolean } | null;
+  isPoints: boolean;
+}
+
+export interface LoadedModel {
+  sources: MeshSource[];
+  stats: ModelStats;
+}
+
+export const SUPPORTED_MODEL_EXTENSIONS = ['.obj', '.gltf', '.glb', '.ply'];
+
+const getExtension = (name: string) => name.slice(name.lastIndexOf('.')).toLowerCase();
+
+// Read a texture's pixels once so it can be sampled per point
+const readTexture = (texture: any): { data: ImageData; flipY: boolean } | null => {
+  const image = texture?.image;
+  if (!image || !image.width || !image.height) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(image, 0, 0);
+  return { data: ctx.getImageData(0, 0, image.width, image.height), flipY: texture.flipY !== false };
+};
+
+const collectSources = (root: any): MeshSource[] => {
+  const sources: MeshSource[] = [];
+  root.updateMatrixWorld(true);
+
+  root.traverse((object: any) => {
+    if (!(object.isMesh || object.isPoints) || !object.geometry) return;
+
+    let geometry = object.geometry.clone();
+    geometry.applyMatrix4(object.matrixWorld);
+    if (object.isMesh && geometry.index) geometry = geometry.toNonIndexed();
+
+    const material = Array.isArray(object.material) ? object.material[0] : object.material;
+    sources.push({
+      positions: geometry.attributes.position.array as Float32Array,
+      colors: geometry.attributes.color ? toFloat3(geometry.attributes.color) : null,
+      uvs: geometry.attributes.uv ? (geometry.attributes.uv.array as Float32Array) : null,
+      texture: material?.map ? readTexture(material.map) : null,
+      isPoints: !!object.isPoints
+    });
+  });
+
+  return sources;
+};
+
+// Color attributes may be normalized integers and/or RGBA; flatten to linear RGB floats
+const toFloat3 = (attr: any): Float32Array => {
+  const out = new Float32Array(attr.count * 3);
+  for (let i = 0; i < attr.count; i++) {
+    out[i * 3] = attr.getX(i);
+    out[i * 3 + 1] = attr.getY(i);
+    out[i * 3 + 2] = attr.getZ(i);
+  }
+  return out;
+};
+
+export const loadModelFile = async (file: File): Promise<LoadedModel> => {
+  const ext = getExtension(file.name);
+  let root: any;
+
+  if (ext === '.obj') {
+    root = new OBJLoader().parse(await file.text());
+  } else if (ext === '.gltf' || ext === '.glb') {
+    // Single-file only: .glb or .gltf with embedded buffers / textures
+    const gltf = await new GLTFLoader().parseAsync(await file.arrayBuffer(), '');
+    root = gltf.scene;
+  } else if (ext === '.ply') {
+    const geometry = new PLYLoader().parse(await file.arrayBuffer());
+    // PLY without faces is a point cloud
+    root = geometry.index
+      ? new THREE.Mesh(geometry)
+      : new THREE.Points(geometry);
+  } else {
+    throw new Error(`不支持的模型格式：${ext}（支持 ${SUPPORTED_MODEL_EXTENSIONS.join(' / ')}）`);
+  }
+
+  const sources = collectSources(root);
+  if (sources.length === 0) throw new Error('模型中没有可用的网格或点云');
+
+  let triangles = 0;
+  let vertices = 0;
+  sources.forEach(s => {
+    vertices += s.positions.length / 3;
+    if (!s.isPoints) triangles += s.positions.length / 9;
+  });
+
+  return {
+    sources,
+    stats: {
+      triangles,
+      vertices,
+      isPointCloud: triangles === 0,
+      hasColors: sources.some(s => s.colors !== null || s.texture !== null)
+    }
+  };
+};
+
+const tempColor = new THREE.Color();
+const srgb = { r: 0, g: 0, b: 0 };
+
+// Write one sRGB color for a point given its source + barycentric vertex weights
+const writeColor = (
+  out: Float32Array, n: number, source: MeshSource,
+  i0: number, i1: number, i2: number, u: number, v: number, w: number
+) => {
+  if (source.texture && source.uvs) {
+    const tu = source.uvs[i0 * 2] * u + source.uvs[i1 * 2] * v + source.uvs[i2 * 2] * w;
+    const tv = source.uvs[i0 * 2 + 1] * u + source.uvs[i1 * 2 + 1] * v + source.uvs[i2 * 2 + 1] * w;
+    const { data, flipY } = source.texture;
+    const fu = tu - Math.floor(tu); // Repeat wrapping
+    const fv = tv - Math.floor(tv);
+    const px = Math.min(data.width - 1, Math.floor(fu * data.width));
+    const py = Math.min(data.height - 1, Math.floor((flipY ? 1 - fv : fv) * data.height));
+    const p = (py * data.width + px) * 4;
+    out[n * 3] = data.data[p] / 255;
+    out[n * 3 + 1] = data.data[p + 1] / 255;
+    out[n * 3 + 2] = data.data[p + 2] / 255;
+    return;
+  }
+  if (source.colors) {
+    const c = source.colors;
+    tempColor.setRGB(
+      c[i0 * 3] * u + c[i1 * 3] * v + c[i2 * 3] * w,
+      c[i0 * 3 + 1] * u + c[i1 * 3 + 1] * v + c[i2 * 3 + 1] * w,
+      c[i0 * 3 + 2] * u + c[i1 * 3 + 2] * v + c[i2 * 3 + 2] * w,
+      THREE.LinearSRGBColorSpace
+    );
+    tempColor.getRGB(srgb, THREE.SRGBColorSpace);
+    out[n * 3] = srgb.r;
+    out[n * 3 + 1] = srgb.g;
+    out[n * 3 + 2] = srgb.b;
+    return;
+  }
+  out[n * 3] = out[n * 3 + 1] = out[n * 3 + 2] = 1;
+};
+
+// Area-weighted uniform sampling over all triangles
+const sampleSurface = (
+  sources: MeshSource[], count: number, colors: Float32Array | null, random: RandomSource
+): Point3D[] => {
+  const tris: { source: MeshSource; index: number }[] = [];
+  const cdf: number[] = [];
+  let total = 0;
+  const a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3();
+
+  sources.filter(s => !s.isPoints).forEach(source => {
+    const pos = source.positions;
+    for (let t = 0; t < pos.length / 9; t++) {
+      a.fromArray(pos, t * 9);
+      b.fromArray(pos, t * 9 + 3);
+      c.fromArray(pos, t * 9 + 6);
+      const area = b.sub(a).cross(c.sub(a)).length() * 0.5;
+      if (area <= 0) continue;
+      total += area;
+      tris.push({ source, index: t });
+      cdf.push(total);
+    }
+  });
+
+  const points: Point3D[] = [];
+  if (total <= 0) return points;
+
+  for (let n = 0; n < count; n++) {
+    const r = random() * total;
+    let lo = 0, hi = cdf.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cdf[mid] < r) lo = mid + 1; else hi = mid;
+    }
+    const { source, index } = tris[lo];
+
+    // Uniform barycentric coordinates
+    let u = random(), v = random();
+    if (u + v > 1) { u = 1 - u; v = 1 - v; }
+    const w = 1 - u - v;
+
+    const p = source.positions;
+    const o = index * 9;
+    points.push({
+      x: p[o] * w + p[o + 3] * u + p[o + 6] * v,
+      y: p[o + 1] * w + p[o + 4] * u + p[o + 7] * v,
+      z: p[o + 2] * w + p[o + 5] * u + p[o + 8] * v
+    });
+    if (colors) writeColor(colors, n, source, index * 3, index * 3 + 1, index * 3 + 2, w, u, v);
+  }
+  return points;
+};
+
+// Point clouds: keep every point if there are few, otherwise a uniform random subset
+const samplePointCloud = (
+  sources: MeshSource[], count: number, colors: Float32Array | null, random: RandomSource
+): Point3D[] => {
+  const all: { source: MeshSource; index: number }[] = [];
+  sources.forEach(source => {
+    for (let i = 0; i < source.positions.length / 3; i++) all.push({ source, index: i });
+  });
+
+  // Partial Fisher-Yates shuffle picks `take` distinct points
+  const take = Math.min(count, all.length);
+  for (let i = 0; i < take; i++) {
+    const j = i + Math.floor(random() * (all.length - i));
+    const tmp = all[i]; all[i] = all[j]; all[j] = tmp;
+  }
+
+  const points: Point3D[] = [];
+  for (let n = 0; n < take; n++) {
+    const { source, index } = all[n];
+    const p = source.positions;
+    points.push({ x: p[index * 3], y: p[index * 3 + 1], z: p[index * 3 + 2] });
+    if (colors) writeColor(colors, n, source, index, index, index, 1, 0, 0);
+  }
+  return points;
+};
+
+interface TriangleRef {
+  source: MeshSource;
+  index: number;
+}
+
+// Triangles binned by their y / z extent, so a ray along +x only tests its own cell
+interface RayGrid {
+  min: THREE.Vector3;
+  max: THREE.Vector3;
+  cellY: number;
+  cellZ: number;
+  cells: TriangleRef[][];
+}
+
+const buildRayGrid = (sources: MeshSource[]): RayGrid => {
+  const min = new THREE.Vector3(Infinity, Infinity, Infinity);
+  const max = new THREE.Vector3(-Infinity, -Infinity, -Infinity);
+  const meshes = sources.filter(s => !s.isPoints);
+  meshes.forEach(({ positions }) => {
+    for (let i = 0; i < positions.length; i += 3) {
+      min.x = Math.min(min.x, positions[i]); max.x = Math.max(max.x, positions[i]);
+      min.y = Math.min(min.y, positions[i + 1]); max.y = Math.max(max.y, positions[i + 1]);
+      min.z = Math.min(min.z, positions[i + 2]); max.z = Math.max(max.z, positions[i + 2]);
+    }
+  });
+
+  const cellY = (max.y - min.y) / RAY_GRID || 1;
+  const cellZ = (max.z - min.z) / RAY_GRID || 1;
+  const cellOf = (v: number, lo: number, size: number) => Math.min(Math.max(Math.floor((v - lo) / size), 0), RAY_GRID - 1);
+  const cells: TriangleRef[][] = Array.from({ length: RAY_GRID * RAY_GRID }, () => []);
+
+  meshes.forEach(source => {
+    const p = source.positions;
+    for (let index = 0; index < p.length / 9; index++) {
+      const o = index * 9;
+      const y0 = cellOf(Math.min(p[o + 1], p[o + 4], p[o + 7]), min.y, cellY);
+      const y1 = cellOf(Math.max(p[o + 1], p[o + 4], p[o + 7]), min.y, cellY);
+      const z0 = cellOf(Math.min(p[o + 2], p[o + 5], p[o + 8]), min.z, cellZ);
+      const z1 = cellOf(Math.max(p[o + 2], p[o + 5], p[o + 8]), min.z, cellZ);
+      for (let cy = y0; cy <= y1; cy++) {
+        for (let cz = z0; cz <= z1; cz++) cells[cy * RAY_GRID + cz].push({ source, index });
+      }
+    }
+  });
+
+  return { min, max, cellY, cellZ, cells };
+};
+
+interface RayHit extends TriangleRef {
+  x: number;
+  weights: [number, number, number]; // Barycentric weights of the triangle's vertices
+}
+
+// Cast a ray from (x, y, z) along +x. An odd number of crossings means the point is
+// inside a closed mesh (nested or overlapping shells alternate). Also returns the
+// nearest surface the ray meets, which gives interior points their color.
+const castRay = (grid: RayGrid, x: number, y: number, z: number): { crossings: number; hit: RayHit | null } => {
+  const row = Math.min(Math.max(Math.floor((y - grid.min.y) / grid.cellY), 0), RAY_GRID - 1);
+  const col = Math.min(Math.max(Math.floor((z - grid.min.z) / grid.cellZ), 0), RAY_GRID - 1);
+  let crossings = 0;
+  let hit: RayHit | null = null;
+
+  for (const { source, index } of grid.cells[row * RAY_GRID + col]) {
+    const p = source.positions;
+    const o = index * 9;
+    // Where the ray's (y, z) lies in the triangle projected onto the y / z plane
+    const by = p[o + 4] - p[o + 1], bz = p[o + 5] - p[o + 2];
+    const cy = p[o + 7] - p[o + 1], cz = p[o + 8] - p[o + 2];
+    const det = by * cz - cy * bz;
+    if (det === 0) continue;
+    const dy = y - p[o + 1], dz = z - p[o + 2];
+    const v = (dy * cz - cy * dz) / det;
+    const w = (by * dz - dy * bz) / det;
+    const u = 1 - v - w;
+    if (u < 0 || v < 0 || w < 0) continue;
+
+    const hx = p[o] * u + p[o + 3] * v + p[o + 6] * w;
+    if (hx <= x) continue;
+    crossings++;
+    if (!hit || hx < hit.x) hit = { source, index, x: hx, weights: [u, v, w] };
+  }
+  return { crossings, hit };
+};
+
+// Uniform points inside the mesh: rejection sampling in its bounding box with a ray
+// parity inside test. Only closed meshes have a well-defined inside; when too few
+// candidates pass (flat or open meshes) the remaining points come from the surface.
+const sampleVolume = (
+  sources: MeshSource[], count: number, colors: Float32Array | null, random: RandomSource
+): Point3D[] => {
+  const grid = buildRayGrid(sources);
+  const { min, max } = grid;
+  const points: Point3D[] = [];
+
+  for (let attempts = 0; points.length < count && attempts < count * VOLUME_ATTEMPTS; attempts++) {
+    const x = min.x + random() * (max.x - min.x);
+    const y = min.y + random() * (max.y - min.y);
+    const z = min.z + random() * (max.z - min.z);
+    const { crossings, hit } = castRay(grid, x, y, z);
+    if (crossings % 2 === 0 || !hit) continue;
+
+    if (colors) {
+      const i = hit.index * 3;
+      writeColor(colors, points.length, hit.source, i, i + 1, i + 2, ...hit.weights);
+    }
+    points.push({ x, y, z });
+  }
+
+  if (points.length < count) {
+    const rest = sampleSurface(sources, count - points.length, colors && colors.subarray(points.length * 3), random);
+    points.push(...rest);
+  }
+  return points;
+};
+
+// Center on the bounding box and scale the longest side to TARGET_EXTENT
+const normalizePoints = (points: Point3D[]) => {
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  points.forEach(p => {
+    min.x = Math.min(min.x, p.x); max.x = Math.max(max.x, p.x);
+    min.y = Math.min(min.y, p.y); max.y = Math.max(max.y, p.y);
+    min.z = Math.min(min.z, p.z); max.z = Math.max(max.z, p.z);
+  });
+  const extent = Math.max(max.x - min.x, max.y - min.y, max.z - min.z) || 1;
+  const scale = TARGET_EXTENT / extent;
+  const cx = (min.x + max.x) / 2, cy = (min.y + max.y) / 2, cz = (min.z + max.z) / 2;
+  points.forEach(p => {
+    p.x = (p.x - cx) * scale;
+    p.y = (p.y - cy) * scale;
+    p.z = (p.z - cz) * scale;
+  });
+};
+
+export const sampleModel = (model: LoadedModel, options: ModelSampleOptions, random: RandomSource): ModelSampleResult => {
+  const { sampleCount, mode, useColors } = options;
+  const colors = useColors && model.stats.hasColors ? new Float32Array(sampleCount * 3) : null;
+
+  let points: Point3D[];
+  if (model.stats.isPointCloud) points = samplePointCloud(model.sources, sampleCount, colors, random);
+  else if (mode === 'volume') points = sampleVolume(model.sources, sampleCount, colors, random);
+  else points = sampleSurface(model.sources, sampleCount, colors, random);
+
+  normalizePoints(points);
+
+  return { points, colors: colors ? colors.subarray(0, points.length * 3) : null };
+};
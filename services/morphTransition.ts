@@ -0,0 +1,182 @@
+import { TransitionConfig, TransitionEasing, TransitionMatching, TransitionWave } from '../types';
+import { RandomSource } from './random';
+
+export const DEFAULT_TRANSITION_CONFIG: TransitionConfig = {
+  duration: 1200,
+  easing: TransitionEasing.EASE_IN_OUT_CUBIC,
+  wave: TransitionWave.NONE,
+  stagger: 0.4,
+  matching: TransitionMatching.SPATIAL
+};
+
+export const MAX_TRANSITION_DURATION = 4000; // ms, end of the duration slider
+
+// Validate a partial TransitionConfig from untrusted JSON: numbers are clamped to
+// their slider ranges, null if any present field has the wrong type or an unknown value
+export const parseTransitionPatch = (value: unknown): Partial<TransitionConfig> | null => {
+  if (!value || typeof value !== 'object') return null;
+  const v = value as Record<string, unknown>;
+  const patch: Partial<TransitionConfig> = {};
+  if (v.duration !== undefined) {
+    if (typeof v.duration !== 'number' || !Number.isFinite(v.duration)) return null;
+    patch.duration = Math.min(Math.max(v.duration, 0), MAX_TRANSITION_DURATION);
+  }
+  if (v.easing !== undefined) {
+    if (!(Object.values(TransitionEasing) as unknown[]).includes(v.easing)) return null;
+    patch.easing = v.easing as TransitionEasing;
+  }
+  if (v.wave !== undefined) {
+    if (!(Object.values(TransitionWave) as unknown[]).includes(v.wave)) return null;
+    patch.wave = v.wave as TransitionWave;
+  }
+  if (v.stagger !== undefined) {
+    if (typeof v.stagger !== 'number' || !Number.isFinite(v.stagger)) return null;
+    patch.stagger = Math.min(Math.max(v.stagger, 0), 0.9);
+  }
+  if (v.matching !== undefined) {
+    if (!(Object.values(TransitionMatching) as unknown[]).includes(v.matching)) return null;
+    patch.matching = v.matching as TransitionMatching;
+  }
+  return patch;
+};
+
+export const EASINGS: Record<TransitionEasing, (t: number) => number> = {
+  [TransitionEasing.LINEAR]: t => t,
+  [TransitionEasing.EASE_IN_OUT_SINE]: t => -(Math.cos(Math.PI * t) - 1) / 2,
+  [TransitionEasing.EASE_IN_OUT_CUBIC]: t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  [TransitionEasing.EASE_OUT_EXPO]: t => (t >= 1 ? 1 : 1 - Math.pow(2, -10 * t)),
+  [TransitionEasing.EASE_OUT_BACK]: t => {
+    const c1 = 1.70158;
+    const c3 = c1 + 1;
+    return 1 + c3 * Math.pow(t - 1, 3) + c1 * Math.pow(t - 1, 2);
+  }
+};
+
+// Spread the lower 10 bits of v so two zero bits separate each bit (for Morton codes)
+const part1By2 = (v: number) => {
+  v &= 0x3ff;
+  v = (v | (v << 16)) & 0x030000ff;
+  v = (v | (v << 8)) & 0x0300f00f;
+  v = (v | (v << 4)) & 0x030c30c3;
+  v = (v | (v << 2)) & 0x09249249;
+  return v;
+};
+
+interface Bounds {
+  min: [number, number, number];
+  size: [number, number, number];
+}
+
+// Bounds over the first `count` points of each array
+const computeBounds = (arrays: [Float32Array, number][]): Bounds => {
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+  arrays.forEach(([arr, count]) => {
+    for (let i = 0; i < count; i++) {
+      for (let a = 0; a < 3; a++) {
+        const v = arr[i * 3 + a];
+        if (v < min[a]) min[a] = v;
+        if (v > max[a]) max[a] = v;
+      }
+    }
+  });
+  for (let a = 0; a < 3; a++) {
+    if (!isFinite(min[a])) { min[a] = 0; max[a] = 1; }
+  }
+  return { min, size: [max[0] - min[0] || 1, max[1] - min[1] || 1, max[2] - min[2] || 1] };
+};
+
+const INDEX_SPACE = 2 ** 19; // Room for the slot index below the key (512 x 512 GPU buffer fits)
+
+// Integer sort key of every slot, packed as key * INDEX_SPACE + index so a plain numeric
+// typed-array sort orders by key and still recovers the slot (exact below 2^53).
+// SPATIAL uses a Z-order (Morton) curve, which keeps points close in all three axes close
+// in the ordering; AXIS orders along x with y / z as tie breakers.
+const sortedSlots = (arr: Float32Array, count: number, bounds: Bounds, matching: TransitionMatching): Float64Array => {
+  const packed = new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    const qx = Math.floor(Math.min(Math.max((arr[i * 3] - bounds.min[0]) / bounds.size[0], 0), 1) * 1023);
+    const qy = Math.floor(Math.min(Math.max((arr[i * 3 + 1] - bounds.min[1]) / bounds.size[1], 0), 1) * 1023);
+    const qz = Math.floor(Math.min(Math.max((arr[i * 3 + 2] - bounds.min[2]) / bounds.size[2], 0), 1) * 1023);
+    const key = matching === TransitionMatching.AXIS
+      ? qx * 1048576 + qy * 1024 + qz
+      : ((part1By2(qx) << 2) | (part1By2(qy) << 1) | part1By2(qz)) >>> 0;
+    packed[i] = key * INDEX_SPACE + i;
+  }
+  return packed.sort();
+};
+
+// Returns `order` (one entry per target) where slot i should take new target order[i].
+// The first `particleCount` slots are live particles; both sets are sorted by the same
+// spatial key and paired by rank, so neighbouring particles travel to neighbouring
+// destinations instead of crossing the whole shape. When there are more targets than
+// particles the live ones spread evenly over them, and the remaining targets go to the
+// slots from `particleCount` on, in spatial order.
+export const computeCorrespondence = (
+  positions: Float32Array,
+  particleCount: number,
+  targets: Float32Array,
+  targetCount: number,
+  matching: TransitionMatching
+): Int32Array => {
+  const order = new Int32Array(targetCount);
+  for (let i = 0; i < targetCount; i++) order[i] = i;
+  const matched = Math.min(particleCount, targetCount);
+  if (matching === TransitionMatching.RANDOM || matched === 0) return order;
+
+  const bounds = computeBounds([[positions, matched], [targets, targetCount]]);
+  const particles = sortedSlots(positions, matched, bounds, matching);
+  const destinations = sortedSlots(targets, targetCount, bounds, matching);
+
+  const taken = new Uint8Array(targetCount);
+  for (let k = 0; k < matched; k++) {
+    const rank = Math.floor(k * targetCount / matched);
+    order[particles[k] % INDEX_SPACE] = destinations[rank] % INDEX_SPACE;
+    taken[rank] = 1;
+  }
+  let slot = matched;
+  for (let rank = 0; rank < targetCount; rank++) {
+    if (!taken[rank]) order[slot++] = destinations[rank] % INDEX_SPACE;
+  }
+  return order;
+};
+
+// Per-particle start delay in 0 - 1, from the destination position
+export const computeWaveDelays = (
+  targets: Float32Array,
+  count: number,
+  wave: TransitionWave,
+  random: RandomSource = Math.random
+): Float32Array => {
+  const delays = new Float32Array(count);
+  if (wave === TransitionWave.NONE) return delays;
+
+  if (wave === TransitionWave.RANDOM) {
+    for (let i = 0; i < count; i++) delays[i] = random();
+    return delays;
+  }
+
+  const bounds = computeBounds([[targets, count]]);
+  let maxRadius = 0;
+  if (wave === TransitionWave.RADIAL) {
+    for (let i = 0; i < count; i++) {
+      maxRadius = Math.max(maxRadius, Math.hypot(targets[i * 3], targets[i * 3 + 1], targets[i * 3 + 2]));
+    }
+  }
+
+  for (let i = 0; i < count; i++) {
+    switch (wave) {
+      case TransitionWave.RADIAL:
+        delays[i] = Math.hypot(targets[i * 3], targets[i * 3 + 1], targets[i * 3 + 2]) / (maxRadius || 1);
+        break;
+      case TransitionWave.AXIS_X:
+        delays[i] = (targets[i * 3] - bounds.min[0]) / bounds.size[0];
+        break;
+      case TransitionWave.AXIS_Y:
+        // Top to bottom
+        delays[i] = 1 - (targets[i * 3 + 1] - bounds.min[1]) / bounds.size[1];
+        break;
+    }
+  }
+  return delays;
+};
@@ -0,0 +1,185 @@
+import { ColorMode, ColorSpec, GradientStop } from '../types';
+
+// Gradient palettes for the particle color modes. The gradient is baked into a
+// PALETTE_SIZE x 1 texture that the particle shader samples (see particleMaterial).
+
+export const PALETTE_SIZE = 256;
+
+export const PALETTE_PRESETS: { name: string; stops: GradientStop[] }[] = [
+  {
+    name: '霓虹',
+    stops: [
+      { offset: 0, color: '#ff00cc' },
+      { offset: 0.5, color: '#6366f1' },
+      { offset: 1, color: '#00ffcc' }
+    ]
+  },
+  {
+    name: '彩虹',
+    stops: [
+      { offset: 0, color: '#ff0000' },
+      { offset: 0.17, color: '#ffff00' },
+      { offset: 0.33, color: '#00ff00' },
+      { offset: 0.5, color: '#00ffff' },
+      { offset: 0.67, color: '#0000ff' },
+      { offset: 0.83, color: '#ff00ff' },
+      { offset: 1, color: '#ff0000' }
+    ]
+  },
+  {
+    name: '火焰',
+    stops: [
+      { offset: 0, color: '#ff2200' },
+      { offset: 0.5, color: '#ff8800' },
+      { offset: 1, color: '#ffee88' }
+    ]
+  },
+  {
+    name: '海洋',
+    stops: [
+      { offset: 0, color: '#0033ff' },
+      { offset: 0.5, color: '#00ccff' },
+      { offset: 1, color: '#aaffff' }
+    ]
+  }
+];
+
+export const DEFAULT_COLOR_SPEC: ColorSpec = {
+  mode: ColorMode.SOLID,
+  solid: '#6366f1', // Indigo-500
+  gradient: PALETTE_PRESETS[0].stops,
+  cycleSpeed: 0.1
+};
+
+// Modes whose colors come from the gradient
+export const usesGradient = (mode: ColorMode) => mode !== ColorMode.SOLID && mode !== ColorMode.RANDOM;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export const isHexColor = (value: unknown): value is string => typeof value === 'string' && HEX_COLOR.test(value);
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+const rgbToHex = (rgb: [number, number, number]) =>
+  '#' + rgb.map(c => Math.round(c).toString(16).padStart(2, '0')).join('');
+
+const sortedStops = (stops: GradientStop[]) => [...stops].sort((a, b) => a.offset - b.offset);
+
+// sRGB color (0 - 255) at `t`, interpolated like a CSS linear-gradient
+export const sampleGradient = (stops: GradientStop[], t: number): [number, number, number] => {
+  const sorted = sortedStops(stops);
+  if (sorted.length === 0) return [255, 255, 255];
+  if (t <= sorted[0].offset) return hexToRgb(sorted[0].color);
+
+  for (let i = 1; i < sorted.length; i++) {
+    const b = sorted[i];
+    if (t <= b.offset) {
+      const a = sorted[i - 1];
+      const k = b.offset > a.offset ? (t - a.offset) / (b.offset - a.offset) : 1;
+      const ca = hexToRgb(a.color);
+      const cb = hexToRgb(b.color);
+      return [ca[0] + (cb[0] - ca[0]) * k, ca[1] + (cb[1] - ca[1]) * k, ca[2] + (cb[2] - ca[2]) * k];
+    }
+  }
+  return hexToRgb(sorted[sorted.length - 1].color);
+};
+
+export const sampleGradientHex = (stops: GradientStop[], t: number) => rgbToHex(sampleGradient(stops, t));
+
+// Bake the gradient into RGBA8 texels (sRGB, opaque)
+export const fillPalette = (data: Uint8Array, stops: GradientStop[]) => {
+  const size = data.length / 4;
+  for (let i = 0; i < size; i++) {
+    const [r, g, b] = sampleGradient(stops, size > 1 ? i / (size - 1) : 0);
+    data[i * 4] = Math.round(r);
+    data[i * 4 + 1] = Math.round(g);
+    data[i * 4 + 2] = Math.round(b);
+    data[i * 4 + 3] = 255;
+  }
+};
+
+// CSS preview of the gradient, left to right
+export const gradientCss = (stops: GradientStop[]) =>
+  `linear-gradient(to right, ${sortedStops(stops).map(s => `${s.color} ${(s.offset * 100).toFixed(1)}%`).join(', ')})`;
+
+const parseStops = (value: unknown): GradientStop[] | null => {
+  if (!Array.isArray(value) || value.length < 2) return null;
+  const stops: GradientStop[] = [];
+  for (const s of value) {
+    if (!s || typeof s !== 'object' || !Number.isFinite(s.offset) || !isHexColor(s.color)) return null;
+    stops.push({ offset: Math.min(Math.max(s.offset, 0), 1), color: s.color });
+  }
+  return stops;
+};
+
+// Partial spec from untrusted JSON; null when any given field is invalid. The old
+// string form ('#rrggbb' or 'MULTICOLOR') is still accepted.
+export const parseColorPatch = (value: unknown): Partial<ColorSpec> | null => {
+  if (value === 'MULTICOLOR') return { mode: ColorMode.RANDOM };
+  if (isHexColor(value)) return { mode: ColorMode.SOLID, solid: value };
+  if (!value || typeof value !== 'object') return null;
+
+  const v = value as Record<string, unknown>;
+  const patch: Partial<ColorSpec> = {};
+  if (v.mode !== undefined) {
+    if (!(Object.values(ColorMode) as unknown[]).includes(v.mode)) return null;
+    patch.mode = v.mode as ColorMode;
+  }
+  if (v.solid !== undefined) {
+    if (!isHexColor(v.solid)) return null;
+    patch.solid = v.solid;
+  }
+  if (v.gradient !== undefined) {
+    const stops = parseStops(v.gradient);
+    if (!stops) return null;
+    patch.gradient = stops;
+  }
+  if (v.cycleSpeed !== undefined) {
+    if (typeof v.cycleSpeed !== 'number' || !Number.isFinite(v.cycleSpeed)) return null;
+    patch.cycleSpeed = Math.min(Math.max(v.cycleSpeed, -2), 2);
+  }
+  return patch;
+};
+
+// Complete spec from stored JSON, falling back on anything unusable
+export const normalizeColorSpec = (value: unknown, fallback: ColorSpec): ColorSpec => ({
+  ...fallback,
+  ...parseColorPatch(value)
+});
+
+// Range of the per-particle value that spans the gradient, for the current targets
+export const paletteRange = (
+  mode: ColorMode,
+  targets: Float32Array,
+  count: number,
+  forceRadius: number
+): [number, number] => {
+  switch (mode) {
+    case ColorMode.HEIGHT: {
+      let min = Infinity, max = -Infinity;
+      for (let i = 0; i < count; i++) {
+        const y = targets[i * 3 + 1];
+        if (y < min) min = y;
+        if (y > max) max = y;
+      }
+      return count > 0 ? [min, max] : [0, 1];
+    }
+    case ColorMode.VELOCITY:
+      return [0, 1.5]; // World units per frame
+    case ColorMode.HAND_DISTANCE:
+      return [0, forceRadius * 2];
+    case ColorMode.SHAPE:
+      return [0, 1];
+    default: {
+      // RADIAL and HUE_CYCLE: distance from the origin
+      let max = 0;
+      for (let i = 0; i < count; i++) {
+        max = Math.max(max, Math.hypot(targets[i * 3], targets[i * 3 + 1], targets[i * 3 + 2]));
+      }
+      return [0, max > 0 ? max : 1];
+    }
+  }
+};
@@ -1,40 +1,111 @@
 
 import * as THREE from 'three';
-import { ParticleConfig, ShapeType, Point3D } from '../types';
-
-const MAX_PARTICLES = 25000;
+import {
+  ParticleConfig, ShapeType, Point3D, HandData, ForceMode, TransitionEasing, TransitionWave, TransitionState, ColorMode,
+  CameraSettings
+} from '../types';
+import { GPUParticleSimulation } from './gpuParticles';
+import {
+  DEFAULT_GLOW, DEFAULT_PARTICLE_SIZE, DEFAULT_TWINKLE, colorSourceFor, createPaletteTexture, createParticleMaterial,
+  createParticleSprite, writePalette
+} from './particleMaterial';
+import { DEFAULT_COLOR_SPEC, paletteRange } from './palette';
+import { AudioModulation } from './audioAnalysis';
+import { ParticleLifecycle } from './particleLifecycle';
+import { DEFAULT_EFFECTS_CONFIG, EffectsQuality, PostProcessingPipeline } from './postProcessing';
+import { CameraRig } from './cameraRig';
+import {
+  HandForcePoint, ParticleSimulation, SimulationStepParams, handStrength, opennessToStepParams
+} from './particleSimulation';
+import { DEFAULT_TEXT_OPTIONS, sampleText } from './textSampler';
+import { DEFAULT_SEED, RandomSource, createRandom, deriveSeed } from './random';
+import {
+  generateShapeTargets, generateScatter, generateStardust, generateBrightStars
+} from './shapeGenerators';
+import { DEFAULT_TRANSITION_CONFIG, EASINGS, computeCorrespondence, computeWaveDelays } from './morphTransition';
+
+const MAX_PARTICLES = 25000; // CPU simulation cap
+const GPU_TEXTURE_SIZE = 512; // GPU simulation: 512 x 512 = 262,144 particles
+// Share of the camera's movement the background layers lag behind (dust, bright stars):
+// they otherwise follow the camera, so zooming out never leaves the star field
+const BG_PARALLAX = [0.15, 0.05];
+
+// 'auto' uses the GPU path when float render targets are available
+export type SimulationMode = 'auto' | 'gpu' | 'cpu';
+
+// Target interpolation between two shapes for the first `count` slots;
+// `to` is already permuted into slot order
+interface Morph {
+  count: number;
+  from: Float32Array;
+  to: Float32Array;
+  delays: Float32Array;
+  startTime: number;
+  state: TransitionState;
+}
 
 export class ParticleEngine {
   scene: THREE.Scene;
   camera: THREE.PerspectiveCamera;
+  cameraRig: CameraRig;
   renderer: THREE.WebGLRenderer;
   
   particles: THREE.Points;
   bgStars: THREE.Group;
   
   geometry: THREE.BufferGeometry;
+  material: THREE.ShaderMaterial;
+  post: PostProcessingPipeline;
+  onEffectsQualityChange?: (quality: EffectsQuality) => void;
   
-  // Data arrays
-  positions: Float32Array;
-  targetPositions: Float32Array;
+  // Data arrays (on the CPU path targets are the simulation's own buffer)
+  simulation: ParticleSimulation | null = null; // CPU path only
+  targetPositions: Float32Array; // The GPU path keeps settled targets here, morph steps run in its shader
   colors: Float32Array;
+  sizes: Float32Array; // Per-particle size multiplier
+  colorParams: Float32Array; // Per slot shape parameter for ColorMode.SHAPE
+  palette: THREE.DataTexture; // Gradient of the current color spec
+  lifecycle: ParticleLifecycle; // Its alpha array is the geometry's alpha attribute
+  lastFrameTime: number = 0;
+  viewSize = new THREE.Vector2(); // Canvas size in CSS pixels
+  pixelRatio: number = 1; // Device pixel ratio the view renders at
+  recordingSize: { width: number; height: number } | null = null; // Frame of a running recording
   
-  // Collision
-  hashTable: Int32Array;
-  nextEntry: Int32Array;
-  hashSize = 16384; // 2^14 for bitwise masking
+  maxParticles: number = MAX_PARTICLES;
+  gpuSim: GPUParticleSimulation | null = null;
+  preferGPU: boolean = false;
 
   // State
   currentConfig: ParticleConfig;
   customShapePoints: Point3D[] = [];
+  customShapeColors: Float32Array | null = null; // sRGB per custom point (image import), 3 floats each
+  textShapePoints: Point3D[] = [];
+  textShapeKey: string = ''; // Options + count the cached text points were sampled with
+
+  // Shape morphing
+  targetOrder: Int32Array; // Slot i holds generated target targetOrder[i] (custom colors follow it)
+  shapeTargets: Float32Array = new Float32Array(0); // Last generated points, in generation order
+  shapeParams: Float32Array = new Float32Array(0); // Their shape parameters
+  morph: Morph | null = null;
+  hasShape: boolean = false; // False until the first shape is generated (no morph from nothing)
+  targetShape: ShapeType = ShapeType.NEBULA; // Shape the targets are heading to
+  onTransitionChange?: (state: TransitionState) => void;
   
-  // Rotation inertia
-  scrollVelocity: number = 0;
+  // Multi-hand interaction
+  formationScale: number = 1;
+  twoHandBaseDist: number | null = null; // Hand distance when the two-hand gesture began
+  handRaycaster = new THREE.Raycaster();
+  handPlane = new THREE.Plane(new THREE.Vector3(0, 0, 1), 0); // Faces the camera through its target
   
   // Lifecycle
   isDisposed: boolean = false;
 
-  constructor(container: HTMLElement, width: number, height: number) {
+  constructor(
+    container: HTMLElement,
+    width: number,
+    height: number,
+    simulation: SimulationMode = 'auto'
+  ) {
     // Prevent multiple canvases
     while (container.firstChild) {
       container.removeChild(container.firstChild);
@@ -44,90 +115,89 @@ export class ParticleEngine {
     // Disable fog for background visibility
     // this.scene.fog = new THREE.FogExp2(0x050505, 0.02); 
 
-    this.camera = new THREE.PerspectiveCamera(75, width / height, 0.1, 1000);
-    this.camera.position.z = 35;
+    this.camera = new THREE.PerspectiveCamera(75, width / height, 0.1, 2000);
 
     this.renderer = new THREE.WebGLRenderer({ alpha: true, antialias: true });
+    this.viewSize.set(width, height);
+    this.pixelRatio = Math.min(window.devicePixelRatio, 2);
     this.renderer.setSize(width, height);
-    this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+    this.renderer.setPixelRatio(this.pixelRatio);
     container.appendChild(this.renderer.domElement);
+    this.cameraRig = new CameraRig(this.camera, this.renderer.domElement);
+    this.post = new PostProcessingPipeline(this.renderer, this.scene, this.camera);
+
+    this.preferGPU = simulation === 'gpu'
+      || (simulation === 'auto' && GPUParticleSimulation.isSupported(this.renderer));
 
     // Initialize Particles
     this.currentConfig = {
       density: 0.5,
       spread: 0.5,
-      color: '#00ffff',
-      shape: ShapeType.NEBULA
+      color: DEFAULT_COLOR_SPEC,
+      shape: ShapeType.NEBULA,
+      forceMode: ForceMode.PUSH_PULL,
+      forceRadius: 8,
+      text: DEFAULT_TEXT_OPTIONS,
+      transition: DEFAULT_TRANSITION_CONFIG,
+      seed: DEFAULT_SEED,
+      particleSize: DEFAULT_PARTICLE_SIZE,
+      glow: DEFAULT_GLOW,
+      twinkle: DEFAULT_TWINKLE,
+      effects: DEFAULT_EFFECTS_CONFIG
     };
 
     this.initParticles();
     this.initBackground();
-
-    // Add scroll event listener
-    window.addEventListener('wheel', this.handleScroll, { passive: true });
-  }
-
-  handleScroll = (e: WheelEvent) => {
-      if (this.isDisposed) return;
-      const sensitivity = 0.0005;
-      this.scrollVelocity += Math.abs(e.deltaY) * sensitivity;
-      if (this.scrollVelocity > 0.3) {
-          this.scrollVelocity = 0.3;
-      }
   }
 
   initParticles() {
-    this.geometry = new THREE.BufferGeometry();
-    this.positions = new Float32Array(MAX_PARTICLES * 3);
-    this.targetPositions = new Float32Array(MAX_PARTICLES * 3);
-    this.colors = new Float32Array(MAX_PARTICLES * 3);
-
-    // Initialize collision spatial hash arrays
-    this.hashTable = new Int32Array(this.hashSize);
-    this.nextEntry = new Int32Array(MAX_PARTICLES);
-
-    const isMulticolor = this.currentConfig.color === 'MULTICOLOR';
-    const singleColor = new THREE.Color(isMulticolor ? '#ffffff' : this.currentConfig.color);
-    const tempColor = new THREE.Color();
-
-    for (let i = 0; i < MAX_PARTICLES; i++) {
-      this.positions[i * 3] = (Math.random() - 0.5) * 100;
-      this.positions[i * 3 + 1] = (Math.random() - 0.5) * 100;
-      this.positions[i * 3 + 2] = (Math.random() - 0.5) * 100;
-
-      if (isMulticolor) {
-          // Random HSL for multicolor
-          tempColor.setHSL(Math.random(), 1.0, 0.6);
-          this.colors[i * 3] = tempColor.r;
-          this.colors[i * 3 + 1] = tempColor.g;
-          this.colors[i * 3 + 2] = tempColor.b;
-      } else {
-          this.colors[i * 3] = singleColor.r;
-          this.colors[i * 3 + 1] = singleColor.g;
-          this.colors[i * 3 + 2] = singleColor.b;
+    this.maxParticles = this.preferGPU ? GPU_TEXTURE_SIZE * GPU_TEXTURE_SIZE : MAX_PARTICLES;
+    const scatter = generateScatter(this.maxParticles, this.random('scatter'));
+    this.lifecycle = new ParticleLifecycle(this.maxParticles);
+    this.targetOrder = new Int32Array(this.maxParticles);
+    for (let i = 0; i < this.maxParticles; i++) this.targetOrder[i] = i;
+    this.morph = null;
+    this.hasShape = false;
+    this.colors = new Float32Array(this.maxParticles * 3);
+    this.sizes = new Float32Array(this.maxParticles);
+    this.applySizes();
+    this.colorParams = new Float32Array(this.maxParticles);
+
+    if (this.preferGPU) {
+      try {
+        this.gpuSim = new GPUParticleSimulation(this.renderer, GPU_TEXTURE_SIZE, scatter);
+      } catch (e) {
+        console.warn("GPU particle simulation unavailable, falling back to CPU", e);
+        this.preferGPU = false;
+        return this.initParticles();
       }
+      this.simulation = null;
+      this.targetPositions = new Float32Array(this.maxParticles * 3);
+      this.geometry = this.gpuSim.createGeometry();
+    } else {
+      this.simulation = new ParticleSimulation(this.maxParticles, scatter, this.random('physics'));
+      this.targetPositions = this.simulation.targetPositions;
+      this.geometry = new THREE.BufferGeometry();
+      this.geometry.setAttribute('position', new THREE.BufferAttribute(this.simulation.positions, 3));
+      this.geometry.setAttribute('speed', new THREE.BufferAttribute(this.simulation.speeds, 1));
     }
-
-    this.geometry.setAttribute('position', new THREE.BufferAttribute(this.positions, 3));
     this.geometry.setAttribute('color', new THREE.BufferAttribute(this.colors, 3));
-
-    const textureLoader = new THREE.TextureLoader();
-    const sprite = textureLoader.load('https://raw.githubusercontent.com/mrdoob/three.js/master/examples/textures/sprites/spark1.png');
-
-    const material = new THREE.PointsMaterial({
-      size: 0.6,
-      map: sprite,
-      vertexColors: true,
-      blending: THREE.AdditiveBlending,
-      depthWrite: false,
-      transparent: true,
-      opacity: 0.8
-    });
-
-    this.particles = new THREE.Points(this.geometry, material);
+    this.geometry.setAttribute('size', new THREE.BufferAttribute(this.sizes, 1));
+    this.geometry.setAttribute('alpha', new THREE.BufferAttribute(this.lifecycle.alpha, 1));
+    this.geometry.setAttribute('colorParam', new THREE.BufferAttribute(this.colorParams, 1));
+    this.applyColors();
+
+    this.palette = createPaletteTexture(this.currentConfig.color.gradient);
+    this.material = createParticleMaterial(createParticleSprite(), this.palette, this.gpuSim !== null);
+    this.particles = new THREE.Points(this.geometry, this.material);
+    // GPU positions live in a texture, the geometry's bounds are meaningless
+    if (this.gpuSim) this.particles.frustumCulled = false;
+    this.applyLook();
+    this.updatePointScale();
     this.scene.add(this.particles);
 
     this.updateTargetShape();
+    this.applyColorMode();
   }
 
   initBackground() {
@@ -157,31 +227,10 @@ export class ParticleEngine {
     // Large quantity, small, white, faint, strictly background
     const dustCount = 6000;
     const dustGeo = new THREE.BufferGeometry();
-    const dustPos = new Float32Array(dustCount * 3);
     
     // Galactic Plane Generation for Background
     // Create a band of stars to simulate the milky way view
-    for (let i = 0; i < dustCount; i++) {
-        const r = 400 + Math.random() * 800;
-        
-        // Distribution: 70% in a band, 30% spherical
-        let theta, phi;
-        if (Math.random() < 0.7) {
-            // Band (Milky Wayish)
-            theta = Math.random() * Math.PI * 2;
-            // Phi close to PI/2 (equator) with some spread
-            const spread = 0.4;
-            phi = (Math.PI / 2) + (Math.random() - 0.5) * spread;
-        } else {
-            // Spherical scatter
-            theta = Math.random() * Math.PI * 2;
-            phi = Math.acos(2 * Math.random() - 1);
-        }
-        
-        dustPos[i * 3] = r * Math.sin(phi) * Math.cos(theta);
-        dustPos[i * 3 + 1] = r * Math.sin(phi) * Math.sin(theta);
-        dustPos[i * 3 + 2] = r * Math.cos(phi);
-    }
+    const dustPos = generateStardust(dustCount, this.random('background:dust'));
     
     dustGeo.setAttribute('position', new THREE.BufferAttribute(dustPos, 3));
     const dustMat = new THREE.PointsMaterial({
@@ -200,7 +249,6 @@ export class ParticleEngine {
     // Blue-white, Pale Yellow, distinct
     const starCount = 400;
     const starGeo = new THREE.BufferGeometry();
-    const starPos = new Float32Array(starCount * 3);
     const starCol = new Float32Array(starCount * 3);
     
     // Star colors: Blue-white, White, Pale Yellow to simulate real star types
@@ -211,16 +259,10 @@ export class ParticleEngine {
         new THREE.Color(0xfff4e8)  // Warm white
     ];
 
+    const stars = generateBrightStars(starCount, starColors.length, this.random('background:stars'));
+    const starPos = stars.positions;
     for (let i = 0; i < starCount; i++) {
-        const r = 200 + Math.random() * 600; 
-        const theta = Math.random() * Math.PI * 2;
-        const phi = Math.acos(2 * Math.random() - 1);
-        
-        starPos[i * 3] = r * Math.sin(phi) * Math.cos(theta);
-        starPos[i * 3 + 1] = r * Math.sin(phi) * Math.sin(theta);
-        starPos[i * 3 + 2] = r * Math.cos(phi);
-
-        const color = starColors[Math.floor(Math.random() * starColors.length)];
+        const color = starColors[stars.colorIndices[i]];
         starCol[i * 3] = color.r;
         starCol[i * 3 + 1] = color.g;
         starCol[i * 3 + 2] = color.b;
@@ -244,319 +286,547 @@ export class ParticleEngine {
     this.scene.add(this.bgStars);
   }
 
-  setCustomShape(points: Point3D[]) {
+  // Background stars are seeded too; regenerate them when the seed changes
+  rebuildBackground() {
+    this.scene.remove(this.bgStars);
+    const rotation = this.bgStars.rotation.y;
+    this.bgStars.traverse((object: any) => {
+      if (object.isPoints) {
+        object.geometry.dispose();
+        object.material.map?.dispose();
+        object.material.dispose();
+      }
+    });
+    this.initBackground();
+    this.bgStars.rotation.y = rotation;
+  }
+
+  setCustomShape(points: Point3D[], colors: Float32Array | null = null) {
     this.customShapePoints = points;
+    this.customShapeColors = colors;
     if (this.currentConfig.shape === ShapeType.CUSTOM) {
         this.updateTargetShape();
+        this.applyColors();
+        this.applyColorMode();
+    }
+  }
+
+  // Imported per-point colors take over while the CUSTOM shape is shown
+  usesCustomColors(): boolean {
+    return this.currentConfig.shape === ShapeType.CUSTOM
+      && this.customShapeColors !== null
+      && this.customShapeColors.length > 0;
+  }
+
+  applyColors() {
+    const attr = this.geometry.attributes.color as THREE.BufferAttribute;
+    const tempColor = new THREE.Color();
+
+    if (this.usesCustomColors()) {
+        // Generated target j is customShapePoints[j % n] (see updateTargetShape), and slot i
+        // was assigned target targetOrder[i], so it takes that point's color
+        const colors = this.customShapeColors!;
+        const n = colors.length / 3;
+        for(let i=0; i<this.maxParticles; i++) {
+          const c = (this.targetOrder[i] % n) * 3;
+          tempColor.setRGB(colors[c], colors[c + 1], colors[c + 2], THREE.SRGBColorSpace);
+          attr.setXYZ(i, tempColor.r, tempColor.g, tempColor.b);
+        }
+    } else if (this.currentConfig.color.mode === ColorMode.RANDOM) {
+        // Random bright colors
+        const random = this.random('colors');
+        for(let i=0; i<this.maxParticles; i++) {
+          tempColor.setHSL(random(), 1.0, 0.6); // High saturation
+          attr.setXYZ(i, tempColor.r, tempColor.g, tempColor.b);
+        }
+    } else {
+        // Solid color; gradient modes take their colors from the palette instead
+        const c = new THREE.Color(this.currentConfig.color.solid);
+        for(let i=0; i<this.maxParticles; i++) {
+          attr.setXYZ(i, c.r, c.g, c.b);
+        }
+    }
+    attr.needsUpdate = true;
+  }
+
+  // Palette, color source and value range for the gradient modes
+  applyColorMode() {
+    const { color, forceRadius } = this.currentConfig;
+    const u = this.material.uniforms;
+    writePalette(this.palette, color.gradient);
+    // Imported colors win over every mode, like they do over a solid color
+    u.colorSource.value = this.usesCustomColors() ? 0 : colorSourceFor(color.mode);
+    u.cycleSpeed.value = color.cycleSpeed;
+    const [min, max] = paletteRange(color.mode, this.shapeTargets, this.shapeTargets.length / 3, forceRadius);
+    u.colorRange.value.set(min, max);
+  }
+
+  // Slot i takes the shape parameter of its target, like custom colors do
+  applyColorParams(count: number) {
+    for (let i = 0; i < count; i++) {
+      this.colorParams[i] = this.shapeParams[this.targetOrder[i]];
     }
+    const attr = this.geometry.attributes.colorParam as THREE.BufferAttribute;
+    attr.addUpdateRange(0, count);
+    attr.needsUpdate = true;
   }
 
+  // Generate the current shape and morph the targets towards it
   updateTargetShape() {
+    const next = this.generateShape();
+    const count = next.length / 3;
+    const { duration, matching } = this.currentConfig.transition;
+
+    if (!this.hasShape) {
+      // The initial scatter flies in, no spawning needed
+      this.hasShape = true;
+      this.targetShape = this.currentConfig.shape;
+      this.lifecycle.setActiveCount(count);
+      this.targetPositions.set(next);
+      this.applyColorParams(count);
+      this.syncLiveCount();
+      this.uploadTargets();
+      return;
+    }
+
+    // Slots that were drawn already start from wherever their targets are now, which
+    // may be mid-morph or mid-fade. New slots grow out of the center.
+    // The GPU path morphs in its shader, so catch up on where a running morph is first.
+    if (this.gpuSim && this.morph) this.writeMorphTargets(this.morph, performance.now());
+    const spawnStart = this.lifecycle.setActiveCount(count);
+    const live = Math.min(spawnStart, count);
+    const from = new Float32Array(count * 3);
+    from.set(this.targetPositions.subarray(0, live * 3));
+
+    const order = computeCorrespondence(from, live, next, count, matching);
+    const to = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      const j = order[i] * 3;
+      to[i * 3] = next[j];
+      to[i * 3 + 1] = next[j + 1];
+      to[i * 3 + 2] = next[j + 2];
+    }
+    this.targetOrder.set(order);
+    this.applyColorParams(count);
+
+    const fromShape = this.targetShape;
+    this.targetShape = this.currentConfig.shape;
+    this.morph = null;
+
+    // Slots beyond `count` keep their old targets while they fade out
+    this.targetPositions.set(duration <= 0 ? to : from);
+    this.simulation?.spawn(spawnStart, count);
+    this.syncLiveCount();
+    this.uploadTargets();
+    if (duration <= 0) return;
+
+    this.morph = {
+      count,
+      from,
+      to,
+      delays: computeWaveDelays(to, count, this.currentConfig.transition.wave, this.random('wave')),
+      startTime: performance.now(),
+      state: { active: true, progress: 0, from: fromShape, to: this.currentConfig.shape }
+    };
+    this.gpuSim?.startMorph(from, to, this.morph.delays, count);
+    this.onTransitionChange?.({ ...this.morph.state });
+  }
+
+  // Density change within the same shape: surviving particles keep their points,
+  // added ones fade in on unused points of the shape, removed ones fade out in place
+  updateDensity() {
+    if (!this.hasShape || this.morph) {
+      this.updateTargetShape();
+      return;
+    }
+
+    const next = this.generateShape();
+    const count = next.length / 3;
+    const keep = Math.min(this.lifecycle.activeCount, count);
+    const spawnStart = this.lifecycle.setActiveCount(count);
+
+    // Kept slots hold distinct generated points; a smaller count generates a prefix of
+    // the same points, so every kept point below `count` is already taken
+    const taken = new Uint8Array(count);
+    for (let i = 0; i < keep; i++) {
+      if (this.targetOrder[i] < count) taken[this.targetOrder[i]] = 1;
+    }
+    let j = 0;
+    for (let i = keep; i < count; i++) {
+      while (taken[j]) j++;
+      this.targetOrder[i] = j;
+      this.targetPositions[i * 3] = next[j * 3];
+      this.targetPositions[i * 3 + 1] = next[j * 3 + 1];
+      this.targetPositions[i * 3 + 2] = next[j * 3 + 2];
+      j++;
+    }
+    this.applyColorParams(count);
+
+    this.simulation?.spawn(spawnStart, count);
+    this.syncLiveCount();
+    this.uploadTargets();
+  }
+
+  // Only the live prefix is simulated, uploaded and drawn
+  syncLiveCount() {
+    const n = this.lifecycle.drawCount;
+    this.geometry.setDrawRange(0, n);
+    if (this.simulation) this.simulation.count = n;
+    this.gpuSim?.setLiveCount(n);
+  }
+
+  // GPU path: settled targets of every drawn slot, uploaded once per shape change
+  uploadTargets() {
+    this.gpuSim?.setTargets(this.targetPositions, this.lifecycle.drawCount);
+  }
+
+  // Advance spawn / despawn fades; the alpha attribute is the lifecycle's own array
+  updateFades(dt: number) {
+    const drawCount = this.lifecycle.drawCount;
+    if (!this.lifecycle.update(dt)) return;
+
+    const attr = this.geometry.attributes.alpha as THREE.BufferAttribute;
+    attr.addUpdateRange(0, drawCount);
+    attr.needsUpdate = true;
+
+    if (this.lifecycle.drawCount !== drawCount) this.syncLiveCount();
+  }
+
+  // Raw morph time (0 - 1 over the duration) with the easing and stagger it runs with
+  morphTiming(morph: Morph, now: number) {
+    const { duration, easing, stagger, wave } = this.currentConfig.transition;
+    return {
+      t: duration > 0 ? (now - morph.startTime) / duration : 1,
+      easing: easing in EASINGS ? easing : TransitionEasing.LINEAR,
+      // Without a wave every delay is 0, staggering would only shorten the morph
+      stagger: wave === TransitionWave.NONE ? 0 : Math.min(Math.max(stagger, 0), 0.9)
+    };
+  }
+
+  // Interpolated targets of the morph at `now`, written for its slots
+  writeMorphTargets(morph: Morph, now: number) {
+    const { t, easing, stagger: s } = this.morphTiming(morph, now);
+    const ease = EASINGS[easing];
+    const { from, to, delays } = morph;
+    for (let i = 0; i < morph.count; i++) {
+      const idx = i * 3;
+      const local = Math.min(Math.max((t - delays[i] * s) / (1 - s), 0), 1);
+      const k = ease(local);
+      this.targetPositions[idx] = from[idx] + (to[idx] - from[idx]) * k;
+      this.targetPositions[idx + 1] = from[idx + 1] + (to[idx + 1] - from[idx + 1]) * k;
+      this.targetPositions[idx + 2] = from[idx + 2] + (to[idx + 2] - from[idx + 2]) * k;
+    }
+  }
+
+  // Advance the running morph: the CPU path writes interpolated targets, the GPU
+  // path only moves its shader's progress
+  updateMorph(now: number) {
+    const morph = this.morph;
+    if (!morph) return;
+
+    const { t, easing, stagger } = this.morphTiming(morph, now);
+    if (t >= 1) {
+      this.targetPositions.set(morph.to);
+      this.morph = null;
+      this.gpuSim?.setMorphProgress(1, easing, 0);
+      this.onTransitionChange?.({ ...morph.state, active: false, progress: 1 });
+      return;
+    }
+
+    if (this.gpuSim) this.gpuSim.setMorphProgress(t, easing, stagger);
+    else this.writeMorphTargets(morph, now);
+    morph.state.progress = t;
+  }
+
+  getTransitionState(): TransitionState {
+    if (this.morph) return { ...this.morph.state };
+    const shape = this.currentConfig.shape;
+    return { active: false, progress: 1, from: shape, to: shape };
+  }
+
+  // Seeded size variation, mean 1
+  applySizes() {
+    const random = this.random('sizes');
+    for (let i = 0; i < this.maxParticles; i++) {
+      this.sizes[i] = 0.5 + random();
+    }
+    const attr = this.geometry?.attributes.size as THREE.BufferAttribute | undefined;
+    if (attr) attr.needsUpdate = true;
+  }
+
+  // Size / glow / twinkle only feed shader uniforms
+  applyLook() {
+    const u = this.material.uniforms;
+    u.particleSize.value = this.currentConfig.particleSize;
+    u.glow.value = this.currentConfig.glow;
+    u.twinkle.value = this.currentConfig.twinkle;
+  }
+
+  // PointsMaterial-style attenuation by half the drawing buffer height
+  updatePointScale() {
+    const size = new THREE.Vector2();
+    this.renderer.getDrawingBufferSize(size);
+    this.material.uniforms.scale.value = size.y * 0.5;
+  }
+
+  // Fresh deterministic stream for one purpose, derived from the config seed
+  random(label: string): RandomSource {
+    return createRandom(deriveSeed(this.currentConfig.seed, label));
+  }
+
+  // Raw target points of the current shape, in generation order. Also kept, with their
+  // shape parameters, for the color modes.
+  generateShape(): Float32Array {
     const { shape, density } = this.currentConfig;
-    const count = Math.floor(MAX_PARTICLES * density);
-    
-    for (let i = 0; i < MAX_PARTICLES; i++) {
-      let x = 0, y = 0, z = 0;
-
-      if (i >= count) {
-        x = 9999; y = 9999; z = 9999;
-      } else {
-        switch (shape) {
-          case ShapeType.SPHERE:
-            const r = 12 * Math.cbrt(Math.random());
-            const theta = Math.random() * 2 * Math.PI;
-            const phi = Math.acos(2 * Math.random() - 1);
-            x = r * Math.sin(phi) * Math.cos(theta);
-            y = r * Math.sin(phi) * Math.sin(theta);
-            z = r * Math.cos(phi);
-            break;
-
-          case ShapeType.HEART:
-            const t = Math.random() * Math.PI * 2;
-            const scaleH = 0.9;
-            const hx = 16 * Math.pow(Math.sin(t), 3);
-            const hy = 13 * Math.cos(t) - 5 * Math.cos(2*t) - 2 * Math.cos(3*t) - Math.cos(4*t);
-            const rVol = Math.random();
-            x = hx * scaleH * rVol;
-            y = hy * scaleH * rVol;
-            z = (Math.random() - 0.5) * 10 * rVol;
-            break;
-        
-          case ShapeType.GALAXY:
-             const arms = 3;
-             const spin = 3.5;
-             const rGal = Math.pow(Math.random(), 0.7); // Bias towards center
-             const radius = rGal * 22; // Max radius
-             
-             const armIndex = i % arms;
-             const armAngle = (armIndex / arms) * Math.PI * 2;
-             
-             // Spiral equation: theta = a + b * r
-             const angleBase = armAngle + rGal * spin;
-             
-             // Add noise to arms (width increases with radius)
-             const spread = 0.3 + rGal * 0.8; 
-             const angleRandom = (Math.random() - 0.5) * spread;
-             
-             const finalAngle = angleBase + angleRandom;
-
-             x = Math.cos(finalAngle) * radius;
-             y = Math.sin(finalAngle) * radius;
-             // Thicker at center, thinner at edges
-             z = (Math.random() - 0.5) * (6 * (1 - rGal * 0.7)); 
-             break;
-
-          case ShapeType.MOBIUS:
-             // 3D Infinity Loop / Twisted Ribbon (Lemniscate Based)
-             const uMob = Math.random() * Math.PI * 2;
-             // Width of the ribbon
-             const wMob = (Math.random() - 0.5) * 6; 
-             const scale = 18; 
-             const depthScale = 4;
-
-             // 1. Center Line (Lemniscate with Z-wave for separation)
-             // x = sin(u)
-             // y = sin(u)cos(u) -> Figure 8
-             // z = cos(u) -> Vertical separation
-             const xc = scale * Math.sin(uMob);
-             const yc = scale * Math.sin(uMob) * Math.cos(uMob);
-             const zc = depthScale * Math.cos(uMob);
-
-             // 2. Calculate Tangent Vector (Derivative)
-             // dx = cos(u)
-             // dy = cos(2u)
-             // dz = -sin(u)
-             const tx = scale * Math.cos(uMob);
-             const ty = scale * Math.cos(2 * uMob);
-             const tz = -depthScale * Math.sin(uMob);
-             
-             // Normalize Tangent
-             const tLen = Math.sqrt(tx*tx + ty*ty + tz*tz);
-             const ntx = tx / tLen;
-             const nty = ty / tLen;
-             const ntz = tz / tLen;
-
-             // 3. Construct Normal Frame (Binormal up = Z, but we need robust frame)
-             // Approximate Up vector (Z-axis) usually works since curve is mostly flat-ish
-             // Normal = Up x Tangent
-             let nx = -nty; 
-             let ny = ntx;
-             let nz = 0;
-             // If tangent is vertical (rare here), fallback
-             const nLen = Math.sqrt(nx*nx + ny*ny + nz*nz);
-             nx /= nLen; ny /= nLen; nz /= nLen;
-
-             // Binormal = Tangent x Normal
-             const bx = nty * nz - ntz * ny;
-             const by = ntz * nx - ntx * nz;
-             const bz = ntx * ny - nty * nx;
-
-             // 4. Apply Twist
-             // Mobius twist: rotates 180 degrees (PI) over the full loop (2PI)
-             const twistAngle = uMob / 2;
-             const cosTwist = Math.cos(twistAngle);
-             const sinTwist = Math.sin(twistAngle);
-
-             // Offset vector = Normal * cos(twist) + Binormal * sin(twist)
-             const offX = nx * cosTwist + bx * sinTwist;
-             const offY = ny * cosTwist + by * sinTwist;
-             const offZ = nz * cosTwist + bz * sinTwist;
-
-             // 5. Final Position
-             x = xc + wMob * offX;
-             y = yc + wMob * offY;
-             z = zc + wMob * offZ;
-             
-             // Add some thickness volume
-             const thickness = (Math.random() - 0.5) * 1.5;
-             // Add thickness along the "surface normal" (cross product of tangent and offset vector)
-             // Or just simple noise
-             x += (Math.random() - 0.5) * 0.5;
-             y += (Math.random() - 0.5) * 0.5;
-             z += (Math.random() - 0.5) * 0.5 + thickness;
-             break;
-
-          case ShapeType.CUSTOM:
-             if (this.customShapePoints.length > 0) {
-                 const p = this.customShapePoints[i % this.customShapePoints.length];
-                 x = p.x + (Math.random() - 0.5);
-                 y = p.y + (Math.random() - 0.5);
-                 z = p.z + (Math.random() - 0.5);
-             } else {
-                 const rs = 5;
-                 x = (Math.random() - 0.5) * rs;
-                 y = (Math.random() - 0.5) * rs;
-                 z = 0;
-             }
-             break;
-
-          case ShapeType.NEBULA:
-          default:
-             const dist = Math.random();
-             const angle = Math.random() * Math.PI * 2;
-             const rad = (Math.random() < 0.5 ? Math.random() * 5 : Math.random() * 20);
-             x = Math.cos(angle) * rad;
-             y = Math.sin(angle) * rad;
-             z = (Math.random() - 0.5) * 10;
-             break;
-        }
+    const count = Math.floor(this.maxParticles * density);
+
+    if (shape === ShapeType.TEXT) {
+      // Rasterizing + sampling is comparatively slow, only redo it when the text changes
+      const key = JSON.stringify(this.currentConfig.text) + count + ':' + this.currentConfig.seed;
+      if (key !== this.textShapeKey) {
+        this.textShapePoints = sampleText(this.currentConfig.text, count, this.random('text'));
+        this.textShapeKey = key;
       }
-
-      this.targetPositions[i * 3] = x;
-      this.targetPositions[i * 3 + 1] = y;
-      this.targetPositions[i * 3 + 2] = z;
     }
+    
+    this.shapeParams = new Float32Array(count);
+    this.shapeTargets = generateShapeTargets(shape, count, this.random(`shape:${shape}`), {
+      customPoints: this.customShapePoints,
+      textPoints: this.textShapePoints
+    }, this.shapeParams);
+    return this.shapeTargets;
   }
 
   updateConfig(newConfig: Partial<ParticleConfig>) {
     if (this.isDisposed) return;
 
-    this.currentConfig = { ...this.currentConfig, ...newConfig };
-
-    if (newConfig.color) {
-      const attr = this.geometry.attributes.color as THREE.BufferAttribute;
-      
-      if (newConfig.color === 'MULTICOLOR') {
-          // Switch to multicolor mode: Assign random bright colors
-          const tempColor = new THREE.Color();
-          for(let i=0; i<MAX_PARTICLES; i++) {
-            tempColor.setHSL(Math.random(), 1.0, 0.6); // High saturation
-            attr.setXYZ(i, tempColor.r, tempColor.g, tempColor.b);
-          }
-      } else {
-          // Switch to single color mode
-          const c = new THREE.Color(newConfig.color);
-          for(let i=0; i<MAX_PARTICLES; i++) {
-            attr.setXYZ(i, c.r, c.g, c.b);
-          }
-      }
-      attr.needsUpdate = true;
+    const prev = this.currentConfig;
+    const hadCustomColors = this.usesCustomColors();
+    this.currentConfig = { ...prev, ...newConfig };
+    const next = this.currentConfig;
+
+    // Callers usually pass the whole config; only regenerate what actually changed
+    const seedChanged = next.seed !== prev.seed;
+    const densityChanged = next.density !== prev.density;
+    const pointsChanged = seedChanged || next.shape !== prev.shape
+      || (next.shape === ShapeType.TEXT && JSON.stringify(next.text) !== JSON.stringify(prev.text));
+    const shapeChanged = pointsChanged || densityChanged;
+
+    if (seedChanged) {
+      this.rebuildBackground();
+      this.applySizes();
     }
 
-    if (newConfig.shape !== undefined || newConfig.density !== undefined) {
+    this.applyLook();
+
+    if (pointsChanged) {
       this.updateTargetShape();
+    } else if (densityChanged) {
+      this.updateDensity();
     }
+
+    // After the shape: custom colors depend on the new slot order
+    const colorsChanged = next.color.mode !== prev.color.mode || next.color.solid !== prev.color.solid;
+    const customColorsChanged = hadCustomColors !== this.usesCustomColors();
+    if (colorsChanged || (seedChanged && next.color.mode === ColorMode.RANDOM) || customColorsChanged
+        || (shapeChanged && this.usesCustomColors())) {
+      this.applyColors();
+    }
+    if (next.color !== prev.color || shapeChanged || next.forceRadius !== prev.forceRadius || customColorsChanged) {
+      this.applyColorMode();
+    }
+  }
+
+  // Map a tracked hand (normalized, mirrored video coords) onto the plane through the
+  // camera's target facing the camera, expressed in the rotating particle system's local space
+  getHandLocalPoint(hand: HandData): THREE.Vector3 | null {
+    const normal = this.camera.getWorldDirection(new THREE.Vector3()).negate();
+    this.handPlane.setFromNormalAndCoplanarPoint(normal, this.cameraRig.controls.target);
+    const ndc = new THREE.Vector2((1 - hand.x) * 2 - 1, -(hand.y * 2 - 1));
+    this.handRaycaster.setFromCamera(ndc, this.camera);
+    const hit = new THREE.Vector3();
+    if (!this.handRaycaster.ray.intersectPlane(this.handPlane, hit)) return null;
+    return this.particles.worldToLocal(hit);
   }
 
-  animate(handOpenness: number) {
+  // Two-handed gesture: spreading both hands apart scales the formation up,
+  // bringing them together scales it down. Eases back to 1 when released.
+  updateFormationScale(hands: HandData[]) {
+    let targetScale = 1;
+    if (hands.length >= 2) {
+        const dist = Math.hypot(hands[0].x - hands[1].x, hands[0].y - hands[1].y);
+        if (this.twoHandBaseDist === null) {
+            this.twoHandBaseDist = Math.max(dist, 0.05);
+        }
+        targetScale = Math.min(Math.max(dist / this.twoHandBaseDist, 0.4), 2.5);
+    } else {
+        this.twoHandBaseDist = null;
+    }
+    this.formationScale += (targetScale - this.formationScale) * 0.1;
+    this.particles.scale.setScalar(this.formationScale);
+  }
+
+  // Background layers trail the camera by their BG_PARALLAX share, nearer layers more
+  updateParallax() {
+    this.bgStars.updateMatrixWorld();
+    const displacement = this.cameraRig.displacement;
+    const follow = new THREE.Vector3();
+    this.bgStars.children.forEach((layer: any, i: number) => {
+      follow.copy(displacement).multiplyScalar(1 - (BG_PARALLAX[i] ?? 0));
+      layer.position.copy(this.bgStars.worldToLocal(follow));
+    });
+  }
+
+  setCameraSettings(settings: CameraSettings) {
+    this.cameraRig.setSettings(settings);
+  }
+
+  resetCamera() {
+    this.cameraRig.resetView();
+  }
+
+  // `audio` (audio-reactive mode) adds noise, spin and a hue shift on top of the
+  // openness, which the caller has already mixed (see mixOpenness)
+  animate(handOpenness: number, hands: HandData[] = [], audio: AudioModulation | null = null) {
     if (this.isDisposed) return;
 
-    this.scrollVelocity *= 0.96;
-    if (Math.abs(this.scrollVelocity) < 0.0001) this.scrollVelocity = 0;
+    const now = performance.now();
+    const frameMs = this.lastFrameTime > 0 ? now - this.lastFrameTime : 16;
+    // Clamped so a backgrounded tab doesn't finish every fade in one frame
+    const dt = Math.min(frameMs, 100);
+    this.lastFrameTime = now;
+
+    this.updateMorph(now);
+    this.updateFades(dt);
+    this.updateFormationScale(hands);
+    this.cameraRig.update(dt, hands[0] ?? null);
+
+    // Each hand becomes a local force field around its unprojected position
+    const { forceMode, forceRadius } = this.currentConfig;
+    const handPoints: HandForcePoint[] = [];
+    for (const hand of hands) {
+        const p = this.getHandLocalPoint(hand);
+        if (!p) continue;
+        handPoints.push({ x: p.x, y: p.y, z: p.z, strength: handStrength(forceMode, hand.openness) });
+    }
 
     const baseRotationSpeed = 0.002;
-    const currentSpeed = baseRotationSpeed + this.scrollVelocity;
+    const currentSpeed = baseRotationSpeed + (audio ? audio.spin : 0);
 
     this.particles.rotation.y += currentSpeed;
     
     // Independent background rotation (slow drift)
-    // Does not react to scroll velocity to keep depth perception stable
     this.bgStars.rotation.y -= 0.0003; 
+    this.updateParallax();
+
+    const motion = opennessToStepParams(handOpenness, this.currentConfig.spread);
+    if (audio) motion.noiseAmt += audio.noise;
+    const params: SimulationStepParams = {
+      time: performance.now() / 1000,
+      handOpenness,
+      ...motion,
+      // Explosion radiates from the primary hand instead of the world origin
+      explodeCenter: handPoints.length > 0 ? handPoints[0] : { x: 0, y: 0, z: 0 },
+      hands: handPoints,
+      forceRadius,
+      swirl: forceMode === ForceMode.SWIRL
+    };
 
-    const positions = this.geometry.attributes.position.array as Float32Array;
-    
-    // Spatial Hashing
-    this.hashTable.fill(-1);
-    this.nextEntry.fill(-1);
-    
-    const cellSize = 1.2;
-    const hashMask = this.hashSize - 1;
-
-    for (let i = 0; i < MAX_PARTICLES; i++) {
-        const idx = i * 3;
-        if (positions[idx] > 8000) continue;
-
-        const xi = Math.floor(positions[idx] / cellSize);
-        const yi = Math.floor(positions[idx+1] / cellSize);
-        const zi = Math.floor(positions[idx+2] / cellSize);
-
-        const hash = ((xi * 73856093) ^ (yi * 19349663) ^ (zi * 83492791)) & hashMask;
-        this.nextEntry[i] = this.hashTable[hash];
-        this.hashTable[hash] = i;
+    const u = this.material.uniforms;
+    u.time.value = params.time;
+    u.activeCount.value = this.lifecycle.activeCount;
+    u.hueShift.value = audio ? audio.hueShift : 0;
+    u.handActive.value = handPoints.length > 0 ? 1 : 0;
+    if (handPoints.length > 0) u.handPoint.value.set(handPoints[0].x, handPoints[0].y, handPoints[0].z);
+
+    if (this.gpuSim) {
+      this.gpuSim.step(params);
+      u.texturePosition.value = this.gpuSim.positionTexture;
+    } else if (this.simulation) {
+      this.simulation.step(params);
+      const attr = this.geometry.attributes.position as THREE.BufferAttribute;
+      attr.addUpdateRange(0, this.simulation.count * 3);
+      attr.needsUpdate = true;
+      if (this.currentConfig.color.mode === ColorMode.VELOCITY) {
+        const speed = this.geometry.attributes.speed as THREE.BufferAttribute;
+        speed.addUpdateRange(0, this.simulation.count);
+        speed.needsUpdate = true;
+      }
     }
-    
-    const explosionFactor = handOpenness * 60 * this.currentConfig.spread; 
-    const cohesionSpeed = 0.05 + (1 - handOpenness) * 0.1;
-    const noiseAmt = handOpenness * 0.8;
 
-    for (let i = 0; i < MAX_PARTICLES; i++) {
-      const idx = i * 3;
-      
-      let tx = this.targetPositions[idx];
-      let ty = this.targetPositions[idx+1];
-      let tz = this.targetPositions[idx+2];
+    const quality = this.post.quality;
+    this.post.update(this.currentConfig.effects, handOpenness, frameMs);
+    if (this.post.quality !== quality) this.onEffectsQualityChange?.(this.post.quality);
+    this.post.render(frameMs);
+  }
 
-      if (tx > 9000) {
-        positions[idx] = 9999;
-        continue;
-      }
+  // Drawing buffer of the renderer and the post-processing chain; the canvas keeps its CSS size
+  setBufferSize(width: number, height: number, pixelRatio: number) {
+    this.renderer.setPixelRatio(pixelRatio);
+    this.renderer.setSize(width, height, false);
+    this.post.setSize(width, height, pixelRatio);
+    this.updatePointScale();
+  }
 
-      if (handOpenness > 0.1) {
-          const dist = Math.sqrt(tx*tx + ty*ty + tz*tz) + 0.1;
-          const dirX = tx / dist;
-          const dirY = ty / dist;
-          const dirZ = tz / dist;
-          
-          tx += dirX * explosionFactor;
-          ty += dirY * explosionFactor;
-          tz += dirZ * explosionFactor;
-
-          tx += (Math.random() - 0.5) * noiseAmt;
-          ty += (Math.random() - 0.5) * noiseAmt;
-          tz += (Math.random() - 0.5) * noiseAmt;
-      }
+  // The view at `scale` times its CSS size, within the GPU's texture limit
+  scaledBufferSize(scale: number): { width: number; height: number } {
+    const { x, y } = this.viewSize;
+    const maxSize = this.renderer.capabilities.maxTextureSize || 4096;
+    const k = Math.min(scale, maxSize / x, maxSize / y);
+    return { width: Math.round(x * k), height: Math.round(y * k) };
+  }
 
-      positions[idx] += (tx - positions[idx]) * cohesionSpeed;
-      positions[idx+1] += (ty - positions[idx+1]) * cohesionSpeed;
-      positions[idx+2] += (tz - positions[idx+2]) * cohesionSpeed;
-
-      const xi = Math.floor(positions[idx] / cellSize);
-      const yi = Math.floor(positions[idx+1] / cellSize);
-      const zi = Math.floor(positions[idx+2] / cellSize);
-      const hash = ((xi * 73856093) ^ (yi * 19349663) ^ (zi * 83492791)) & hashMask;
-
-      let neighbor = this.hashTable[hash];
-      let checkCount = 0;
-      const maxChecks = 10;
-
-      while (neighbor !== -1 && checkCount < maxChecks) {
-          if (neighbor !== i) {
-              const nIdx = neighbor * 3;
-              const dx = positions[idx] - positions[nIdx];
-              const dy = positions[idx+1] - positions[nIdx+1];
-              const dz = positions[idx+2] - positions[nIdx+2];
-              const distSq = dx*dx + dy*dy + dz*dz;
-              const minDist = 0.7;
-              
-              if (distSq < minDist * minDist && distSq > 0.00001) {
-                  const dist = Math.sqrt(distSq);
-                  const pushStrength = 0.15;
-                  const force = (minDist - dist) / dist * pushStrength;
-                  
-                  positions[idx] += dx * force;
-                  positions[idx+1] += dy * force;
-                  positions[idx+2] += dz * force;
-              }
-          }
-          neighbor = this.nextEntry[neighbor];
-          checkCount++;
-      }
+  // The window at the device pixel ratio or, while recording, scaled to cover the
+  // recording frame so the recorder only crops instead of scaling the picture up
+  applyBufferSize() {
+    const recording = this.recordingSize;
+    if (recording) {
+      const { x, y } = this.viewSize;
+      const { width, height } = this.scaledBufferSize(Math.max(recording.width / x, recording.height / y));
+      this.setBufferSize(width, height, 1);
+    } else {
+      this.setBufferSize(this.viewSize.x, this.viewSize.y, this.pixelRatio);
     }
+  }
+
+  setRecordingSize(size: { width: number; height: number } | null) {
+    this.recordingSize = size;
+    this.applyBufferSize();
+  }
+
+  // Render one frame at `scale` times the window size and encode it as PNG.
+  // toBlob snapshots the drawing buffer synchronously, so the size can be restored right away.
+  captureStill(scale: number): Promise<Blob> {
+    const { width, height } = this.scaledBufferSize(scale);
+    this.setBufferSize(width, height, 1);
+    this.post.render(16);
+
+    const blob = new Promise<Blob>((resolve, reject) => {
+      this.renderer.domElement.toBlob(
+        (b: Blob | null) => (b ? resolve(b) : reject(new Error('截图失败'))),
+        'image/png'
+      );
+    });
 
-    this.geometry.attributes.position.needsUpdate = true;
-    this.renderer.render(this.scene, this.camera);
+    this.applyBufferSize();
+    return blob;
   }
 
   resize(width: number, height: number) {
     if (this.isDisposed) return;
     this.camera.aspect = width / height;
     this.camera.updateProjectionMatrix();
-    this.renderer.setSize(width, height);
+    this.viewSize.set(width, height);
+    this.renderer.setSize(width, height); // Canvas CSS size
+    this.applyBufferSize();
   }
   
   dispose() {
       this.isDisposed = true;
-      window.removeEventListener('wheel', this.handleScroll);
+      this.cameraRig.dispose();
+      this.gpuSim?.dispose();
+      this.post.dispose();
+      this.palette.dispose();
       
       this.scene.traverse((object) => {
         if (object instanceof THREE.Mesh || object instanceof THREE.Points) {
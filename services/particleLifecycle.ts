@@ -0,0 +1,64 @@
+// Which particle slots are alive, and how visible each one is.
+// Slots [0, activeCount) follow the shape; slots up to drawCount are still fading out.
+// Everything from drawCount on is neither simulated, uploaded nor drawn, so a lower
+// density really does cost less.
+
+export const FADE_IN_MS = 800;
+export const FADE_OUT_MS = 600;
+
+export class ParticleLifecycle {
+  capacity: number;
+  alpha: Float32Array; // Per slot, 0 - 1
+  activeCount = 0;
+  drawCount = 0;
+  private fading = false;
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+    this.alpha = new Float32Array(capacity);
+  }
+
+  // Change the number of active slots. Removed slots fade out; added ones fade in.
+  // Returns the first slot that was not drawn before: slots [result, count) need
+  // fresh positions, slots below it are still where they were.
+  setActiveCount(count: number): number {
+    count = Math.min(Math.max(Math.floor(count), 0), this.capacity);
+    const spawnStart = this.drawCount;
+    this.alpha.fill(0, spawnStart, Math.max(count, spawnStart));
+    this.activeCount = count;
+    this.drawCount = Math.max(this.drawCount, count);
+    this.fading = true;
+    return spawnStart;
+  }
+
+  // Advance the fades by `dt` ms. Returns true when any alpha changed.
+  update(dt: number): boolean {
+    if (!this.fading) return false;
+
+    const alpha = this.alpha;
+    const fadeIn = dt / FADE_IN_MS;
+    const fadeOut = dt / FADE_OUT_MS;
+    let fading = false;
+
+    for (let i = 0; i < this.activeCount; i++) {
+      if (alpha[i] < 1) {
+        alpha[i] = Math.min(alpha[i] + fadeIn, 1);
+        if (alpha[i] < 1) fading = true;
+      }
+    }
+    for (let i = this.activeCount; i < this.drawCount; i++) {
+      if (alpha[i] > 0) {
+        alpha[i] = Math.max(alpha[i] - fadeOut, 0);
+        if (alpha[i] > 0) fading = true;
+      }
+    }
+
+    // Stop drawing the tail once it has faded out completely
+    while (this.drawCount > this.activeCount && alpha[this.drawCount - 1] <= 0) {
+      this.drawCount--;
+    }
+
+    this.fading = fading || this.drawCount > this.activeCount;
+    return true;
+  }
+}
@@ -0,0 +1,205 @@
+import * as THREE from 'three';
+import { ColorMode, GradientStop } from '../types';
+import { PALETTE_SIZE, fillPalette } from './palette';
+
+// Particle material shared by the CPU and GPU paths. Per particle: size and alpha
+// attributes, a twinkle phase and a color-over-lifetime ramp (hot white while fading
+// in, embers while fading out). Per frame: glow halo, soft fading near the camera
+// and with depth. The GPU path reads positions from the simulation texture instead
+// of the position attribute (USE_POSITION_TEXTURE).
+// Base color: the color attribute, or the palette texture sampled at a per-particle
+// value picked by colorSource (see ColorMode).
+
+export const DEFAULT_PARTICLE_SIZE = 0.6;
+export const DEFAULT_GLOW = 1;
+export const DEFAULT_TWINKLE = 0.3;
+
+const BIRTH_COLOR = new THREE.Color(1.0, 0.95, 0.85);
+const DEATH_COLOR = new THREE.Color(1.0, 0.35, 0.1);
+
+// colorSource uniform per mode; 0 uses the color attribute
+const COLOR_SOURCES: Record<ColorMode, number> = {
+  [ColorMode.SOLID]: 0,
+  [ColorMode.RANDOM]: 0,
+  [ColorMode.RADIAL]: 1,
+  [ColorMode.HEIGHT]: 2,
+  [ColorMode.VELOCITY]: 3,
+  [ColorMode.HAND_DISTANCE]: 4,
+  [ColorMode.SHAPE]: 5,
+  [ColorMode.HUE_CYCLE]: 6
+};
+
+export const colorSourceFor = (mode: ColorMode) => COLOR_SOURCES[mode] ?? 0;
+
+const vertexShader = /* glsl */ `
+  uniform float particleSize;
+  uniform float scale;
+  uniform float time;
+  uniform float twinkle;
+  uniform float activeCount;
+  uniform vec3 birthColor;
+  uniform vec3 deathColor;
+  uniform vec2 nearFade; // View depth range over which particles fade in
+  uniform vec2 farFade; // View depth range over which they fade out again
+  uniform sampler2D palette;
+  uniform int colorSource;
+  uniform vec2 colorRange; // Value range spread over the palette
+  uniform vec3 handPoint; // Primary hand in local space
+  uniform float handActive;
+  uniform float cycleSpeed;
+  uniform float hueShift; // Turns, from the audio-reactive mode
+
+  attribute float size;
+  attribute float alpha;
+  attribute float colorParam;
+
+  #ifdef USE_POSITION_TEXTURE
+    uniform sampler2D texturePosition;
+    attribute vec2 reference;
+  #else
+    attribute float speed;
+  #endif
+
+  varying vec3 vColor;
+  varying float vAlpha;
+
+  void main() {
+    #ifdef USE_POSITION_TEXTURE
+      vec4 texel = texture2D(texturePosition, reference);
+      vec3 p = texel.xyz;
+      float speed = texel.w - 1.0;
+    #else
+      vec3 p = position;
+    #endif
+    vec4 mvPosition = modelViewMatrix * vec4(p, 1.0);
+    float depth = -mvPosition.z;
+
+    // Lifetime ramp: slots past activeCount are fading out
+    vec3 ramp = float(gl_VertexID) < activeCount ? birthColor : deathColor;
+    vec3 base = color;
+    if (colorSource > 0) {
+      float v;
+      if (colorSource == 2) v = p.y;
+      else if (colorSource == 3) v = speed;
+      else if (colorSource == 4) v = handActive > 0.5 ? distance(p, handPoint) : colorRange.y;
+      else if (colorSource == 5) v = colorParam;
+      else v = length(p);
+      float t = clamp((v - colorRange.x) / max(colorRange.y - colorRange.x, 1e-4), 0.0, 1.0);
+      if (colorSource == 6) t = fract(t * 0.5 - time * cycleSpeed);
+      base = texture2D(palette, vec2(t, 0.5)).rgb;
+    }
+    if (hueShift != 0.0) {
+      // Rotate around the grey axis
+      float a = hueShift * 6.2831853;
+      vec3 k = vec3(0.57735);
+      base = base * cos(a) + cross(k, base) * sin(a) + k * dot(k, base) * (1.0 - cos(a));
+    }
+    vColor = mix(ramp, base, smoothstep(0.0, 1.0, alpha));
+
+    float phase = fract(sin(float(gl_VertexID) * 12.9898) * 43758.5453);
+    float flicker = 1.0 - twinkle * (0.5 + 0.5 * sin(time * (1.5 + phase * 3.0) + phase * 6.2832));
+
+    float soft = smoothstep(nearFade.x, nearFade.y, depth) * (1.0 - smoothstep(farFade.x, farFade.y, depth));
+    vAlpha = alpha * flicker * soft;
+
+    // Same attenuation as THREE.PointsMaterial
+    gl_PointSize = particleSize * size * (scale / depth);
+    gl_Position = projectionMatrix * mvPosition;
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  uniform sampler2D map;
+  uniform float opacity;
+  uniform float glow;
+
+  varying vec3 vColor;
+  varying float vAlpha;
+
+  void main() {
+    // Sprite channels: r = core, g = halo
+    vec4 tex = texture2D(map, gl_PointCoord);
+    float intensity = tex.r + tex.g * glow;
+    gl_FragColor = vec4(vColor, min(intensity, 1.0) * vAlpha * opacity);
+    #include <colorspace_fragment>
+  }
+`;
+
+// Procedural sprite, drawn like initBackground's star texture but with the core and
+// the halo in separate channels so the glow can be scaled without redrawing it
+export const createParticleSprite = (size = 64): THREE.Texture => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    const image = ctx.createImageData(size, size);
+    const half = size / 2;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const r = Math.min(Math.hypot(x + 0.5 - half, y + 0.5 - half) / half, 1);
+        const core = Math.exp(-Math.pow(r / 0.22, 2));
+        const halo = Math.pow(1 - r, 3) * 0.45;
+        const i = (y * size + x) * 4;
+        image.data[i] = Math.round(core * 255);
+        image.data[i + 1] = Math.round(halo * 255);
+        image.data[i + 2] = 0;
+        image.data[i + 3] = 255;
+      }
+    }
+    ctx.putImageData(image, 0, 0);
+  }
+  return new THREE.CanvasTexture(canvas);
+};
+
+// Gradient lookup table; the sRGB texels are decoded to linear when sampled
+export const createPaletteTexture = (stops: GradientStop[]): THREE.DataTexture => {
+  const texture = new THREE.DataTexture(new Uint8Array(PALETTE_SIZE * 4), PALETTE_SIZE, 1);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.magFilter = THREE.LinearFilter;
+  texture.minFilter = THREE.LinearFilter;
+  writePalette(texture, stops);
+  return texture;
+};
+
+export const writePalette = (texture: THREE.DataTexture, stops: GradientStop[]) => {
+  fillPalette(texture.image.data, stops);
+  texture.needsUpdate = true;
+};
+
+export const createParticleMaterial = (
+  sprite: THREE.Texture,
+  palette: THREE.Texture,
+  positionTexture: boolean
+): THREE.ShaderMaterial =>
+  new THREE.ShaderMaterial({
+    uniforms: {
+      map: { value: sprite },
+      palette: { value: palette },
+      colorSource: { value: 0 },
+      colorRange: { value: new THREE.Vector2(0, 1) },
+      handPoint: { value: new THREE.Vector3() },
+      handActive: { value: 0 },
+      cycleSpeed: { value: 0 },
+      hueShift: { value: 0 },
+      texturePosition: { value: null },
+      particleSize: { value: DEFAULT_PARTICLE_SIZE },
+      glow: { value: DEFAULT_GLOW },
+      twinkle: { value: DEFAULT_TWINKLE },
+      opacity: { value: 0.8 },
+      scale: { value: 1 },
+      time: { value: 0 },
+      activeCount: { value: 0 },
+      birthColor: { value: BIRTH_COLOR.clone() },
+      deathColor: { value: DEATH_COLOR.clone() },
+      nearFade: { value: new THREE.Vector2(1, 6) },
+      farFade: { value: new THREE.Vector2(90, 160) }
+    },
+    defines: positionTexture ? { USE_POSITION_TEXTURE: '' } : {},
+    vertexShader,
+    fragmentShader,
+    vertexColors: true,
+    blending: THREE.AdditiveBlending,
+    depthWrite: false,
+    transparent: true
+  });
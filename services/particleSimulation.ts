@@ -0,0 +1,200 @@
+import { ForceMode } from "../types";
+import { RandomSource } from "./random";
+
+// CPU particle physics, free of any DOM / WebGL dependency so it can run (and be
+// tested) in Node. ParticleEngine renders straight from these arrays.
+// Only the first `count` slots are simulated; the rest keep whatever they last held.
+
+export interface HandForcePoint {
+  x: number;
+  y: number;
+  z: number;
+  strength: number; // > 0 pushes away, < 0 pulls in
+}
+
+// Per-frame inputs, shared with the GPU simulation
+export interface SimulationStepParams {
+  time: number;
+  handOpenness: number;
+  explosionFactor: number;
+  cohesionSpeed: number;
+  noiseAmt: number;
+  explodeCenter: { x: number; y: number; z: number };
+  hands: HandForcePoint[];
+  forceRadius: number;
+  swirl: boolean;
+}
+
+// Collision parameters
+export const COLLISION_CELL_SIZE = 1.2;
+export const COLLISION_MIN_DIST = 0.7;
+const COLLISION_PUSH = 0.15;
+const COLLISION_MAX_CHECKS = 10;
+// Pulls move a particle at most this share of its remaining distance to the hand per
+// step, so it settles on the point instead of overshooting and jittering across it
+export const MAX_PULL_FRACTION = 0.5;
+
+// PUSH_PULL: open hand repels, fist attracts. ATTRACT/REPEL/SWIRL scale with openness.
+export const handStrength = (mode: ForceMode, openness: number): number => {
+  switch (mode) {
+    case ForceMode.ATTRACT:
+      return -(0.2 + openness) * 0.8;
+    case ForceMode.REPEL:
+    case ForceMode.SWIRL:
+      return (0.2 + openness) * 0.8;
+    case ForceMode.PUSH_PULL:
+    default:
+      return (openness - 0.5) * 1.6;
+  }
+};
+
+// Openness drives the explosion / cohesion / noise terms the same way on both paths
+export const opennessToStepParams = (handOpenness: number, spread: number) => ({
+  explosionFactor: handOpenness * 60 * spread,
+  cohesionSpeed: 0.05 + (1 - handOpenness) * 0.1,
+  noiseAmt: handOpenness * 0.8
+});
+
+export class ParticleSimulation {
+  capacity: number;
+  count: number; // Live slots, see ParticleLifecycle.drawCount
+  positions: Float32Array;
+  targetPositions: Float32Array;
+  speeds: Float32Array; // Distance each particle moved in the last step
+
+  // Spatial hash for collisions: bucket heads + per-particle linked list
+  hashTable: Int32Array;
+  nextEntry: Int32Array;
+  hashSize = 16384; // 2^14 for bitwise masking
+
+  random: RandomSource;
+
+  constructor(capacity: number, initialPositions?: Float32Array, random: RandomSource = Math.random) {
+    this.capacity = capacity;
+    this.count = capacity;
+    this.positions = new Float32Array(capacity * 3);
+    this.targetPositions = new Float32Array(capacity * 3);
+    this.speeds = new Float32Array(capacity);
+    if (initialPositions) this.positions.set(initialPositions.subarray(0, capacity * 3));
+    this.hashTable = new Int32Array(this.hashSize);
+    this.nextEntry = new Int32Array(capacity);
+    this.random = random;
+  }
+
+  private hashCell(x: number, y: number, z: number): number {
+    const xi = Math.floor(x / COLLISION_CELL_SIZE);
+    const yi = Math.floor(y / COLLISION_CELL_SIZE);
+    const zi = Math.floor(z / COLLISION_CELL_SIZE);
+    return ((xi * 73856093) ^ (yi * 19349663) ^ (zi * 83492791)) & (this.hashSize - 1);
+  }
+
+  // Place slots [start, end) on their targets, e.g. when they come alive
+  spawn(start: number, end: number) {
+    if (end <= start) return;
+    this.positions.set(this.targetPositions.subarray(start * 3, end * 3), start * 3);
+    this.speeds.fill(0, start, end);
+  }
+
+  buildSpatialHash() {
+    const positions = this.positions;
+    this.hashTable.fill(-1);
+    this.nextEntry.fill(-1, 0, this.count);
+
+    for (let i = 0; i < this.count; i++) {
+      const idx = i * 3;
+      const hash = this.hashCell(positions[idx], positions[idx + 1], positions[idx + 2]);
+      this.nextEntry[i] = this.hashTable[hash];
+      this.hashTable[hash] = i;
+    }
+  }
+
+  step(params: SimulationStepParams) {
+    const { handOpenness, explosionFactor, cohesionSpeed, noiseAmt, explodeCenter, hands, forceRadius, swirl } = params;
+    const positions = this.positions;
+    const targets = this.targetPositions;
+    const random = this.random;
+    const handRadiusSq = forceRadius * forceRadius;
+
+    this.buildSpatialHash();
+
+    for (let i = 0; i < this.count; i++) {
+      const idx = i * 3;
+      const px = positions[idx];
+      const py = positions[idx + 1];
+      const pz = positions[idx + 2];
+
+      let tx = targets[idx];
+      let ty = targets[idx + 1];
+      let tz = targets[idx + 2];
+
+      if (handOpenness > 0.1) {
+        // Explosion radiates from the primary hand instead of the world origin
+        const ex = tx - explodeCenter.x;
+        const ey = ty - explodeCenter.y;
+        const ez = tz - explodeCenter.z;
+        const dist = Math.sqrt(ex * ex + ey * ey + ez * ez) + 0.1;
+
+        tx += (ex / dist) * explosionFactor;
+        ty += (ey / dist) * explosionFactor;
+        tz += (ez / dist) * explosionFactor;
+
+        tx += (random() - 0.5) * noiseAmt;
+        ty += (random() - 0.5) * noiseAmt;
+        tz += (random() - 0.5) * noiseAmt;
+      }
+
+      positions[idx] += (tx - positions[idx]) * cohesionSpeed;
+      positions[idx + 1] += (ty - positions[idx + 1]) * cohesionSpeed;
+      positions[idx + 2] += (tz - positions[idx + 2]) * cohesionSpeed;
+
+      for (let h = 0; h < hands.length; h++) {
+        const hp = hands[h];
+        const hdx = positions[idx] - hp.x;
+        const hdy = positions[idx + 1] - hp.y;
+        const hdz = positions[idx + 2] - hp.z;
+        const hDistSq = hdx * hdx + hdy * hdy + hdz * hdz;
+        if (hDistSq < handRadiusSq && hDistSq > 0.0001) {
+          const hDist = Math.sqrt(hDistSq);
+          const falloff = 1 - hDist / forceRadius;
+          const push = Math.max(hp.strength * falloff / hDist, -MAX_PULL_FRACTION);
+          if (swirl) {
+            // Tangential motion around the view axis through the hand, slight inward pull
+            positions[idx] += -hdy * push - hdx * push * 0.2;
+            positions[idx + 1] += hdx * push - hdy * push * 0.2;
+          } else {
+            positions[idx] += hdx * push;
+            positions[idx + 1] += hdy * push;
+            positions[idx + 2] += hdz * push;
+          }
+        }
+      }
+
+      // Separation from a few neighbours in the same hash bucket
+      let neighbor = this.hashTable[this.hashCell(positions[idx], positions[idx + 1], positions[idx + 2])];
+      let checkCount = 0;
+
+      while (neighbor !== -1 && checkCount < COLLISION_MAX_CHECKS) {
+        if (neighbor !== i) {
+          const nIdx = neighbor * 3;
+          const dx = positions[idx] - positions[nIdx];
+          const dy = positions[idx + 1] - positions[nIdx + 1];
+          const dz = positions[idx + 2] - positions[nIdx + 2];
+          const distSq = dx * dx + dy * dy + dz * dz;
+
+          if (distSq < COLLISION_MIN_DIST * COLLISION_MIN_DIST && distSq > 0.00001) {
+            const dist = Math.sqrt(distSq);
+            const force = (COLLISION_MIN_DIST - dist) / dist * COLLISION_PUSH;
+
+            positions[idx] += dx * force;
+            positions[idx + 1] += dy * force;
+            positions[idx + 2] += dz * force;
+          }
+        }
+        neighbor = this.nextEntry[neighbor];
+        checkCount++;
+      }
+
+      this.speeds[i] = Math.hypot(positions[idx] - px, positions[idx + 1] - py, positions[idx + 2] - pz);
+    }
+  }
+}
@@ -0,0 +1,246 @@
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { AfterimagePass } from 'three/examples/jsm/postprocessing/AfterimagePass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { FilmPass } from 'three/examples/jsm/postprocessing/FilmPass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { RGBShiftShader } from 'three/examples/jsm/shaders/RGBShiftShader.js';
+import { VignetteShader } from 'three/examples/jsm/shaders/VignetteShader.js';
+import { EffectsConfig } from '../types';
+
+export const DEFAULT_EFFECTS_CONFIG: EffectsConfig = {
+  bloom: true,
+  bloomStrength: 0.8,
+  bloomRadius: 0.4,
+  bloomThreshold: 0.1,
+  trails: false,
+  trailLength: 0.85,
+  chromatic: false,
+  chromaticAmount: 0.002,
+  vignette: true,
+  vignetteDarkness: 1.0,
+  grain: false,
+  grainIntensity: 0.3,
+  followHand: true,
+  autoQuality: true
+};
+
+const EFFECT_RANGES: Partial<Record<keyof EffectsConfig, [number, number]>> = {
+  bloomStrength: [0, 3],
+  bloomRadius: [0, 1],
+  bloomThreshold: [0, 1],
+  trailLength: [0, 0.98],
+  chromaticAmount: [0, 0.01],
+  vignetteDarkness: [0, 1.5],
+  grainIntensity: [0, 1]
+};
+
+// Validate partial effects from untrusted JSON: strengths are clamped to their ranges,
+// null if any present field has the wrong type. Unknown fields are dropped.
+export const parseEffectsPatch = (value: unknown): Partial<EffectsConfig> | null => {
+  if (!value || typeof value !== 'object') return null;
+  const v = value as Record<string, unknown>;
+  const patch: Record<string, number | boolean> = {};
+  for (const key of Object.keys(DEFAULT_EFFECTS_CONFIG) as (keyof EffectsConfig)[]) {
+    const field = v[key];
+    if (field === undefined) continue;
+    const range = EFFECT_RANGES[key];
+    if (range) {
+      if (typeof field !== 'number' || !Number.isFinite(field)) return null;
+      patch[key] = Math.min(Math.max(field, range[0]), range[1]);
+    } else {
+      if (typeof field !== 'boolean') return null;
+      patch[key] = field;
+    }
+  }
+  return patch as Partial<EffectsConfig>;
+};
+
+// Quality levels the governor steps through
+export enum EffectsQuality {
+  FULL = 0,
+  REDUCED = 1, // Half-resolution bloom, no grain / chromatic aberration
+  MINIMAL = 2 // Vignette only
+}
+
+export interface EffectStrengths {
+  bloomStrength: number;
+  trailDamp: number;
+  chromaticAmount: number;
+  vignetteDarkness: number;
+  grainIntensity: number;
+}
+
+// Actual pass values for a hand openness (0 = fist, 1 = open). At 0.5 they equal the config.
+export const effectStrengths = (effects: EffectsConfig, openness: number): EffectStrengths => {
+  const o = effects.followHand ? Math.min(Math.max(openness, 0), 1) : 0.5;
+  return {
+    bloomStrength: effects.bloomStrength * (0.5 + o),
+    trailDamp: Math.min(effects.trailLength * (0.8 + o * 0.4), 0.98),
+    chromaticAmount: effects.chromaticAmount * o * 2,
+    vignetteDarkness: effects.vignetteDarkness * (1.2 - o * 0.4),
+    grainIntensity: effects.grainIntensity
+  };
+};
+
+// Watches frame times and steps the effects quality down when the frame rate stays
+// low, and back up after a long stretch of fast frames
+export class QualityGovernor {
+  level: EffectsQuality = EffectsQuality.FULL;
+  private average = 1000 / 60;
+  private slowFor = 0;
+  private fastFor = 0;
+
+  constructor(
+    private slowFrameMs = 1000 / 40,
+    private fastFrameMs = 1000 / 55,
+    private degradeAfterMs = 2000,
+    private recoverAfterMs = 15000
+  ) {}
+
+  // Feed one frame duration; returns true when the level changed
+  sample(frameMs: number): boolean {
+    // Ignore stalls such as a backgrounded tab
+    if (frameMs > 250) return false;
+    this.average += (frameMs - this.average) * 0.05;
+
+    if (this.average > this.slowFrameMs) {
+      this.fastFor = 0;
+      this.slowFor += frameMs;
+      if (this.slowFor > this.degradeAfterMs && this.level < EffectsQuality.MINIMAL) {
+        this.level++;
+        this.slowFor = 0;
+        this.average = this.fastFrameMs; // Give the cheaper level a fair start
+        return true;
+      }
+    } else if (this.average < this.fastFrameMs) {
+      this.slowFor = 0;
+      this.fastFor += frameMs;
+      if (this.fastFor > this.recoverAfterMs && this.level > EffectsQuality.FULL) {
+        this.level--;
+        this.fastFor = 0;
+        return true;
+      }
+    } else {
+      this.slowFor = 0;
+      this.fastFor = 0;
+    }
+    return false;
+  }
+
+  reset() {
+    this.level = EffectsQuality.FULL;
+    this.average = 1000 / 60;
+    this.slowFor = 0;
+    this.fastFor = 0;
+  }
+}
+
+// EffectComposer chain: render -> bloom -> trails -> chromatic aberration -> vignette
+// -> grain -> output (tone mapping / sRGB). Falls back to a plain render when every
+// effect is off.
+export class PostProcessingPipeline {
+  renderer: THREE.WebGLRenderer;
+  scene: THREE.Scene;
+  camera: THREE.Camera;
+  composer: any;
+  governor = new QualityGovernor();
+
+  private bloomPass: any;
+  private afterimagePass: any;
+  private chromaticPass: any;
+  private vignettePass: any;
+  private filmPass: any;
+  private active = false;
+  private size = new THREE.Vector2();
+  private pixelRatio = 1;
+
+  constructor(renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.Camera) {
+    this.renderer = renderer;
+    this.scene = scene;
+    this.camera = camera;
+    renderer.getSize(this.size);
+
+    const d = DEFAULT_EFFECTS_CONFIG;
+    this.composer = new EffectComposer(renderer);
+    this.composer.addPass(new RenderPass(scene, camera));
+    this.bloomPass = new UnrealBloomPass(this.size.clone(), d.bloomStrength, d.bloomRadius, d.bloomThreshold);
+    this.composer.addPass(this.bloomPass);
+    this.afterimagePass = new AfterimagePass(d.trailLength);
+    this.composer.addPass(this.afterimagePass);
+    this.chromaticPass = new ShaderPass(RGBShiftShader);
+    this.composer.addPass(this.chromaticPass);
+    this.vignettePass = new ShaderPass(VignetteShader);
+    this.composer.addPass(this.vignettePass);
+    this.filmPass = new FilmPass(d.grainIntensity);
+    this.composer.addPass(this.filmPass);
+    this.composer.addPass(new OutputPass());
+    this.setSize(this.size.x, this.size.y, renderer.getPixelRatio());
+  }
+
+  // Call once per frame before render()
+  update(effects: EffectsConfig, openness: number, frameMs: number) {
+    if (effects.autoQuality) {
+      if (this.governor.sample(frameMs)) this.applyQuality();
+    } else if (this.governor.level !== EffectsQuality.FULL) {
+      this.governor.reset();
+      this.applyQuality();
+    }
+
+    const level = this.governor.level;
+    const s = effectStrengths(effects, openness);
+
+    this.bloomPass.enabled = effects.bloom && level < EffectsQuality.MINIMAL;
+    this.bloomPass.strength = s.bloomStrength;
+    this.bloomPass.radius = effects.bloomRadius;
+    this.bloomPass.threshold = effects.bloomThreshold;
+
+    this.afterimagePass.enabled = effects.trails && level < EffectsQuality.MINIMAL;
+    this.afterimagePass.uniforms.damp.value = s.trailDamp;
+
+    this.chromaticPass.enabled = effects.chromatic && level === EffectsQuality.FULL;
+    this.chromaticPass.uniforms.amount.value = s.chromaticAmount;
+
+    this.vignettePass.enabled = effects.vignette;
+    this.vignettePass.uniforms.darkness.value = s.vignetteDarkness;
+
+    this.filmPass.enabled = effects.grain && level === EffectsQuality.FULL;
+    this.filmPass.uniforms.intensity.value = s.grainIntensity;
+
+    this.active = this.bloomPass.enabled || this.afterimagePass.enabled || this.chromaticPass.enabled
+      || this.vignettePass.enabled || this.filmPass.enabled;
+  }
+
+  render(frameMs: number) {
+    if (this.active) {
+      this.composer.render(frameMs / 1000);
+    } else {
+      this.renderer.render(this.scene, this.camera);
+    }
+  }
+
+  setSize(width: number, height: number, pixelRatio: number) {
+    this.size.set(width, height);
+    this.pixelRatio = pixelRatio;
+    this.composer.setPixelRatio(pixelRatio);
+    this.composer.setSize(width, height);
+    this.applyQuality();
+  }
+
+  // Reduced quality blooms at half resolution
+  private applyQuality() {
+    const k = this.pixelRatio * (this.governor.level === EffectsQuality.FULL ? 1 : 0.5);
+    this.bloomPass.setSize(this.size.x * k, this.size.y * k);
+  }
+
+  get quality(): EffectsQuality {
+    return this.governor.level;
+  }
+
+  dispose() {
+    this.composer.passes.forEach((pass: any) => pass.dispose?.());
+    this.composer.dispose();
+  }
+}
@@ -0,0 +1,285 @@
+import { ForceMode, ParticleConfig, Point3D, ShapeType } from "../types";
+import { parseTransitionPatch } from "./morphTransition";
+import { normalizeColorSpec } from "./palette";
+import { parseEffectsPatch } from "./postProcessing";
+import { parseTextPatch } from "./textSampler";
+
+// Custom point sets are quantized to int16 per axis (relative to the largest
+// coordinate) and colors to 8 bits, then base64 encoded: 6 + 3 bytes per point.
+export interface EncodedShape {
+  count: number;
+  scale: number; // World units per int16 step
+  points: string; // base64 Int16Array, x/y/z interleaved
+  colors: string | null; // base64 Uint8Array, sRGB
+}
+
+export interface Preset {
+  name: string;
+  savedAt: number; // Date.now()
+  config: ParticleConfig;
+  customShape: EncodedShape | null;
+}
+
+export interface CustomShapeData {
+  points: Point3D[];
+  colors: Float32Array | null;
+}
+
+const PRESETS_KEY = 'particle-morph.presets';
+const SESSION_KEY = 'particle-morph.session';
+const HASH_PREFIX = '#preset=';
+export const SHARE_MAX_POINTS = 1500; // Keeps shared URLs under ~25 KB, even with colors
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const base64ToBytes = (b64: string): Uint8Array => {
+  const binary = atob(b64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const encodeShape = (points: Point3D[], colors: Float32Array | null, maxPoints = Infinity): EncodedShape => {
+  // Even stride subsample when a budget is given (shared links)
+  const stride = Math.max(1, points.length / maxPoints);
+  const count = Math.min(points.length, Math.floor(points.length / stride));
+
+  let maxAbs = 1e-6;
+  points.forEach(p => { maxAbs = Math.max(maxAbs, Math.abs(p.x), Math.abs(p.y), Math.abs(p.z)); });
+  const scale = maxAbs / 32767;
+
+  const q = new Int16Array(count * 3);
+  const c = colors ? new Uint8Array(count * 3) : null;
+  for (let n = 0; n < count; n++) {
+    const i = Math.floor(n * stride);
+    const p = points[i];
+    q[n * 3] = Math.round(p.x / scale);
+    q[n * 3 + 1] = Math.round(p.y / scale);
+    q[n * 3 + 2] = Math.round(p.z / scale);
+    if (c && colors) {
+      for (let k = 0; k < 3; k++) c[n * 3 + k] = Math.round(Math.min(Math.max(colors[i * 3 + k], 0), 1) * 255);
+    }
+  }
+
+  return {
+    count,
+    scale,
+    points: bytesToBase64(new Uint8Array(q.buffer)),
+    colors: c ? bytesToBase64(c) : null
+  };
+};
+
+export const decodeShape = (shape: EncodedShape): CustomShapeData => {
+  const bytes = base64ToBytes(shape.points);
+  const q = new Int16Array(bytes.buffer, 0, Math.floor(bytes.length / 2));
+  const count = Math.min(shape.count, Math.floor(q.length / 3));
+
+  const points: Point3D[] = [];
+  for (let n = 0; n < count; n++) {
+    points.push({ x: q[n * 3] * shape.scale, y: q[n * 3 + 1] * shape.scale, z: q[n * 3 + 2] * shape.scale });
+  }
+
+  let colors: Float32Array | null = null;
+  if (shape.colors) {
+    const c = base64ToBytes(shape.colors);
+    colors = new Float32Array(count * 3);
+    for (let i = 0; i < colors.length; i++) colors[i] = (c[i] ?? 255) / 255;
+  }
+  return { points, colors };
+};
+
+// Slider ranges of the numeric top-level config fields
+const CONFIG_RANGES: Partial<Record<keyof ParticleConfig, [number, number]>> = {
+  density: [0.1, 1],
+  spread: [0.1, 2],
+  forceRadius: [2, 25],
+  particleSize: [0.2, 2],
+  glow: [0, 2],
+  twinkle: [0, 1]
+};
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+// Top-level scalar fields of a stored config, null if any present field is invalid
+const parseScalarPatch = (value: unknown): Partial<ParticleConfig> | null => {
+  if (!value || typeof value !== 'object') return null;
+  const v = value as Record<string, unknown>;
+  const patch: Partial<ParticleConfig> = {};
+  for (const [key, [min, max]] of Object.entries(CONFIG_RANGES) as [keyof ParticleConfig, [number, number]][]) {
+    if (v[key] === undefined) continue;
+    if (!isFiniteNumber(v[key])) return null;
+    (patch as Record<string, number>)[key] = Math.min(Math.max(v[key], min), max);
+  }
+  if (v.shape !== undefined) {
+    if (!(Object.values(ShapeType) as unknown[]).includes(v.shape)) return null;
+    patch.shape = v.shape as ShapeType;
+  }
+  if (v.forceMode !== undefined) {
+    if (!(Object.values(ForceMode) as unknown[]).includes(v.forceMode)) return null;
+    patch.forceMode = v.forceMode as ForceMode;
+  }
+  if (v.seed !== undefined) {
+    if (!isFiniteNumber(v.seed)) return null;
+    patch.seed = v.seed >>> 0;
+  }
+  return patch;
+};
+
+// Keep each field of `value` the parser accepts on its own, the fallback for the rest
+const mergeFields = <T extends object>(value: unknown, fallback: T, parse: (v: unknown) => Partial<T> | null): T => {
+  const merged = { ...fallback };
+  if (!value || typeof value !== 'object') return merged;
+  for (const key of Object.keys(fallback)) {
+    if (key in value) Object.assign(merged, parse({ [key]: (value as Record<string, unknown>)[key] }));
+  }
+  return merged;
+};
+
+// Stored / imported configs may predate newer fields or carry invalid ones: both
+// come from the fallback, numbers are clamped to their slider ranges
+const mergeConfig = (stored: any, fallback: ParticleConfig): ParticleConfig => ({
+  ...mergeFields(stored, fallback, parseScalarPatch),
+  color: normalizeColorSpec(stored?.color, fallback.color),
+  text: mergeFields(stored?.text, fallback.text, parseTextPatch),
+  transition: mergeFields(stored?.transition, fallback.transition, parseTransitionPatch),
+  effects: mergeFields(stored?.effects, fallback.effects, parseEffectsPatch)
+});
+
+const isBase64 = (v: unknown): v is string => {
+  if (typeof v !== 'string') return false;
+  try {
+    atob(v);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Bad shapes are dropped here so decodeShape cannot fail on load
+const isEncodedShape = (shape: any): shape is EncodedShape =>
+  !!shape && typeof shape === 'object' &&
+  isBase64(shape.points) &&
+  (shape.colors === null || shape.colors === undefined || isBase64(shape.colors)) &&
+  isFiniteNumber(shape.scale) && shape.scale > 0 &&
+  Number.isInteger(shape.count) && shape.count >= 0;
+
+// Validate untrusted JSON (file import, URL hash, storage) into a Preset
+export const parsePreset = (json: string, fallback: ParticleConfig): Preset => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('预设文件不是有效的 JSON');
+  }
+  if (!data || typeof data !== 'object' || !data.config || typeof data.config !== 'object') {
+    throw new Error('预设文件缺少 config');
+  }
+  const shape = data.customShape;
+
+  return {
+    name: typeof data.name === 'string' && data.name ? data.name : '未命名预设',
+    savedAt: Number.isFinite(data.savedAt) ? data.savedAt : Date.now(),
+    config: mergeConfig(data.config, fallback),
+    customShape: isEncodedShape(shape)
+      ? { count: shape.count, scale: shape.scale, points: shape.points, colors: shape.colors ?? null }
+      : null
+  };
+};
+
+export const serializePreset = (preset: Preset): string => JSON.stringify(preset);
+
+export const createPreset = (
+  name: string,
+  config: ParticleConfig,
+  customShape: CustomShapeData | null,
+  maxPoints = Infinity
+): Preset => ({
+  name,
+  savedAt: Date.now(),
+  config,
+  customShape: customShape && customShape.points.length > 0
+    ? encodeShape(customShape.points, customShape.colors, maxPoints)
+    : null
+});
+
+// --- localStorage persistence ---
+
+const writeStorage = (key: string, value: string) => {
+  try {
+    localStorage.setItem(key, value);
+  } catch (e) {
+    // Quota exceeded (large custom shapes) or storage disabled (private mode)
+    throw new Error('本地存储空间不足或不可用，预设未保存');
+  }
+};
+
+export const listPresets = (fallback: ParticleConfig): Preset[] => {
+  try {
+    const raw = localStorage.getItem(PRESETS_KEY);
+    if (!raw) return [];
+    const list = JSON.parse(raw);
+    if (!Array.isArray(list)) return [];
+    return list.map(p => parsePreset(JSON.stringify(p), fallback));
+  } catch (e) {
+    console.warn("Stored presets unreadable, ignoring", e);
+    return [];
+  }
+};
+
+// Same name replaces the existing preset
+export const savePreset = (preset: Preset, fallback: ParticleConfig): Preset[] => {
+  const list = listPresets(fallback).filter(p => p.name !== preset.name);
+  list.push(preset);
+  writeStorage(PRESETS_KEY, JSON.stringify(list));
+  return list;
+};
+
+export const deletePreset = (name: string, fallback: ParticleConfig): Preset[] => {
+  const list = listPresets(fallback).filter(p => p.name !== name);
+  writeStorage(PRESETS_KEY, JSON.stringify(list));
+  return list;
+};
+
+export const saveSession = (preset: Preset) => {
+  try {
+    writeStorage(SESSION_KEY, serializePreset(preset));
+  } catch (e) {
+    console.warn("Session not saved", e);
+  }
+};
+
+export const loadSession = (fallback: ParticleConfig): Preset | null => {
+  try {
+    const raw = localStorage.getItem(SESSION_KEY);
+    return raw ? parsePreset(raw, fallback) : null;
+  } catch (e) {
+    console.warn("Last session unreadable, starting fresh", e);
+    return null;
+  }
+};
+
+// --- URL hash sharing ---
+
+// base64url so the payload survives in a URL fragment unescaped
+export const presetToHash = (preset: Preset): string => {
+  const b64 = bytesToBase64(new TextEncoder().encode(serializePreset(preset)));
+  return HASH_PREFIX + b64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const presetFromHash = (hash: string, fallback: ParticleConfig): Preset | null => {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  try {
+    const b64 = hash.slice(HASH_PREFIX.length).replace(/-/g, '+').replace(/_/g, '/');
+    const json = new TextDecoder().decode(base64ToBytes(b64));
+    return parsePreset(json, fallback);
+  } catch (e) {
+    console.warn("Shared preset in URL unreadable", e);
+    return null;
+  }
+};
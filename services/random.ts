@@ -0,0 +1,29 @@
+export const DEFAULT_SEED = 20240101;
+
+// Uniform [0, 1) source, drop-in for Math.random
+export type RandomSource = () => number;
+
+// Mulberry32: tiny, fast, and good enough for visual distributions
+export const createRandom = (seed: number): RandomSource => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Independent stream per purpose ('shape:HEART', 'background', ...) from one config seed,
+// so e.g. changing the shape never shifts the background stars
+export const deriveSeed = (seed: number, label: string): number => {
+  let h = 0x811c9dc5 ^ (seed >>> 0); // FNV-1a over the label, keyed by the seed
+  for (let i = 0; i < label.length; i++) {
+    h ^= label.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * 0xffffffff) >>> 0;
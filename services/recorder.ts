@@ -0,0 +1,220 @@
+import { GifEncoder } from './gifEncoder';
+
+export type RecordingFormat = 'video' | 'gif';
+
+export interface RecordingOptions {
+  format: RecordingFormat;
+  width: number; // 0 = match the canvas
+  height: number;
+  fps: number;
+  bitrate: number; // Video bits per second
+  includeCamera: boolean; // Picture-in-picture of the camera, like CameraPreview
+}
+
+export const DEFAULT_RECORDING_OPTIONS: RecordingOptions = {
+  format: 'video',
+  width: 1920,
+  height: 1080,
+  fps: 30,
+  bitrate: 8_000_000,
+  includeCamera: false
+};
+
+export const RESOLUTION_OPTIONS: { label: string; width: number; height: number }[] = [
+  { label: '窗口大小', width: 0, height: 0 },
+  { label: '720p', width: 1280, height: 720 },
+  { label: '1080p', width: 1920, height: 1080 },
+  { label: '竖屏 1080×1920', width: 1080, height: 1920 },
+  { label: '方形 1080×1080', width: 1080, height: 1080 }
+];
+
+export const FORMAT_OPTIONS: { label: string; value: RecordingFormat }[] = [
+  { label: '视频', value: 'video' },
+  { label: 'GIF', value: 'gif' }
+];
+
+export const FPS_OPTIONS = [24, 30, 60];
+export const BITRATE_OPTIONS = [4_000_000, 8_000_000, 16_000_000];
+
+// GIFs are encoded on the main thread while recording and grow quickly: keep them small
+export const GIF_MAX_SIZE = 480; // Longest side
+export const GIF_MAX_FPS = 15;
+
+// First container / codec combination the browser can record
+const MIME_CANDIDATES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  'video/mp4;codecs=avc1,mp4a',
+  'video/mp4'
+];
+
+const pickMimeType = (): string => {
+  for (const type of MIME_CANDIDATES) {
+    if (MediaRecorder.isTypeSupported(type)) return type;
+  }
+  return '';
+};
+
+// Size of the recorded frames for a canvas of sourceWidth x sourceHeight pixels
+export const recordingFrameSize = (
+  options: RecordingOptions, sourceWidth: number, sourceHeight: number
+): { width: number; height: number } => {
+  let width = options.width || sourceWidth;
+  let height = options.height || sourceHeight;
+  if (options.format === 'gif') {
+    const k = Math.min(GIF_MAX_SIZE / Math.max(width, height), 1);
+    width = Math.round(width * k);
+    height = Math.round(height * k);
+  }
+  // Even sizes: most encoders reject odd dimensions
+  return { width: width - (width % 2), height: height - (height % 2) };
+};
+
+export const timestampedName = (prefix: string, ext: string): string => {
+  const d = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${prefix}-${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}.${ext}`;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  // Give the download a moment to start before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Records the WebGL canvas (plus optional camera PIP) through a 2D compositing canvas,
+// as a MediaRecorder video or an animated GIF. drawFrame() must be called right after
+// each render: the WebGL drawing buffer is not preserved, so it is only readable in the
+// same task that rendered it. Nothing is recorded before the first such call.
+export class CanvasRecorder {
+  private source: HTMLCanvasElement;
+  private camera: HTMLVideoElement | null = null;
+  private composite = document.createElement('canvas');
+  private ctx: CanvasRenderingContext2D;
+  private recorder: MediaRecorder | null = null;
+  private gif: GifEncoder | null = null;
+  private chunks: Blob[] = [];
+  private frameInterval = 1000 / 30;
+  private lastFrameTime = 0;
+  mimeType = '';
+
+  constructor(source: HTMLCanvasElement) {
+    this.source = source;
+    const ctx = this.composite.getContext('2d');
+    if (!ctx) throw new Error('浏览器不支持画布录制');
+    this.ctx = ctx;
+  }
+
+  static isSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined'
+      && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+  }
+
+  get isRecording(): boolean {
+    return this.gif !== null || (this.recorder !== null && this.recorder.state !== 'inactive');
+  }
+
+  // `audio` is ignored for GIFs
+  start(options: RecordingOptions, audio: MediaStream | null, camera: HTMLVideoElement | null) {
+    const gif = options.format === 'gif';
+    if (!gif && !CanvasRecorder.isSupported()) throw new Error('当前浏览器不支持视频录制');
+    if (this.isRecording) return;
+
+    const { width, height } = recordingFrameSize(options, this.source.width, this.source.height);
+    this.composite.width = width;
+    this.composite.height = height;
+    this.camera = options.includeCamera ? camera : null;
+    this.frameInterval = 1000 / (gif ? Math.min(options.fps, GIF_MAX_FPS) : options.fps);
+    this.lastFrameTime = 0;
+    this.chunks = [];
+
+    if (gif) {
+      this.mimeType = 'image/gif';
+      this.gif = new GifEncoder(width, height);
+      return;
+    }
+
+    const stream = this.composite.captureStream(options.fps);
+    audio?.getAudioTracks().forEach(track => stream.addTrack(track));
+
+    this.mimeType = pickMimeType();
+    this.recorder = new MediaRecorder(stream, {
+      mimeType: this.mimeType || undefined,
+      videoBitsPerSecond: options.bitrate,
+      audioBitsPerSecond: 128_000
+    });
+    this.recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) this.chunks.push(e.data);
+    };
+    this.recorder.start(1000); // Flush every second so long takes don't sit in one buffer
+  }
+
+  drawFrame() {
+    if (!this.isRecording) return;
+    const now = performance.now();
+    if (now - this.lastFrameTime < this.frameInterval - 1) return;
+    this.lastFrameTime = now;
+
+    const { width, height } = this.composite;
+    const ctx = this.ctx;
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+
+    // Cover: fill the frame, cropping whichever side overflows
+    const sw = this.source.width, sh = this.source.height;
+    const scale = Math.max(width / sw, height / sh);
+    const dw = sw * scale, dh = sh * scale;
+    ctx.drawImage(this.source, (width - dw) / 2, (height - dh) / 2, dw, dh);
+
+    const cam = this.camera;
+    if (cam && cam.readyState >= 2 && cam.videoWidth > 0) {
+      // Bottom-right, mirrored, matching the on-screen preview
+      const pw = Math.round(Math.min(width, height) * 0.3);
+      const ph = Math.round(pw * cam.videoHeight / cam.videoWidth);
+      const margin = Math.round(pw * 0.08);
+      const x = width - pw - margin, y = height - ph - margin;
+      ctx.save();
+      ctx.translate(x + pw, y);
+      ctx.scale(-1, 1);
+      ctx.globalAlpha = 0.8;
+      ctx.drawImage(cam, 0, 0, pw, ph);
+      ctx.restore();
+      ctx.strokeStyle = 'rgba(255,255,255,0.2)';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x, y, pw, ph);
+    }
+
+    this.gif?.addFrame(ctx.getImageData(0, 0, width, height).data, this.frameInterval);
+  }
+
+  // Resolves with the finished recording
+  stop(): Promise<Blob> {
+    const gif = this.gif;
+    if (gif) {
+      this.gif = null;
+      this.camera = null;
+      if (gif.frameCount === 0) return Promise.reject(new Error('录制时间太短'));
+      return Promise.resolve(new Blob([gif.finish()], { type: 'image/gif' }));
+    }
+
+    const recorder = this.recorder;
+    if (!recorder || recorder.state === 'inactive') {
+      return Promise.reject(new Error('没有正在进行的录制'));
+    }
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        recorder.stream.getVideoTracks().forEach(track => track.stop());
+        this.recorder = null;
+        this.camera = null;
+        resolve(new Blob(this.chunks, { type: this.mimeType || 'video/webm' }));
+        this.chunks = [];
+      };
+      recorder.stop();
+    });
+  }
+}
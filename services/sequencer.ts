@@ -0,0 +1,212 @@
+import { ColorMode, ParticleConfig, Sequence, SequenceCue, ShapeType } from "../types";
+import { parseTransitionPatch } from "./morphTransition";
+import { PALETTE_PRESETS, parseColorPatch } from "./palette";
+import { parseTextPatch } from "./textSampler";
+
+// Example show, also what gets exported before anything was imported
+export const DEMO_SEQUENCE: Sequence = {
+  name: '示例节目',
+  loop: true,
+  cues: [
+    { shape: ShapeType.NEBULA, color: { mode: ColorMode.SOLID, solid: '#6366f1' }, duration: 20000 },
+    { shape: ShapeType.HEART, color: { mode: ColorMode.SOLID, solid: '#ec4899' }, transition: { duration: 2500 }, duration: 15000 },
+    {
+      shape: ShapeType.GALAXY,
+      color: { mode: ColorMode.SHAPE, gradient: PALETTE_PRESETS[0].stops },
+      spread: 1.5,
+      transition: { duration: 3000 },
+      duration: 20000
+    }
+  ]
+};
+
+export interface SequenceStatus {
+  name: string;
+  playing: boolean;
+  loop: boolean;
+  overridden: boolean; // A gesture took over, cues are held back until the override expires
+  cueIndex: number;
+  position: number; // ms from the start of the sequence
+  total: number; // ms
+}
+
+// Live override length after the last gesture before the show takes over again
+const OVERRIDE_HOLD_MS = 8000;
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+// Validate untrusted JSON (file import) into a Sequence, throwing a readable error
+export const parseSequence = (json: string): Sequence => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('节目文件不是有效的 JSON');
+  }
+
+  const rawCues = Array.isArray(data) ? data : data?.cues;
+  if (!Array.isArray(rawCues) || rawCues.length === 0) {
+    throw new Error('节目文件中没有 cues');
+  }
+
+  const shapes = Object.values(ShapeType) as string[];
+  const cues = rawCues.map((c: any, i: number): SequenceCue => {
+    const where = `第 ${i + 1} 个片段`;
+    if (!c || typeof c !== 'object') throw new Error(`${where}格式错误`);
+    if (!isFiniteNumber(c.duration) || c.duration <= 0) throw new Error(`${where}缺少有效的 duration（毫秒）`);
+    if (c.shape !== undefined && !shapes.includes(c.shape)) throw new Error(`${where}的 shape 无效：${c.shape}`);
+    const color = c.color !== undefined ? parseColorPatch(c.color) : undefined;
+    if (color === null) throw new Error(`${where}的 color 无效`);
+    if (c.density !== undefined && !isFiniteNumber(c.density)) throw new Error(`${where}的 density 无效`);
+    if (c.spread !== undefined && !isFiniteNumber(c.spread)) throw new Error(`${where}的 spread 无效`);
+    const text = c.text !== undefined ? parseTextPatch(c.text) : undefined;
+    if (text === null) throw new Error(`${where}的 text 无效`);
+    const transition = c.transition !== undefined ? parseTransitionPatch(c.transition) : undefined;
+    if (transition === null) throw new Error(`${where}的 transition 无效`);
+
+    const cue: SequenceCue = { duration: c.duration };
+    if (c.shape !== undefined) cue.shape = c.shape;
+    if (color) cue.color = color;
+    if (c.density !== undefined) cue.density = Math.min(Math.max(c.density, 0.1), 1);
+    if (c.spread !== undefined) cue.spread = Math.min(Math.max(c.spread, 0.1), 2);
+    if (text) cue.text = text;
+    if (transition) cue.transition = transition;
+    return cue;
+  });
+
+  return {
+    name: typeof data?.name === 'string' ? data.name : '未命名节目',
+    loop: data?.loop !== false,
+    cues
+  };
+};
+
+export const serializeSequence = (sequence: Sequence): string => JSON.stringify(sequence, null, 2);
+
+// Config patch a cue applies on top of the current config
+export const cueToConfig = (cue: SequenceCue, current: ParticleConfig): Partial<ParticleConfig> => {
+  const patch: Partial<ParticleConfig> = {};
+  if (cue.shape !== undefined) patch.shape = cue.shape;
+  if (cue.color) patch.color = { ...current.color, ...cue.color };
+  if (cue.density !== undefined) patch.density = cue.density;
+  if (cue.spread !== undefined) patch.spread = cue.spread;
+  if (cue.text) patch.text = { ...current.text, ...cue.text };
+  if (cue.transition) patch.transition = { ...current.transition, ...cue.transition };
+  return patch;
+};
+
+// Clock-driven playback of a Sequence. Call update() every frame; it hands back
+// the cue to apply whenever playback enters a new one (or resumes after an override).
+export class SequencePlayer {
+  sequence: Sequence;
+  playing = false;
+
+  private position = 0; // ms
+  private lastTime: number | null = null;
+  private cueIndex = -1; // Cue last handed out
+  private overrideUntil = 0;
+  private pendingApply = false; // Re-send the current cue on next update
+
+  constructor(sequence: Sequence = DEMO_SEQUENCE) {
+    this.sequence = sequence;
+  }
+
+  get total(): number {
+    return this.sequence.cues.reduce((sum, c) => sum + c.duration, 0);
+  }
+
+  load(sequence: Sequence) {
+    this.sequence = sequence;
+    this.position = 0;
+    this.cueIndex = -1;
+    this.overrideUntil = 0;
+  }
+
+  play() {
+    if (this.position >= this.total) this.position = 0;
+    this.playing = true;
+    this.lastTime = null;
+    this.pendingApply = true;
+  }
+
+  pause() {
+    this.playing = false;
+    this.lastTime = null;
+  }
+
+  setLoop(loop: boolean) {
+    this.sequence = { ...this.sequence, loop };
+  }
+
+  seek(ms: number) {
+    this.position = Math.min(Math.max(ms, 0), this.total);
+    this.pendingApply = true;
+  }
+
+  // Gestures call this: the live change wins for a while, then the show resumes
+  override(now: number = performance.now()) {
+    if (!this.playing) return;
+    this.overrideUntil = now + OVERRIDE_HOLD_MS;
+  }
+
+  private indexAt(position: number): number {
+    let t = 0;
+    for (let i = 0; i < this.sequence.cues.length; i++) {
+      t += this.sequence.cues[i].duration;
+      if (position < t) return i;
+    }
+    return this.sequence.cues.length - 1;
+  }
+
+  update(now: number = performance.now()): SequenceCue | null {
+    if (!this.playing || this.sequence.cues.length === 0) return null;
+
+    if (this.lastTime !== null) {
+      this.position += now - this.lastTime;
+    }
+    this.lastTime = now;
+
+    const total = this.total;
+    if (this.position >= total) {
+      if (this.sequence.loop) {
+        this.position %= total;
+      } else {
+        this.position = total;
+        this.pause();
+        return null;
+      }
+    }
+
+    const overridden = now < this.overrideUntil;
+    const index = this.indexAt(this.position);
+    if (overridden) {
+      // Keep the clock running, apply whatever cue is current once the override ends
+      if (index !== this.cueIndex) this.pendingApply = true;
+      this.cueIndex = index;
+      return null;
+    }
+    if (this.overrideUntil !== 0) {
+      this.overrideUntil = 0;
+      this.pendingApply = true;
+    }
+
+    if (index !== this.cueIndex || this.pendingApply) {
+      this.cueIndex = index;
+      this.pendingApply = false;
+      return this.sequence.cues[index];
+    }
+    return null;
+  }
+
+  getStatus(now: number = performance.now()): SequenceStatus {
+    return {
+      name: this.sequence.name,
+      playing: this.playing,
+      loop: this.sequence.loop,
+      overridden: now < this.overrideUntil,
+      cueIndex: Math.max(this.indexAt(this.position), 0),
+      position: this.position,
+      total: this.total
+    };
+  }
+}
@@ -0,0 +1,250 @@
+import { Point3D, ShapeType } from "../types";
+import { RandomSource } from "./random";
+
+// Point sets some shapes are built from (sampled text, drawn / imported points)
+export interface ShapeSources {
+  customPoints: Point3D[];
+  textPoints: Point3D[];
+}
+
+// `count` target points of the shape. Pure: the same random source state always gives
+// the same array, and a smaller count gives a prefix of a larger one (except TEXT,
+// whose sampled points depend on the count).
+// `params`, when given, receives a 0 - 1 shape parameter per point for the SHAPE color
+// mode: sphere / heart / nebula radius, galaxy arm, Möbius u, text / stroke order.
+export const generateShapeTargets = (
+  shape: ShapeType,
+  count: number,
+  random: RandomSource,
+  sources: ShapeSources = { customPoints: [], textPoints: [] },
+  params?: Float32Array
+): Float32Array => {
+  const out = new Float32Array(count * 3);
+
+  for (let i = 0; i < count; i++) {
+    let x = 0, y = 0, z = 0;
+    let param = 0;
+
+    switch (shape) {
+      case ShapeType.SPHERE:
+        const r = 12 * Math.cbrt(random());
+        const theta = random() * 2 * Math.PI;
+        const phi = Math.acos(2 * random() - 1);
+        x = r * Math.sin(phi) * Math.cos(theta);
+        y = r * Math.sin(phi) * Math.sin(theta);
+        z = r * Math.cos(phi);
+        param = r / 12;
+        break;
+
+      case ShapeType.HEART:
+        const t = random() * Math.PI * 2;
+        const scaleH = 0.9;
+        const hx = 16 * Math.pow(Math.sin(t), 3);
+        const hy = 13 * Math.cos(t) - 5 * Math.cos(2*t) - 2 * Math.cos(3*t) - Math.cos(4*t);
+        const rVol = random();
+        x = hx * scaleH * rVol;
+        y = hy * scaleH * rVol;
+        z = (random() - 0.5) * 10 * rVol;
+        param = rVol;
+        break;
+    
+      case ShapeType.GALAXY:
+         const arms = 3;
+         const spin = 3.5;
+         const rGal = Math.pow(random(), 0.7); // Bias towards center
+         const radius = rGal * 22; // Max radius
+         
+         const armIndex = i % arms;
+         const armAngle = (armIndex / arms) * Math.PI * 2;
+         
+         // Spiral equation: theta = a + b * r
+         const angleBase = armAngle + rGal * spin;
+         
+         // Add noise to arms (width increases with radius)
+         const spread = 0.3 + rGal * 0.8; 
+         const angleRandom = (random() - 0.5) * spread;
+         
+         const finalAngle = angleBase + angleRandom;
+
+         x = Math.cos(finalAngle) * radius;
+         y = Math.sin(finalAngle) * radius;
+         // Thicker at center, thinner at edges
+         z = (random() - 0.5) * (6 * (1 - rGal * 0.7)); 
+         param = (armIndex + 0.5) / arms;
+         break;
+
+      case ShapeType.MOBIUS:
+         // 3D Infinity Loop / Twisted Ribbon (Lemniscate Based)
+         const uMob = random() * Math.PI * 2;
+         // Width of the ribbon
+         const wMob = (random() - 0.5) * 6; 
+         const scale = 18; 
+         const depthScale = 4;
+
+         // 1. Center Line (Lemniscate with Z-wave for separation)
+         // x = sin(u)
+         // y = sin(u)cos(u) -> Figure 8
+         // z = cos(u) -> Vertical separation
+         const xc = scale * Math.sin(uMob);
+         const yc = scale * Math.sin(uMob) * Math.cos(uMob);
+         const zc = depthScale * Math.cos(uMob);
+
+         // 2. Calculate Tangent Vector (Derivative)
+         // dx = cos(u)
+         // dy = cos(2u)
+         // dz = -sin(u)
+         const tx = scale * Math.cos(uMob);
+         const ty = scale * Math.cos(2 * uMob);
+         const tz = -depthScale * Math.sin(uMob);
+         
+         // Normalize Tangent
+         const tLen = Math.sqrt(tx*tx + ty*ty + tz*tz);
+         const ntx = tx / tLen;
+         const nty = ty / tLen;
+         const ntz = tz / tLen;
+
+         // 3. Construct Normal Frame (Binormal up = Z, but we need robust frame)
+         // Approximate Up vector (Z-axis) usually works since curve is mostly flat-ish
+         // Normal = Up x Tangent
+         let nx = -nty; 
+         let ny = ntx;
+         let nz = 0;
+         // If tangent is vertical (rare here), fallback
+         const nLen = Math.sqrt(nx*nx + ny*ny + nz*nz);
+         nx /= nLen; ny /= nLen; nz /= nLen;
+
+         // Binormal = Tangent x Normal
+         const bx = nty * nz - ntz * ny;
+         const by = ntz * nx - ntx * nz;
+         const bz = ntx * ny - nty * nx;
+
+         // 4. Apply Twist
+         // Mobius twist: rotates 180 degrees (PI) over the full loop (2PI)
+         const twistAngle = uMob / 2;
+         const cosTwist = Math.cos(twistAngle);
+         const sinTwist = Math.sin(twistAngle);
+
+         // Offset vector = Normal * cos(twist) + Binormal * sin(twist)
+         const offX = nx * cosTwist + bx * sinTwist;
+         const offY = ny * cosTwist + by * sinTwist;
+         const offZ = nz * cosTwist + bz * sinTwist;
+
+         // 5. Final Position
+         x = xc + wMob * offX;
+         y = yc + wMob * offY;
+         z = zc + wMob * offZ;
+         
+         // Add some thickness volume
+         const thickness = (random() - 0.5) * 1.5;
+         // Add thickness along the "surface normal" (cross product of tangent and offset vector)
+         // Or just simple noise
+         x += (random() - 0.5) * 0.5;
+         y += (random() - 0.5) * 0.5;
+         z += (random() - 0.5) * 0.5 + thickness;
+         param = uMob / (Math.PI * 2);
+         break;
+
+      case ShapeType.TEXT:
+         if (sources.textPoints.length > 0) {
+             const p = sources.textPoints[i % sources.textPoints.length];
+             x = p.x;
+             y = p.y;
+             z = p.z;
+             param = (i % sources.textPoints.length) / sources.textPoints.length;
+         } else {
+             x = (random() - 0.5) * 5;
+             y = (random() - 0.5) * 5;
+             z = 0;
+             param = i / count;
+         }
+         break;
+
+      case ShapeType.CUSTOM:
+         if (sources.customPoints.length > 0) {
+             const p = sources.customPoints[i % sources.customPoints.length];
+             x = p.x + (random() - 0.5);
+             y = p.y + (random() - 0.5);
+             z = p.z + (random() - 0.5);
+             param = (i % sources.customPoints.length) / sources.customPoints.length;
+         } else {
+             const rs = 5;
+             x = (random() - 0.5) * rs;
+             y = (random() - 0.5) * rs;
+             z = 0;
+             param = i / count;
+         }
+         break;
+
+      case ShapeType.NEBULA:
+      default:
+         const angle = random() * Math.PI * 2;
+         const rad = (random() < 0.5 ? random() * 5 : random() * 20);
+         x = Math.cos(angle) * rad;
+         y = Math.sin(angle) * rad;
+         z = (random() - 0.5) * 10;
+         param = rad / 20;
+         break;
+    }
+
+    out[i * 3] = x;
+    out[i * 3 + 1] = y;
+    out[i * 3 + 2] = z;
+    if (params) params[i] = param;
+  }
+
+  return out;
+};
+
+// Initial scatter before the first shape forms: a 100-unit cube
+export const generateScatter = (count: number, random: RandomSource): Float32Array => {
+  const out = new Float32Array(count * 3);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = (random() - 0.5) * 100;
+  }
+  return out;
+};
+
+// Distant stardust: 70% in a Milky Way-like band, 30% spherical, radius 400 - 1200
+export const generateStardust = (count: number, random: RandomSource): Float32Array => {
+  const out = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const r = 400 + random() * 800;
+
+    let theta, phi;
+    if (random() < 0.7) {
+      // Band: phi close to PI/2 (equator) with some spread
+      theta = random() * Math.PI * 2;
+      const spread = 0.4;
+      phi = (Math.PI / 2) + (random() - 0.5) * spread;
+    } else {
+      theta = random() * Math.PI * 2;
+      phi = Math.acos(2 * random() - 1);
+    }
+
+    out[i * 3] = r * Math.sin(phi) * Math.cos(theta);
+    out[i * 3 + 1] = r * Math.sin(phi) * Math.sin(theta);
+    out[i * 3 + 2] = r * Math.cos(phi);
+  }
+  return out;
+};
+
+// Bright stars on a 200 - 800 shell, each with an index into a palette of `paletteSize` colors
+export const generateBrightStars = (
+  count: number,
+  paletteSize: number,
+  random: RandomSource
+): { positions: Float32Array; colorIndices: Uint8Array } => {
+  const positions = new Float32Array(count * 3);
+  const colorIndices = new Uint8Array(count);
+  for (let i = 0; i < count; i++) {
+    const r = 200 + random() * 600;
+    const theta = random() * Math.PI * 2;
+    const phi = Math.acos(2 * random() - 1);
+
+    positions[i * 3] = r * Math.sin(phi) * Math.cos(theta);
+    positions[i * 3 + 1] = r * Math.sin(phi) * Math.sin(theta);
+    positions[i * 3 + 2] = r * Math.cos(phi);
+    colorIndices[i] = Math.floor(random() * paletteSize);
+  }
+  return { positions, colorIndices };
+};
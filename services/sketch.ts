@@ -0,0 +1,277 @@
+import { Point3D } from '../types';
+import { RandomSource } from './random';
+
+// Freehand drawing for the CUSTOM shape. Strokes are kept as vector paths in world
+// units (origin at the canvas center, y up) and only turned into points on demand,
+// flat or as a solid: extruded, revolved around an axis, or inflated like a pillow.
+
+export interface SketchPoint {
+  x: number;
+  y: number;
+}
+
+export interface Stroke {
+  points: SketchPoint[];
+  width: number; // Brush width in world units
+}
+
+export type SketchSymmetry = 'none' | 'mirror' | 'radial';
+export type SketchVolumeMode = 'flat' | 'extrude' | 'lathe' | 'inflate';
+
+export interface SketchVolumeOptions {
+  mode: SketchVolumeMode;
+  depth: number; // Extrusion depth / inflated thickness in world units
+  latheAxis: 'x' | 'y'; // Axis the drawing is revolved around
+  sampleCount: number;
+}
+
+export const DEFAULT_SKETCH_OPTIONS: SketchVolumeOptions = {
+  mode: 'flat',
+  depth: 6,
+  latheAxis: 'y',
+  sampleCount: 12500
+};
+
+export const SKETCH_EXTENT = 40; // Canvas height in world units
+const MIN_POINT_STEP = 0.15; // Closer pointer samples are dropped
+const MAX_HISTORY = 100;
+
+export const canvasToSketch = (px: number, py: number, width: number, height: number): SketchPoint => {
+  const scale = SKETCH_EXTENT / height;
+  return { x: (px - width / 2) * scale, y: -(py - height / 2) * scale };
+};
+
+export const sketchToCanvas = (p: SketchPoint, width: number, height: number): { x: number; y: number } => {
+  const scale = height / SKETCH_EXTENT;
+  return { x: width / 2 + p.x * scale, y: height / 2 - p.y * scale };
+};
+
+// Append a pointer sample unless it is too close to the previous one. Returns whether it was added.
+export const addStrokePoint = (stroke: Stroke, p: SketchPoint): boolean => {
+  const last = stroke.points[stroke.points.length - 1];
+  if (last && Math.hypot(p.x - last.x, p.y - last.y) < MIN_POINT_STEP) return false;
+  stroke.points.push(p);
+  return true;
+};
+
+// Copies of a point for each symmetric stroke, the identity first
+export const symmetryTransforms = (symmetry: SketchSymmetry, folds: number): ((p: SketchPoint) => SketchPoint)[] => {
+  if (symmetry === 'mirror') return [p => p, p => ({ x: -p.x, y: p.y })];
+  if (symmetry === 'radial') {
+    const count = Math.max(Math.round(folds), 1);
+    return Array.from({ length: count }, (_, k) => {
+      const a = (k / count) * Math.PI * 2;
+      const cos = Math.cos(a), sin = Math.sin(a);
+      return (p: SketchPoint) => ({ x: p.x * cos - p.y * sin, y: p.x * sin + p.y * cos });
+    });
+  }
+  return [p => p];
+};
+
+export const symmetricStrokes = (stroke: Stroke, symmetry: SketchSymmetry, folds: number): Stroke[] =>
+  symmetryTransforms(symmetry, folds).map(t => ({ points: stroke.points.map(t), width: stroke.width }));
+
+// Stroke-level undo / redo. Every edit (adding strokes, clearing) is one step.
+export class SketchHistory {
+  strokes: Stroke[] = [];
+  private past: Stroke[][] = [];
+  private future: Stroke[][] = [];
+
+  get canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  // Strokes drawn together (one stroke and its symmetric copies) undo together
+  add(strokes: Stroke[]) {
+    if (strokes.length > 0) this.commit([...this.strokes, ...strokes]);
+  }
+
+  clear() {
+    if (this.strokes.length > 0) this.commit([]);
+  }
+
+  undo() {
+    const previous = this.past.pop();
+    if (!previous) return;
+    this.future.push(this.strokes);
+    this.strokes = previous;
+  }
+
+  redo() {
+    const next = this.future.pop();
+    if (!next) return;
+    this.past.push(this.strokes);
+    this.strokes = next;
+  }
+
+  private commit(next: Stroke[]) {
+    this.past.push(this.strokes);
+    if (this.past.length > MAX_HISTORY) this.past.shift();
+    this.future = [];
+    this.strokes = next;
+  }
+}
+
+export const strokeLength = (stroke: Stroke): number => {
+  let length = 0;
+  for (let i = 1; i < stroke.points.length; i++) {
+    length += Math.hypot(stroke.points[i].x - stroke.points[i - 1].x, stroke.points[i].y - stroke.points[i - 1].y);
+  }
+  return length;
+};
+
+// A stroke ending near its start outlines a region (what 'inflate' fills)
+export const isClosedStroke = (stroke: Stroke): boolean => {
+  const { points } = stroke;
+  if (points.length < 3) return false;
+  const gap = Math.hypot(points[0].x - points[points.length - 1].x, points[0].y - points[points.length - 1].y);
+  return gap < Math.max(stroke.width * 2, 1.5) && strokeLength(stroke) > gap * 4;
+};
+
+export const polygonArea = (points: SketchPoint[]): number => {
+  let sum = 0;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    sum += points[j].x * points[i].y - points[i].x * points[j].y;
+  }
+  return Math.abs(sum) / 2;
+};
+
+// Even-odd rule
+export const insidePolygon = (p: SketchPoint, points: SketchPoint[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i], b = points[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+const distanceToOutline = (p: SketchPoint, points: SketchPoint[]): number => {
+  let best = Infinity;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[j], b = points[i];
+    const dx = b.x - a.x, dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq > 0 ? Math.min(Math.max(((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq, 0), 1) : 0;
+    best = Math.min(best, Math.hypot(p.x - a.x - t * dx, p.y - a.y - t * dy));
+  }
+  return best;
+};
+
+// Point `u` (0 - 1 of the length) along a stroke with its unit normal; dots have a random normal
+const pointOnStroke = (stroke: Stroke, u: number, random: RandomSource) => {
+  const { points } = stroke;
+  const total = strokeLength(stroke);
+  if (points.length < 2 || total === 0) {
+    const a = random() * Math.PI * 2;
+    return { x: points[0].x, y: points[0].y, nx: Math.cos(a), ny: Math.sin(a) };
+  }
+  let remaining = u * total;
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1], b = points[i];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    if (length === 0) continue;
+    if (remaining <= length || i === points.length - 1) {
+      const t = Math.min(remaining / length, 1);
+      return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, nx: -(b.y - a.y) / length, ny: (b.x - a.x) / length };
+    }
+    remaining -= length;
+  }
+  return { x: points[0].x, y: points[0].y, nx: 0, ny: 1 };
+};
+
+// Points along one stroke for the flat / extrude / lathe / tube cases
+const sampleAlongStroke = (stroke: Stroke, count: number, options: SketchVolumeOptions, random: RandomSource, out: Point3D[]) => {
+  const half = stroke.width / 2;
+  let radiusMax = 0;
+  if (options.mode === 'lathe') {
+    for (const p of stroke.points) radiusMax = Math.max(radiusMax, Math.abs(options.latheAxis === 'y' ? p.x : p.y));
+  }
+
+  for (let i = 0, attempts = 0; i < count && attempts < count * 20; attempts++) {
+    const s = pointOnStroke(stroke, (i + random()) / count, random);
+    const offset = (random() - 0.5) * stroke.width;
+    const x = s.x + s.nx * offset;
+    const y = s.y + s.ny * offset;
+
+    switch (options.mode) {
+      case 'extrude':
+        out.push({ x, y, z: (random() - 0.5) * options.depth });
+        break;
+      case 'lathe': {
+        // Larger circles get proportionally more points so the surface density stays even
+        const r = Math.abs(options.latheAxis === 'y' ? x : y);
+        if (random() * (radiusMax + half) > r + half) continue;
+        const a = random() * Math.PI * 2;
+        out.push(options.latheAxis === 'y'
+          ? { x: r * Math.cos(a), y, z: r * Math.sin(a) }
+          : { x, y: r * Math.cos(a), z: r * Math.sin(a) });
+        break;
+      }
+      case 'inflate': {
+        // Open strokes become round tubes
+        const a = random() * Math.PI * 2;
+        out.push({ x: s.x + s.nx * half * Math.cos(a), y: s.y + s.ny * half * Math.cos(a), z: half * Math.sin(a) });
+        break;
+      }
+      default:
+        out.push({ x, y, z: (random() - 0.5) * stroke.width });
+    }
+    i++;
+  }
+};
+
+// Both faces of a closed outline blown up with a round profile: thickness depth at
+// the center, zero at the outline
+const sampleInflated = (stroke: Stroke, count: number, depth: number, random: RandomSource, out: Point3D[]) => {
+  const outline = stroke.points;
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const p of outline) {
+    minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
+    minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
+  }
+  // Inradius of the circle with the same area; exact for round outlines
+  const inradius = Math.max(Math.sqrt(polygonArea(outline) / Math.PI), 1e-3);
+
+  for (let i = 0, attempts = 0; i < count && attempts < count * 50; attempts++) {
+    const p = { x: minX + random() * (maxX - minX), y: minY + random() * (maxY - minY) };
+    if (!insidePolygon(p, outline)) continue;
+    const d = Math.min(distanceToOutline(p, outline) / inradius, 1);
+    const h = (depth / 2) * Math.sqrt(1 - (1 - d) * (1 - d));
+    out.push({ x: p.x, y: p.y, z: random() < 0.5 ? h : -h });
+    i++;
+  }
+};
+
+// Turn the drawing into about options.sampleCount points (fewer if rejection sampling
+// runs out of attempts on degenerate input), split between strokes by their size
+export const sketchToPoints = (strokes: Stroke[], options: SketchVolumeOptions, random: RandomSource): Point3D[] => {
+  const inflated = (stroke: Stroke) => options.mode === 'inflate' && isClosedStroke(stroke) && polygonArea(stroke.points) > 0;
+  const weights = strokes.map(stroke => {
+    if (stroke.points.length === 0) return 0;
+    if (inflated(stroke)) return 2 * polygonArea(stroke.points);
+    const length = Math.max(strokeLength(stroke), stroke.width);
+    return options.mode === 'inflate' ? Math.PI * stroke.width * length : length;
+  });
+  const total = weights.reduce((a, b) => a + b, 0);
+  if (total === 0) return [];
+
+  const out: Point3D[] = [];
+  let cumulative = 0;
+  let assigned = 0;
+  strokes.forEach((stroke, i) => {
+    // Running rounding so the counts add up to sampleCount exactly
+    cumulative += weights[i];
+    const next = Math.round((cumulative / total) * options.sampleCount);
+    const count = next - assigned;
+    assigned = next;
+    if (count <= 0) return;
+    if (inflated(stroke)) sampleInflated(stroke, count, options.depth, random, out);
+    else sampleAlongStroke(stroke, count, options, random, out);
+  });
+  return out;
+};
@@ -0,0 +1,109 @@
+import { Point3D, TextShapeOptions } from '../types';
+import { sampleImagePixels } from './imageSampler';
+import { RandomSource } from './random';
+
+export const DEFAULT_TEXT_OPTIONS: TextShapeOptions = {
+  content: '粒子变形',
+  fontFamily: 'sans',
+  fontWeight: 700,
+  align: 'center',
+  lineHeight: 1.2,
+  depth: 3
+};
+
+// Font stacks with CJK coverage on Windows / macOS / Linux
+export const FONT_FAMILIES: Record<string, { label: string; stack: string }> = {
+  sans: { label: '黑体', stack: '"PingFang SC", "Microsoft YaHei", "Noto Sans CJK SC", "Noto Sans SC", sans-serif' },
+  serif: { label: '宋体', stack: '"Songti SC", SimSun, "Noto Serif CJK SC", "Noto Serif SC", serif' },
+  kai: { label: '楷体', stack: '"Kaiti SC", KaiTi, STKaiti, "AR PL UKai CN", serif' },
+  mono: { label: '等宽', stack: '"SF Mono", Consolas, "Noto Sans Mono CJK SC", monospace' }
+};
+
+const TEXT_ALIGNS: unknown[] = ['left', 'center', 'right'];
+
+// Validate partial text options from untrusted JSON: numbers are clamped to their
+// ranges, null if any present field has the wrong type
+export const parseTextPatch = (value: unknown): Partial<TextShapeOptions> | null => {
+  if (!value || typeof value !== 'object') return null;
+  const v = value as Record<string, unknown>;
+  const patch: Partial<TextShapeOptions> = {};
+  if (v.content !== undefined) {
+    if (typeof v.content !== 'string') return null;
+    patch.content = v.content;
+  }
+  if (v.fontFamily !== undefined) {
+    if (typeof v.fontFamily !== 'string' || !v.fontFamily) return null;
+    patch.fontFamily = v.fontFamily;
+  }
+  if (v.fontWeight !== undefined) {
+    if (typeof v.fontWeight !== 'number' || !Number.isFinite(v.fontWeight)) return null;
+    patch.fontWeight = Math.min(Math.max(Math.round(v.fontWeight / 100) * 100, 100), 900);
+  }
+  if (v.align !== undefined) {
+    if (!TEXT_ALIGNS.includes(v.align)) return null;
+    patch.align = v.align as TextShapeOptions['align'];
+  }
+  if (v.lineHeight !== undefined) {
+    if (typeof v.lineHeight !== 'number' || !Number.isFinite(v.lineHeight)) return null;
+    patch.lineHeight = Math.min(Math.max(v.lineHeight, 0.5), 3);
+  }
+  if (v.depth !== undefined) {
+    if (typeof v.depth !== 'number' || !Number.isFinite(v.depth)) return null;
+    patch.depth = Math.min(Math.max(v.depth, 0), 12);
+  }
+  return patch;
+};
+
+const FONT_SIZE = 128; // Raster font size in px; sampling maps the result into world units
+const PADDING = 16;
+
+// Render (multi-line) text into an alpha mask
+export const rasterizeText = (options: TextShapeOptions): ImageData | null => {
+  const lines = options.content.split('\n');
+  if (lines.every(l => l.trim() === '')) return null;
+
+  const font = `${options.fontWeight} ${FONT_SIZE}px ${FONT_FAMILIES[options.fontFamily]?.stack ?? options.fontFamily}`;
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.font = font;
+  const widths = lines.map(l => ctx.measureText(l).width);
+  const maxWidth = Math.max(...widths, 1);
+  const linePx = FONT_SIZE * options.lineHeight;
+
+  canvas.width = Math.ceil(maxWidth + PADDING * 2);
+  canvas.height = Math.ceil(linePx * lines.length + PADDING * 2);
+
+  // Resizing the canvas resets its state
+  ctx.font = font;
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#ffffff';
+  lines.forEach((line, i) => {
+    let x = PADDING;
+    if (options.align === 'center') x = PADDING + (maxWidth - widths[i]) / 2;
+    else if (options.align === 'right') x = PADDING + maxWidth - widths[i];
+    ctx.fillText(line, x, PADDING + linePx * (i + 0.5));
+  });
+
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+// Distribute `count` points over the glyphs, extruded uniformly through `depth`
+export const sampleText = (options: TextShapeOptions, count: number, random: RandomSource = Math.random): Point3D[] => {
+  const pixels = rasterizeText(options);
+  if (!pixels) return [];
+
+  const { points } = sampleImagePixels(pixels, {
+    sampleCount: count,
+    threshold: 0.5,
+    invert: false,
+    weightBy: 'alpha',
+    depth: 0
+  }, random);
+
+  points.forEach(p => {
+    p.z = (random() - 0.5) * options.depth;
+  });
+  return points;
+};
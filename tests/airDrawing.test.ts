@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { HandData, Point3D } from '../types';
+import { AirPen } from '../services/airDrawing';
+
+const FINGER_X = [0.44, 0.48, 0.52, 0.56]; // Index, middle, ring, pinky
+
+// Upright hand (wrist at the bottom) with the given fingers extended and the thumb
+// tip at `thumb` (default: held away from the index)
+const hand = (extended: boolean[], thumb: Point3D = { x: 0.35, y: 0.65, z: 0 }): HandData => {
+  const landmarks: Point3D[] = Array.from({ length: 21 }, () => ({ x: 0.5, y: 0.8, z: 0 }));
+  landmarks[9] = { x: 0.5, y: 0.65, z: 0 };
+  landmarks[4] = thumb;
+  FINGER_X.forEach((x, i) => {
+    landmarks[6 + i * 4] = { x, y: 0.55, z: 0 }; // PIP
+    landmarks[8 + i * 4] = { x, y: extended[i] ? 0.45 : 0.68, z: 0 }; // Tip
+  });
+  return { isOpen: false, openness: 0, x: 0.5, y: 0.65, handedness: 'Right', score: 1, landmarks };
+};
+
+const OPEN = [true, true, true, true];
+const POINTING = [true, false, false, false];
+const FIST = [false, false, false, false];
+const pinch = (gap: number) => hand(OPEN, { x: 0.44 + gap, y: 0.45, z: 0 });
+
+describe('AirPen', () => {
+  it('follows the mirrored index tip', () => {
+    const state = new AirPen().update(hand(OPEN), 0);
+    expect(state.cursor).toEqual({ x: 0.56, y: 0.45 });
+    expect(state.penDown).toBe(false);
+  });
+
+  it('holds the pen down while pinching, with hysteresis', () => {
+    const pen = new AirPen();
+    expect(pen.update(pinch(0.06), 0).penDown).toBe(false); // 0.4 hand sizes: not yet
+    expect(pen.update(pinch(0.01), 16).penDown).toBe(true);
+    expect(pen.update(pinch(0.06), 32).penDown).toBe(true); // Loosening a little keeps drawing
+    expect(pen.update(pinch(0.1), 48).penDown).toBe(false);
+  });
+
+  it('draws while pointing when set to the pointing pose', () => {
+    const pen = new AirPen();
+    pen.trigger = 'point';
+    expect(pen.update(hand(POINTING), 0).penDown).toBe(false);
+    expect(pen.update(hand(POINTING), 16).penDown).toBe(false);
+    expect(pen.update(hand(POINTING), 32).penDown).toBe(true);
+    expect(pen.update(hand(OPEN), 48).penDown).toBe(true);
+    pen.update(hand(OPEN), 64);
+    expect(pen.update(hand(OPEN), 80).penDown).toBe(false);
+  });
+
+  it('confirms once after a held fist', () => {
+    const pen = new AirPen();
+    pen.update(pinch(0.01), 0);
+    const start = pen.update(hand(FIST), 16);
+    expect(start.penDown).toBe(false);
+    expect(start.confirmed).toBe(false);
+    expect(pen.update(hand(FIST), 516).confirmProgress).toBeCloseTo(0.5);
+
+    const confirmations = [];
+    for (let t = 532; t < 2000; t += 16) confirmations.push(pen.update(hand(FIST), t).confirmed);
+    expect(confirmations.filter(Boolean)).toHaveLength(1);
+
+    pen.update(hand(OPEN), 2016);
+    expect(pen.update(hand(FIST), 2032).confirmProgress).toBe(0);
+  });
+
+  it('rides out short tracking dropouts', () => {
+    const pen = new AirPen();
+    pen.update(pinch(0.01), 0);
+    expect(pen.update(null, 100).penDown).toBe(true);
+    const lost = pen.update(null, 300);
+    expect(lost.penDown).toBe(false);
+    expect(lost.cursor).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { InputSource } from '../types';
+import { AudioReactor, BeatDetector, extractBands, mixOpenness, spectralFlux } from '../services/audioAnalysis';
+
+const SAMPLE_RATE = 48000;
+const BINS = 1024; // fftSize 2048, 23.4 Hz per bin
+
+// Byte spectrum with `level` (0 - 255) between two frequencies
+const spectrum = (bands: [number, number, number][]) => {
+  const out = new Uint8Array(BINS);
+  const binHz = SAMPLE_RATE / (2 * BINS);
+  for (const [low, high, level] of bands) {
+    for (let i = Math.round(low / binHz); i < Math.min(Math.round(high / binHz), BINS); i++) out[i] = level;
+  }
+  return out;
+};
+
+// Four-on-the-floor at 120 bpm: a bass hit for 100 ms every 500 ms, steady mids
+const drumLoop = (reactor: AudioReactor, ms: number, loudness = 1) => {
+  const hit = spectrum([[20, 250, 220 * loudness], [250, 2000, 80 * loudness]]);
+  const rest = spectrum([[20, 250, 40 * loudness], [250, 2000, 80 * loudness]]);
+  const frames = [];
+  for (let t = 16; t <= ms; t += 16) {
+    frames.push(reactor.update(t % 500 < 100 ? hit : rest, SAMPLE_RATE, t));
+  }
+  return frames;
+};
+
+describe('extractBands', () => {
+  it('averages each band separately', () => {
+    const bands = extractBands(spectrum([[20, 250, 255], [2000, 12000, 51]]), SAMPLE_RATE);
+    expect(bands.bass).toBeGreaterThan(0.9);
+    expect(bands.mids).toBe(0);
+    expect(bands.highs).toBeCloseTo(0.2, 1);
+  });
+});
+
+describe('spectralFlux', () => {
+  it('only counts rising magnitudes', () => {
+    const quiet = spectrum([[20, 250, 50]]);
+    const loud = spectrum([[20, 250, 200]]);
+    expect(spectralFlux(quiet, loud)).toBeGreaterThan(0);
+    expect(spectralFlux(loud, quiet)).toBe(0);
+  });
+});
+
+describe('BeatDetector', () => {
+  it('finds periodic energy peaks but not steady energy', () => {
+    const detector = new BeatDetector();
+    let beats = 0;
+    for (let t = 0; t < 4000; t += 16) {
+      if (detector.detect(t % 500 < 100 ? 0.8 : 0.2, t)) beats++;
+    }
+    expect(beats).toBeGreaterThanOrEqual(7);
+    expect(beats).toBeLessThanOrEqual(8);
+
+    const steady = new BeatDetector();
+    let steadyBeats = 0;
+    for (let t = 0; t < 4000; t += 16) {
+      if (steady.detect(0.5, t)) steadyBeats++;
+    }
+    expect(steadyBeats).toBe(0);
+  });
+
+  it('ignores silence', () => {
+    const detector = new BeatDetector();
+    for (let t = 0; t < 1000; t += 16) {
+      expect(detector.detect(t % 500 < 100 ? 0.03 : 0, t)).toBe(false);
+    }
+  });
+});
+
+describe('AudioReactor', () => {
+  it('stays still in silence', () => {
+    const reactor = new AudioReactor();
+    let last;
+    for (let t = 16; t < 2000; t += 16) last = reactor.update(new Uint8Array(BINS), SAMPLE_RATE, t);
+    expect(last!.drive).toBe(0);
+    expect(last!.noise).toBe(0);
+    expect(last!.beat).toBe(false);
+  });
+
+  it('kicks the drive on beats', () => {
+    const frames = drumLoop(new AudioReactor(), 4000);
+    const beats = frames.filter(f => f.beat);
+    expect(beats.length).toBeGreaterThanOrEqual(7);
+    const drives = frames.slice(-31).map(f => f.drive);
+    expect(Math.max(...drives)).toBeGreaterThan(0.8);
+    expect(Math.min(...drives)).toBeLessThan(0.4);
+  });
+
+  it('reacts to a quiet source about as much as to a loud one', () => {
+    const loud = drumLoop(new AudioReactor(), 4000, 1);
+    const quiet = drumLoop(new AudioReactor(), 4000, 0.25);
+    const meanDrive = (frames: typeof loud) => frames.slice(-60).reduce((a, f) => a + f.drive, 0) / 60;
+    expect(meanDrive(quiet)).toBeCloseTo(meanDrive(loud), 1);
+  });
+
+  it('drifts the hue with the highs', () => {
+    const reactor = new AudioReactor();
+    const bright = spectrum([[2000, 12000, 200]]);
+    let hue = 0;
+    for (let t = 16; t <= 1000; t += 16) hue = reactor.update(bright, SAMPLE_RATE, t).hueShift;
+    expect(hue).toBeGreaterThan(0.3);
+    expect(hue).toBeLessThan(1);
+  });
+});
+
+describe('mixOpenness', () => {
+  const audio = { bands: { bass: 0, mids: 0, highs: 0 }, beat: false, onset: 0, drive: 0.5, noise: 0, hueShift: 0, spin: 0 };
+
+  it('picks or blends the inputs', () => {
+    expect(mixOpenness(InputSource.HAND, 0.2, audio)).toBe(0.2);
+    expect(mixOpenness(InputSource.AUDIO, 0.2, audio)).toBe(0.5);
+    expect(mixOpenness(InputSource.MIX, 0.2, audio)).toBeCloseTo(0.6);
+    expect(mixOpenness(InputSource.MIX, 0.2, null)).toBeCloseTo(0.2);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { CameraPath, HandData, Point3D } from '../types';
+import { HOME_POSITION, MAX_DISTANCE, MIN_DISTANCE, handCameraInput, pathPose } from '../services/cameraRig';
+
+// Hand with only the wrist (0) and middle knuckle (9) placed
+const hand = (wrist: Point3D, knuckle: Point3D): HandData => {
+  const landmarks = Array.from({ length: 21 }, () => ({ ...wrist }));
+  landmarks[9] = knuckle;
+  return { isOpen: true, openness: 1, x: knuckle.x, y: knuckle.y, handedness: 'Right', score: 1, landmarks };
+};
+
+describe('pathPose', () => {
+  it.each([[CameraPath.ORBIT], [CameraPath.SWOOP], [CameraPath.SPIRAL]])('%s circles the formation within zoom limits', (path) => {
+    let angle = 0;
+    let previous: number | null = null;
+    for (let t = 0; t < 120; t += 0.1) {
+      const { position, target } = pathPose(path, t);
+      expect(target).toEqual({ x: 0, y: 0, z: 0 });
+      const distance = Math.hypot(position.x, position.y, position.z);
+      expect(distance).toBeGreaterThanOrEqual(MIN_DISTANCE);
+      expect(distance).toBeLessThanOrEqual(MAX_DISTANCE);
+
+      const a = Math.atan2(position.x, position.z);
+      if (previous !== null) angle += Math.atan2(Math.sin(a - previous), Math.cos(a - previous));
+      previous = a;
+    }
+    expect(Math.abs(angle)).toBeGreaterThan(2 * Math.PI);
+  });
+
+  it('stays home without a path', () => {
+    expect(pathPose(CameraPath.NONE, 5).position).toEqual(HOME_POSITION);
+  });
+});
+
+describe('handCameraInput', () => {
+  it('reads tilt from the mirrored hand axis', () => {
+    const upright = handCameraInput(hand({ x: 0.5, y: 0.6, z: 0 }, { x: 0.5, y: 0.45, z: 0 }))!;
+    expect(upright.tilt).toBeCloseTo(0);
+    // Knuckle left of the wrist in video coords is right of it on the mirrored preview
+    const leaning = handCameraInput(hand({ x: 0.5, y: 0.6, z: 0 }, { x: 0.4, y: 0.5, z: 0 }))!;
+    expect(leaning.tilt).toBeCloseTo(Math.PI / 4);
+  });
+
+  it('reads depth from the hand size', () => {
+    const far = handCameraInput(hand({ x: 0.5, y: 0.6, z: 0 }, { x: 0.5, y: 0.55, z: 0 }))!;
+    const near = handCameraInput(hand({ x: 0.5, y: 0.8, z: 0 }, { x: 0.5, y: 0.4, z: 0 }))!;
+    expect(far.depth).toBe(0);
+    expect(near.depth).toBe(1);
+  });
+
+  it('ignores degenerate hands', () => {
+    expect(handCameraInput(hand({ x: 0.5, y: 0.5, z: 0 }, { x: 0.5, y: 0.5, z: 0 }))).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { GestureType, HandData, Point3D } from '../types';
+import { GestureRecognizer, classifyPose, fingerExtension, pinchDistance } from '../services/gestureRecognizer';
+
+type Thumb = 'tucked' | 'up' | 'pinch';
+
+// 21 MediaPipe landmarks, image coordinates (y down): wrist at the bottom, the four long
+// fingers pointing up when extended and curled back to their knuckles otherwise
+const handLandmarks = (extended: boolean[], thumb: Thumb = 'tucked'): Point3D[] => {
+  const p = (x: number, y: number): Point3D => ({ x, y, z: 0 });
+  const landmarks: Point3D[] = [p(0.5, 0.8), p(0.46, 0.76), p(0.42, 0.72), p(0.42, 0.71), p(0.43, 0.7)];
+  extended.forEach((out, k) => {
+    const x = 0.44 + 0.02 * k;
+    landmarks.push(p(x, 0.6), p(x, 0.5), p(x, out ? 0.42 : 0.55), p(x, out ? 0.35 : 0.6));
+  });
+  if (thumb === 'up') landmarks[4] = p(0.3, 0.45);
+  if (thumb === 'pinch') landmarks[4] = { ...landmarks[8] };
+  return landmarks;
+};
+
+const OPEN = [true, true, true, true];
+const NO_POSE = [false, true, false, true];
+const CLOSED = [false, false, false, false];
+
+const hand = (landmarks: Point3D[], x = 0.5): HandData => ({
+  isOpen: true, openness: 1, x, y: 0.5, handedness: 'Right', score: 1, landmarks
+});
+
+describe('fingerExtension / pinchDistance', () => {
+  it('tells extended fingers from curled ones', () => {
+    const fingers = fingerExtension(handLandmarks([true, false, true, false]));
+    expect(fingers.map(f => f.extended)).toEqual([true, false, true, false]);
+    expect(fingers[0].ratio).toBeGreaterThan(1.1);
+    expect(fingers[1].ratio).toBeLessThan(1);
+  });
+
+  it('measures the thumb to index gap in hand sizes', () => {
+    expect(pinchDistance(handLandmarks(OPEN, 'pinch'))).toBe(0);
+    expect(pinchDistance(handLandmarks(OPEN))).toBeGreaterThan(1);
+  });
+});
+
+describe('classifyPose', () => {
+  it('recognizes the static poses', () => {
+    expect(classifyPose(handLandmarks(OPEN)).type).toBe(GestureType.OPEN_PALM);
+    expect(classifyPose(handLandmarks(CLOSED)).type).toBe(GestureType.FIST);
+    expect(classifyPose(handLandmarks(CLOSED, 'up')).type).toBe(GestureType.THUMBS_UP);
+    expect(classifyPose(handLandmarks([true, false, false, false])).type).toBe(GestureType.POINT);
+    expect(classifyPose(handLandmarks([true, true, false, false])).type).toBe(GestureType.PEACE);
+    expect(classifyPose(handLandmarks(OPEN, 'pinch')).type).toBe(GestureType.PINCH);
+  });
+
+  it('rejects ambiguous or incomplete hands', () => {
+    expect(classifyPose(handLandmarks(NO_POSE)).type).toBeNull();
+    expect(classifyPose([]).type).toBeNull();
+  });
+});
+
+describe('GestureRecognizer', () => {
+  it('counts detections, not rendered frames, towards the hold', () => {
+    const recognizer = new GestureRecognizer({ holdFrames: 5 });
+    const palm = [hand(handLandmarks(OPEN))];
+    const fired: GestureType[] = [];
+    for (let detection = 0; detection < 5; detection++) {
+      // Four render frames per detection all repeat its timestamp
+      for (let frame = 0; frame < 4; frame++) {
+        recognizer.update(palm, detection * 66).forEach(e => fired.push(e.type));
+      }
+      if (detection < 4) expect(fired).toEqual([]);
+    }
+    expect(fired).toEqual([GestureType.OPEN_PALM]);
+  });
+
+  it('detects a swipe from the hand trajectory', () => {
+    const recognizer = new GestureRecognizer();
+    const landmarks = handLandmarks(NO_POSE);
+    // The preview is mirrored: decreasing camera x moves right on screen
+    const xs = [0.8, 0.7, 0.55, 0.4];
+    const events = xs.flatMap((x, i) => recognizer.update([hand(landmarks, x)], i * 80));
+    expect(events.map(e => e.type)).toEqual([GestureType.SWIPE_RIGHT]);
+  });
+
+  it('ignores short or diagonal movements', () => {
+    const recognizer = new GestureRecognizer();
+    const landmarks = handLandmarks(NO_POSE);
+    const track = (moves: number[][], start: number) =>
+      moves.flatMap(([x, y], i) => recognizer.update([{ ...hand(landmarks, x), y }], start + i * 80));
+    expect(track([[0.5, 0.5], [0.47, 0.5], [0.44, 0.5], [0.4, 0.5]], 0)).toEqual([]);
+    expect(track([[0.8, 0.2], [0.65, 0.35], [0.5, 0.5], [0.35, 0.65]], 1000)).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { GIF_PALETTE, GifEncoder, quantizeFrame } from '../services/gifEncoder';
+
+// Minimal GIF reader for the encoder's own layout: returns the palette indices and
+// delay of every frame
+const decodeGif = (bytes: Uint8Array) => {
+  let pos = 0;
+  const short = () => bytes[pos++] | (bytes[pos++] << 8);
+  expect(String.fromCharCode(...bytes.slice(0, 6))).toBe('GIF89a');
+  pos = 6;
+  const width = short(), height = short();
+  const packed = bytes[pos];
+  pos += 3 + (packed & 0x80 ? 3 * (2 << (packed & 7)) : 0);
+
+  const frames: { indices: number[]; delay: number }[] = [];
+  let delay = 0;
+  while (bytes[pos] !== 0x3b) {
+    const introducer = bytes[pos++];
+    if (introducer === 0x21) {
+      const label = bytes[pos++];
+      if (label === 0xf9) delay = bytes[pos + 2] | (bytes[pos + 3] << 8);
+      while (bytes[pos] !== 0) pos += bytes[pos] + 1;
+      pos++;
+      continue;
+    }
+    expect(introducer).toBe(0x2c);
+    pos += 9;
+    const minCodeSize = bytes[pos++];
+    const data: number[] = [];
+    while (bytes[pos] !== 0) {
+      const n = bytes[pos++];
+      data.push(...bytes.slice(pos, pos + n));
+      pos += n;
+    }
+    pos++;
+
+    // LZW decode, GIF variant
+    const clear = 1 << minCodeSize, end = clear + 1;
+    let size = minCodeSize + 1;
+    let table: number[][] = [];
+    const resetTable = () => {
+      table = Array.from({ length: clear }, (_, i) => [i]);
+      table.push([], []);
+      size = minCodeSize + 1;
+    };
+    resetTable();
+    const indices: number[] = [];
+    let bit = 0;
+    let prev: number[] | null = null;
+    for (;;) {
+      let code = 0;
+      for (let i = 0; i < size; i++, bit++) code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+      if (code === clear) { resetTable(); prev = null; continue; }
+      if (code === end) break;
+      const entry: number[] = code < table.length ? table[code] : [...prev!, prev![0]];
+      indices.push(...entry);
+      if (prev && table.length < 4096) {
+        table.push([...prev, entry[0]]);
+        if (table.length === 1 << size && size < 12) size++;
+      }
+      prev = entry;
+    }
+    expect(indices).toHaveLength(width * height);
+    frames.push({ indices, delay });
+  }
+  return { width, height, frames };
+};
+
+const frame = (width: number, height: number, pixel: (x: number, y: number) => [number, number, number]) => {
+  const rgba = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      rgba.set([...pixel(x, y), 255], (y * width + x) * 4);
+    }
+  }
+  return rgba;
+};
+
+describe('GifEncoder', () => {
+  it('round-trips frames through LZW, including table resets', () => {
+    const encoder = new GifEncoder(96, 80);
+    // Noise fills the code table several times over; a flat frame compresses to long runs
+    let seed = 1;
+    const noise = frame(96, 80, () => {
+      seed = (seed * 16807) % 2147483647;
+      return [seed & 255, (seed >> 8) & 255, (seed >> 16) & 255];
+    });
+    const flat = frame(96, 80, () => [255, 0, 0]);
+    encoder.addFrame(noise, 66);
+    encoder.addFrame(flat, 66);
+
+    const gif = decodeGif(encoder.finish());
+    expect(gif.width).toBe(96);
+    expect(gif.height).toBe(80);
+    expect(gif.frames.map(f => f.delay)).toEqual([7, 7]);
+    expect(gif.frames[0].indices).toEqual(Array.from(quantizeFrame(noise, 96, 80)));
+    expect(gif.frames[1].indices).toEqual(Array.from(quantizeFrame(flat, 96, 80)));
+  });
+
+  it('maps colors onto the palette with dithering that averages out', () => {
+    const indices = quantizeFrame(frame(8, 8, () => [128, 128, 128]), 8, 8);
+    let sum = 0;
+    indices.forEach(i => { sum += GIF_PALETTE[i * 3]; });
+    expect(sum / indices.length).toBeCloseTo(128, -1);
+    // Pure colors are in the palette and stay exact
+    const white = quantizeFrame(frame(4, 4, () => [255, 255, 255]), 4, 4);
+    expect(Array.from(GIF_PALETTE.slice(white[0] * 3, white[0] * 3 + 3))).toEqual([255, 255, 255]);
+  });
+});
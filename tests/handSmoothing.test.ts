@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { HandData } from '../types';
+import { HandSmoother } from '../services/handSmoothing';
+
+const hand = (x: number, openness = 0.8): HandData => ({
+  isOpen: openness > 0.5, openness, x, y: 0.5, handedness: 'Right', score: 1, landmarks: []
+});
+
+describe('HandSmoother', () => {
+  it('only filters new detections', () => {
+    // Detections every 100 ms, rendered at 60 fps: repeats must not pull the filter along
+    const rendered = new HandSmoother();
+    const detected = new HandSmoother();
+    let renderedX = 0, detectedX = 0;
+    for (let timestamp = 0; timestamp <= 1000; timestamp += 100) {
+      const detection = { hands: [hand(timestamp / 1000)], timestamp };
+      for (let t = timestamp; t < timestamp + 100; t += 16) renderedX = rendered.update(detection, t).hands[0].x;
+      detectedX = detected.update(detection, timestamp).hands[0].x;
+    }
+    expect(renderedX).toBe(detectedX);
+  });
+
+  it('eases back to idle at the same pace regardless of frame rate', () => {
+    const ease = (frameMs: number) => {
+      const smoother = new HandSmoother();
+      smoother.update({ hands: [hand(0.5, 1)], timestamp: 0 }, 0);
+      let openness = 1;
+      for (let t = frameMs; t <= 1000; t += frameMs) openness = smoother.update({ hands: [], timestamp: t }, t).openness;
+      return openness;
+    };
+    expect(ease(1000 / 30)).toBeCloseTo(ease(1000 / 60), 2);
+    expect(ease(1000 / 60)).toBeLessThan(0.8);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { LoadedModel, MeshSource, sampleModel } from '../services/modelSampler';
+import { createRandom } from '../services/random';
+
+// Closed axis-aligned box of half size h around the origin, as a triangle soup
+const box = (h: number): number[] => {
+  const faces: number[][][] = [];
+  for (let axis = 0; axis < 3; axis++) {
+    for (const side of [-h, h]) {
+      const [a, b] = [(axis + 1) % 3, (axis + 2) % 3];
+      const corner = (s: number, t: number) => {
+        const p = [0, 0, 0];
+        p[axis] = side; p[a] = s; p[b] = t;
+        return p;
+      };
+      faces.push([corner(-h, -h), corner(h, -h), corner(h, h)], [corner(-h, -h), corner(h, h), corner(-h, h)]);
+    }
+  }
+  return faces.flat(2);
+};
+
+const model = (positions: number[]): LoadedModel => {
+  const source: MeshSource = { positions: new Float32Array(positions), colors: null, uvs: null, texture: null, isPoints: false };
+  return { sources: [source], stats: { triangles: positions.length / 9, vertices: positions.length / 3, isPointCloud: false, hasColors: false } };
+};
+
+const sampleVolume = (m: LoadedModel, seed = 1) =>
+  sampleModel(m, { sampleCount: 2000, mode: 'volume', useColors: false }, createRandom(seed)).points;
+
+const chebyshev = (p: { x: number; y: number; z: number }) => Math.max(Math.abs(p.x), Math.abs(p.y), Math.abs(p.z));
+
+describe('sampleModel volume mode', () => {
+  it('fills a closed mesh evenly and reproducibly', () => {
+    const points = sampleVolume(model(box(1)));
+    expect(points).toHaveLength(2000);
+    expect(sampleVolume(model(box(1)))).toEqual(points);
+    for (const p of points) expect(chebyshev(p)).toBeLessThanOrEqual(12.001);
+    // The inner half of the cube holds an eighth of its volume
+    const inner = points.filter(p => chebyshev(p) < 6).length / points.length;
+    expect(inner).toBeGreaterThan(0.08);
+    expect(inner).toBeLessThan(0.17);
+  });
+
+  it('leaves cavities empty', () => {
+    const points = sampleVolume(model([...box(1), ...box(0.5)]));
+    expect(points).toHaveLength(2000);
+    for (const p of points) expect(chebyshev(p)).toBeGreaterThan(5.9);
+  });
+
+  it('keeps open meshes on their surface', () => {
+    const points = sampleVolume(model([0, 0, 0, 1, 0, 0, 0, 1, 0]));
+    expect(points).toHaveLength(2000);
+    for (const p of points) expect(p.z).toBeCloseTo(0);
+  });
+});
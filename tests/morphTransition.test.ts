@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { ShapeType, TransitionMatching } from '../types';
+import { createRandom } from '../services/random';
+import { generateShapeTargets } from '../services/shapeGenerators';
+import { computeCorrespondence } from '../services/morphTransition';
+
+const points = (shape: ShapeType, count: number, seed: number) =>
+  generateShapeTargets(shape, count, createRandom(seed));
+
+const expectPermutation = (order: Int32Array, count: number) => {
+  expect(order).toHaveLength(count);
+  expect(Array.from(order).sort((a, b) => a - b)).toEqual(Array.from({ length: count }, (_, i) => i));
+};
+
+const meanTravel = (from: Float32Array, to: Float32Array, order: Int32Array, count: number) => {
+  let sum = 0;
+  for (let i = 0; i < count; i++) {
+    const j = order[i] * 3;
+    sum += Math.hypot(from[i * 3] - to[j], from[i * 3 + 1] - to[j + 1], from[i * 3 + 2] - to[j + 2]);
+  }
+  return sum / count;
+};
+
+describe('computeCorrespondence', () => {
+  it.each([
+    [2000, 2000],
+    [800, 2000],
+    [2000, 800],
+    [0, 500]
+  ])('assigns every target exactly once for %i particles and %i targets', (particles, targets) => {
+    const from = points(ShapeType.SPHERE, particles, 1);
+    const to = points(ShapeType.HEART, targets, 2);
+    expectPermutation(computeCorrespondence(from, particles, to, targets, TransitionMatching.SPATIAL), targets);
+    expectPermutation(computeCorrespondence(from, particles, to, targets, TransitionMatching.AXIS), targets);
+  });
+
+  it('keeps RANDOM matching in slot order', () => {
+    const order = computeCorrespondence(points(ShapeType.SPHERE, 100, 1), 100, points(ShapeType.HEART, 100, 2), 100, TransitionMatching.RANDOM);
+    expect(Array.from(order)).toEqual(Array.from({ length: 100 }, (_, i) => i));
+  });
+
+  it('moves particles much less than random matching', () => {
+    // Two samplings of the same shape: each particle should find a nearby point
+    const from = points(ShapeType.SPHERE, 3000, 1);
+    const to = points(ShapeType.SPHERE, 3000, 2);
+    const random = computeCorrespondence(from, 3000, to, 3000, TransitionMatching.RANDOM);
+    const spatial = computeCorrespondence(from, 3000, to, 3000, TransitionMatching.SPATIAL);
+    expect(meanTravel(from, to, spatial, 3000)).toBeLessThan(meanTravel(from, to, random, 3000) * 0.5);
+  });
+
+  it('spreads fewer particles evenly over more targets', () => {
+    // Live particles cover the whole sphere, not just one end of the spatial order
+    const from = points(ShapeType.SPHERE, 500, 1);
+    const to = points(ShapeType.SPHERE, 2000, 2);
+    const order = computeCorrespondence(from, 500, to, 2000, TransitionMatching.AXIS);
+    let minX = Infinity, maxX = -Infinity;
+    for (let i = 0; i < 500; i++) {
+      minX = Math.min(minX, to[order[i] * 3]);
+      maxX = Math.max(maxX, to[order[i] * 3]);
+    }
+    expect(minX).toBeLessThan(-10);
+    expect(maxX).toBeGreaterThan(10);
+  });
+});
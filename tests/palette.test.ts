@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { ColorMode, GradientStop } from '../types';
+import {
+  DEFAULT_COLOR_SPEC, fillPalette, normalizeColorSpec, paletteRange, parseColorPatch, sampleGradient
+} from '../services/palette';
+
+const BLACK_TO_WHITE: GradientStop[] = [
+  { offset: 1, color: '#ffffff' },
+  { offset: 0, color: '#000000' }
+];
+
+describe('sampleGradient', () => {
+  it('interpolates between stops in any order', () => {
+    expect(sampleGradient(BLACK_TO_WHITE, 0)).toEqual([0, 0, 0]);
+    expect(sampleGradient(BLACK_TO_WHITE, 0.5)).toEqual([127.5, 127.5, 127.5]);
+    expect(sampleGradient(BLACK_TO_WHITE, 1)).toEqual([255, 255, 255]);
+  });
+
+  it('holds the end colors outside the stops', () => {
+    const stops = [{ offset: 0.25, color: '#ff0000' }, { offset: 0.75, color: '#0000ff' }];
+    expect(sampleGradient(stops, 0)).toEqual([255, 0, 0]);
+    expect(sampleGradient(stops, 1)).toEqual([0, 0, 255]);
+  });
+});
+
+describe('fillPalette', () => {
+  it('bakes the gradient into opaque texels', () => {
+    const data = new Uint8Array(4 * 5);
+    fillPalette(data, BLACK_TO_WHITE);
+    expect(Array.from(data.subarray(0, 4))).toEqual([0, 0, 0, 255]);
+    expect(Array.from(data.subarray(8, 12))).toEqual([128, 128, 128, 255]);
+    expect(Array.from(data.subarray(16, 20))).toEqual([255, 255, 255, 255]);
+  });
+});
+
+describe('parseColorPatch', () => {
+  it('accepts the old string form', () => {
+    expect(parseColorPatch('MULTICOLOR')).toEqual({ mode: ColorMode.RANDOM });
+    expect(parseColorPatch('#ec4899')).toEqual({ mode: ColorMode.SOLID, solid: '#ec4899' });
+  });
+
+  it('keeps valid fields and clamps stop offsets', () => {
+    expect(parseColorPatch({ mode: 'HEIGHT', gradient: [{ offset: -1, color: '#000000' }, { offset: 2, color: '#ffffff' }] }))
+      .toEqual({ mode: ColorMode.HEIGHT, gradient: [{ offset: 0, color: '#000000' }, { offset: 1, color: '#ffffff' }] });
+  });
+
+  it.each([
+    ['red'],
+    [{ mode: 'PLAID' }],
+    [{ solid: 'blue' }],
+    [{ gradient: [{ offset: 0, color: '#000000' }] }],
+    [{ cycleSpeed: 'fast' }]
+  ])('rejects %j', (value) => {
+    expect(parseColorPatch(value)).toBeNull();
+  });
+});
+
+describe('normalizeColorSpec', () => {
+  it('fills missing fields and falls back on invalid input', () => {
+    expect(normalizeColorSpec({ mode: 'RADIAL' }, DEFAULT_COLOR_SPEC)).toEqual({ ...DEFAULT_COLOR_SPEC, mode: ColorMode.RADIAL });
+    expect(normalizeColorSpec({ mode: 'RADIAL', solid: 42 }, DEFAULT_COLOR_SPEC)).toEqual(DEFAULT_COLOR_SPEC);
+    expect(normalizeColorSpec(undefined, DEFAULT_COLOR_SPEC)).toEqual(DEFAULT_COLOR_SPEC);
+  });
+});
+
+describe('paletteRange', () => {
+  const targets = new Float32Array([0, -2, 0, 3, 4, 0, 0, 5, 12]);
+
+  it('spans the shape for the position modes', () => {
+    expect(paletteRange(ColorMode.HEIGHT, targets, 3, 8)).toEqual([-2, 5]);
+    expect(paletteRange(ColorMode.RADIAL, targets, 3, 8)).toEqual([0, 13]);
+    expect(paletteRange(ColorMode.HUE_CYCLE, targets, 2, 8)).toEqual([0, 5]);
+  });
+
+  it('uses fixed ranges otherwise', () => {
+    expect(paletteRange(ColorMode.HAND_DISTANCE, targets, 3, 8)).toEqual([0, 16]);
+    expect(paletteRange(ColorMode.SHAPE, targets, 3, 8)).toEqual([0, 1]);
+    expect(paletteRange(ColorMode.RADIAL, targets, 0, 8)).toEqual([0, 1]);
+  });
+});
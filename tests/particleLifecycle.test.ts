@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { FADE_IN_MS, FADE_OUT_MS, ParticleLifecycle } from '../services/particleLifecycle';
+
+const settle = (lifecycle: ParticleLifecycle, ms: number) => {
+  for (let t = 0; t <= ms; t += 16) lifecycle.update(16);
+};
+
+describe('ParticleLifecycle', () => {
+  it('fades new slots in from zero', () => {
+    const lifecycle = new ParticleLifecycle(100);
+    expect(lifecycle.setActiveCount(60)).toBe(0);
+    expect(lifecycle.drawCount).toBe(60);
+    expect(lifecycle.alpha[0]).toBe(0);
+
+    lifecycle.update(FADE_IN_MS / 2);
+    expect(lifecycle.alpha[59]).toBeCloseTo(0.5);
+    expect(lifecycle.alpha[60]).toBe(0);
+
+    settle(lifecycle, FADE_IN_MS);
+    expect(lifecycle.alpha[59]).toBe(1);
+    expect(lifecycle.update(16)).toBe(false);
+  });
+
+  it('keeps removed slots drawn until they have faded out', () => {
+    const lifecycle = new ParticleLifecycle(100);
+    lifecycle.setActiveCount(80);
+    settle(lifecycle, FADE_IN_MS);
+
+    expect(lifecycle.setActiveCount(30)).toBe(80);
+    lifecycle.update(FADE_OUT_MS / 2);
+    expect(lifecycle.activeCount).toBe(30);
+    expect(lifecycle.drawCount).toBe(80);
+    expect(lifecycle.alpha[29]).toBe(1);
+    expect(lifecycle.alpha[79]).toBeCloseTo(0.5);
+
+    settle(lifecycle, FADE_OUT_MS);
+    expect(lifecycle.drawCount).toBe(30);
+  });
+
+  it('revives fading slots without respawning them', () => {
+    const lifecycle = new ParticleLifecycle(100);
+    lifecycle.setActiveCount(80);
+    settle(lifecycle, FADE_IN_MS);
+    lifecycle.setActiveCount(20);
+    lifecycle.update(FADE_OUT_MS / 2);
+
+    // Slots 20 - 79 are still drawn, only 80 - 89 are new
+    expect(lifecycle.setActiveCount(90)).toBe(80);
+    expect(lifecycle.alpha[50]).toBeCloseTo(0.5);
+    expect(lifecycle.alpha[85]).toBe(0);
+    settle(lifecycle, FADE_IN_MS);
+    expect(lifecycle.alpha[50]).toBe(1);
+    expect(lifecycle.alpha[85]).toBe(1);
+  });
+
+  it('clamps the count to the capacity', () => {
+    const lifecycle = new ParticleLifecycle(10);
+    lifecycle.setActiveCount(25);
+    expect(lifecycle.activeCount).toBe(10);
+    lifecycle.setActiveCount(-3);
+    expect(lifecycle.activeCount).toBe(0);
+  });
+});
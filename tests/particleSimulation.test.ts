@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest';
+import { ForceMode, ShapeType } from '../types';
+import { createRandom } from '../services/random';
+import { generateScatter, generateShapeTargets } from '../services/shapeGenerators';
+import {
+  COLLISION_MIN_DIST,
+  HandForcePoint,
+  ParticleSimulation,
+  SimulationStepParams,
+  handStrength,
+  opennessToStepParams
+} from '../services/particleSimulation';
+
+// Closed fist, no hands: particles settle onto their targets
+const restParams = (overrides: Partial<SimulationStepParams> = {}): SimulationStepParams => ({
+  time: 0,
+  handOpenness: 0,
+  ...opennessToStepParams(0, 1),
+  explodeCenter: { x: 0, y: 0, z: 0 },
+  hands: [],
+  forceRadius: 15,
+  swirl: false,
+  ...overrides
+});
+
+const run = (sim: ParticleSimulation, frames: number, params = restParams()) => {
+  for (let f = 0; f < frames; f++) sim.step({ ...params, time: f / 60 });
+};
+
+const distance = (a: Float32Array, i: number, j: number) =>
+  Math.hypot(a[i * 3] - a[j * 3], a[i * 3 + 1] - a[j * 3 + 1], a[i * 3 + 2] - a[j * 3 + 2]);
+
+const meanDistanceFrom = (sim: ParticleSimulation, p: { x: number; y: number; z: number }, count: number) => {
+  let sum = 0;
+  for (let i = 0; i < count; i++) {
+    const idx = i * 3;
+    sum += Math.hypot(sim.positions[idx] - p.x, sim.positions[idx + 1] - p.y, sim.positions[idx + 2] - p.z);
+  }
+  return sum / count;
+};
+
+describe('ParticleSimulation', () => {
+  it('only moves the first `count` slots', () => {
+    const capacity = 2000;
+    const scatter = generateScatter(capacity, createRandom(1));
+    const sim = new ParticleSimulation(capacity, scatter, createRandom(2));
+    sim.targetPositions.set(generateShapeTargets(ShapeType.SPHERE, capacity, createRandom(3)));
+    sim.count = 1200;
+    run(sim, 30, restParams({ handOpenness: 0.8, ...opennessToStepParams(0.8, 1) }));
+
+    expect(sim.positions.subarray(0, 1200 * 3)).not.toEqual(scatter.subarray(0, 1200 * 3));
+    expect(sim.positions.subarray(1200 * 3)).toEqual(scatter.subarray(1200 * 3));
+  });
+
+  it('spawns slots on their targets', () => {
+    const sim = new ParticleSimulation(10, generateScatter(10, createRandom(1)));
+    sim.targetPositions.set(generateShapeTargets(ShapeType.SPHERE, 10, createRandom(3)));
+    sim.spawn(4, 7);
+    const slot = (a: Float32Array, i: number) => Array.from(a.subarray(i * 3, i * 3 + 3));
+    for (let i = 0; i < 10; i++) {
+      const onTarget = slot(sim.positions, i).every((v, k) => v === slot(sim.targetPositions, i)[k]);
+      expect(onTarget).toBe(i >= 4 && i < 7);
+    }
+  });
+
+  it('records how far each particle moved', () => {
+    const sim = new ParticleSimulation(500, generateScatter(500, createRandom(1)), createRandom(2));
+    sim.targetPositions.set(generateShapeTargets(ShapeType.SPHERE, 500, createRandom(3)));
+    const before = sim.positions.slice();
+    const mean = () => sim.speeds.reduce((a, b) => a + b, 0) / sim.speeds.length;
+    run(sim, 1);
+    const flying = mean();
+    for (const i of [0, 99, 499]) {
+      expect(sim.speeds[i]).toBeCloseTo(Math.hypot(
+        sim.positions[i * 3] - before[i * 3],
+        sim.positions[i * 3 + 1] - before[i * 3 + 1],
+        sim.positions[i * 3 + 2] - before[i * 3 + 2]
+      ));
+      expect(sim.speeds[i]).toBeGreaterThan(0);
+    }
+    // Settled particles barely move
+    run(sim, 600);
+    expect(mean()).toBeLessThan(flying * 0.01);
+  });
+
+  it('converges onto well separated targets when the hand is closed', () => {
+    const capacity = 1000;
+    const sim = new ParticleSimulation(capacity, generateScatter(capacity, createRandom(1)), createRandom(2));
+    sim.targetPositions.set(generateShapeTargets(ShapeType.SPHERE, capacity, createRandom(3)));
+    run(sim, 400);
+
+    // Sparse sphere: collisions barely disturb the formation
+    const offsets = Array.from({ length: capacity }, (_, i) => Math.hypot(
+      sim.positions[i * 3] - sim.targetPositions[i * 3],
+      sim.positions[i * 3 + 1] - sim.targetPositions[i * 3 + 1],
+      sim.positions[i * 3 + 2] - sim.targetPositions[i * 3 + 2]
+    ));
+    expect(offsets.reduce((a, b) => a + b, 0) / capacity).toBeLessThan(COLLISION_MIN_DIST);
+  });
+
+  it('pushes apart particles sharing one target instead of collapsing them', () => {
+    const capacity = 64;
+    const sim = new ParticleSimulation(capacity, generateScatter(capacity, createRandom(1)), createRandom(2));
+    sim.targetPositions.fill(0);
+    run(sim, 300);
+
+    // Pure cohesion would leave them within 1e-20 of the target after 300 frames
+    let minDist = Infinity;
+    for (let i = 0; i < capacity; i++) {
+      for (let j = i + 1; j < capacity; j++) minDist = Math.min(minDist, distance(sim.positions, i, j));
+    }
+    expect(minDist).toBeGreaterThan(0.01);
+    expect(meanDistanceFrom(sim, { x: 0, y: 0, z: 0 }, capacity)).toBeGreaterThan(0.2);
+  });
+
+  it('separates a close pair in one hash cell to the collision distance', () => {
+    // Both start in the middle of the same cell; only same-bucket neighbours are checked
+    const start = new Float32Array([0.55, 0.6, 0.6, 0.65, 0.6, 0.6]);
+    const sim = new ParticleSimulation(2, start);
+    sim.targetPositions.set(start);
+    // No cohesion so only collision moves them
+    run(sim, 60, restParams({ cohesionSpeed: 0 }));
+
+    const d = distance(sim.positions, 0, 1);
+    expect(d).toBeCloseTo(COLLISION_MIN_DIST, 2);
+    expect(d).toBeLessThanOrEqual(COLLISION_MIN_DIST + 1e-6);
+  });
+
+  it('never moves particles that are already further apart than the collision distance', () => {
+    const start = new Float32Array([0, 0, 0, COLLISION_MIN_DIST + 0.05, 0, 0]);
+    const sim = new ParticleSimulation(2, start);
+    sim.targetPositions.set(start);
+    run(sim, 10);
+    expect(Array.from(sim.positions)).toEqual(Array.from(start));
+  });
+
+  describe('hand forces', () => {
+    const capacity = 500;
+    const hand = { x: 0, y: 0, z: 0 };
+
+    const withHand = (mode: ForceMode, openness: number) => {
+      const sim = new ParticleSimulation(capacity, undefined, createRandom(4));
+      const targets = generateShapeTargets(ShapeType.SPHERE, capacity, createRandom(5));
+      sim.positions.set(targets);
+      sim.targetPositions.set(targets);
+      const hands: HandForcePoint[] = [{ ...hand, strength: handStrength(mode, openness) }];
+      run(sim, 20, restParams({ hands }));
+      return meanDistanceFrom(sim, hand, capacity);
+    };
+
+    it('repels with REPEL and attracts with ATTRACT', () => {
+      // Half-open hand in PUSH_PULL exerts no force
+      const rest = withHand(ForceMode.PUSH_PULL, 0.5);
+      expect(withHand(ForceMode.REPEL, 0.5)).toBeGreaterThan(rest);
+      expect(withHand(ForceMode.ATTRACT, 0.5)).toBeLessThan(rest);
+    });
+
+    it('settles near the hand with ATTRACT instead of stepping across it', () => {
+      const sim = new ParticleSimulation(1, undefined, createRandom(4));
+      sim.positions.set([0.3, 0, 0]);
+      sim.targetPositions.set([0.3, 0, 0]);
+      const hands: HandForcePoint[] = [{ ...hand, strength: handStrength(ForceMode.ATTRACT, 1) }];
+      for (let f = 0; f < 60; f++) {
+        sim.step({ ...restParams({ hands }), time: f / 60 });
+        expect(sim.positions[0]).toBeGreaterThan(0);
+      }
+    });
+
+    it('maps openness to direction in PUSH_PULL mode', () => {
+      expect(handStrength(ForceMode.PUSH_PULL, 1)).toBeGreaterThan(0);
+      expect(handStrength(ForceMode.PUSH_PULL, 0)).toBeLessThan(0);
+      expect(handStrength(ForceMode.PUSH_PULL, 0.5)).toBe(0);
+      expect(handStrength(ForceMode.ATTRACT, 0)).toBeLessThan(0);
+      expect(handStrength(ForceMode.REPEL, 0)).toBeGreaterThan(0);
+    });
+  });
+
+  it('explodes outward from the hand as it opens', () => {
+    const capacity = 500;
+    const targets = generateShapeTargets(ShapeType.SPHERE, capacity, createRandom(5));
+    const closed = new ParticleSimulation(capacity, targets, createRandom(6));
+    const open = new ParticleSimulation(capacity, targets, createRandom(6));
+    closed.targetPositions.set(targets);
+    open.targetPositions.set(targets);
+
+    run(closed, 30);
+    run(open, 30, restParams({ handOpenness: 1, ...opennessToStepParams(1, 1) }));
+    const origin = { x: 0, y: 0, z: 0 };
+    expect(meanDistanceFrom(open, origin, capacity)).toBeGreaterThan(meanDistanceFrom(closed, origin, capacity) * 2);
+  });
+
+  it('is deterministic for a seeded random source', () => {
+    const make = () => {
+      const sim = new ParticleSimulation(300, generateScatter(300, createRandom(1)), createRandom(7));
+      sim.targetPositions.set(generateShapeTargets(ShapeType.NEBULA, 300, createRandom(8)));
+      run(sim, 20, restParams({ handOpenness: 0.6, ...opennessToStepParams(0.6, 1) }));
+      return sim.positions;
+    };
+    expect(make()).toEqual(make());
+  });
+});
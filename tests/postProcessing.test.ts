@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_EFFECTS_CONFIG, EffectsQuality, QualityGovernor, effectStrengths } from '../services/postProcessing';
+
+const feed = (governor: QualityGovernor, frameMs: number, totalMs: number) => {
+  let changes = 0;
+  for (let t = 0; t < totalMs; t += frameMs) {
+    if (governor.sample(frameMs)) changes++;
+  }
+  return changes;
+};
+
+describe('effectStrengths', () => {
+  it('matches the config at a half-open hand', () => {
+    const s = effectStrengths(DEFAULT_EFFECTS_CONFIG, 0.5);
+    expect(s.bloomStrength).toBeCloseTo(DEFAULT_EFFECTS_CONFIG.bloomStrength);
+    expect(s.trailDamp).toBeCloseTo(DEFAULT_EFFECTS_CONFIG.trailLength);
+    expect(s.chromaticAmount).toBeCloseTo(DEFAULT_EFFECTS_CONFIG.chromaticAmount);
+    expect(s.vignetteDarkness).toBeCloseTo(DEFAULT_EFFECTS_CONFIG.vignetteDarkness);
+  });
+
+  it('brightens and lengthens trails as the hand opens', () => {
+    const fist = effectStrengths(DEFAULT_EFFECTS_CONFIG, 0);
+    const open = effectStrengths(DEFAULT_EFFECTS_CONFIG, 1);
+    expect(open.bloomStrength).toBeGreaterThan(fist.bloomStrength);
+    expect(open.trailDamp).toBeGreaterThan(fist.trailDamp);
+    expect(open.trailDamp).toBeLessThan(1);
+    expect(fist.chromaticAmount).toBe(0);
+  });
+
+  it('ignores the hand when followHand is off', () => {
+    const effects = { ...DEFAULT_EFFECTS_CONFIG, followHand: false };
+    expect(effectStrengths(effects, 0)).toEqual(effectStrengths(effects, 1));
+  });
+});
+
+describe('QualityGovernor', () => {
+  it('stays at full quality at 60 fps', () => {
+    const governor = new QualityGovernor();
+    expect(feed(governor, 1000 / 60, 30000)).toBe(0);
+    expect(governor.level).toBe(EffectsQuality.FULL);
+  });
+
+  it('steps down one level at a time while frames stay slow', () => {
+    const governor = new QualityGovernor();
+    feed(governor, 50, 3000);
+    expect(governor.level).toBe(EffectsQuality.REDUCED);
+    feed(governor, 50, 10000);
+    expect(governor.level).toBe(EffectsQuality.MINIMAL);
+  });
+
+  it('ignores single stalls', () => {
+    const governor = new QualityGovernor();
+    for (let i = 0; i < 20; i++) governor.sample(2000);
+    expect(governor.level).toBe(EffectsQuality.FULL);
+  });
+
+  it('recovers after a long stretch of fast frames', () => {
+    const governor = new QualityGovernor();
+    feed(governor, 50, 3000);
+    expect(governor.level).toBe(EffectsQuality.REDUCED);
+    feed(governor, 1000 / 60, 5000);
+    expect(governor.level).toBe(EffectsQuality.REDUCED);
+    feed(governor, 1000 / 60, 15000);
+    expect(governor.level).toBe(EffectsQuality.FULL);
+  });
+});
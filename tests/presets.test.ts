@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { ForceMode, ParticleConfig, ShapeType, TransitionEasing } from '../types';
+import { DEFAULT_TRANSITION_CONFIG } from '../services/morphTransition';
+import { DEFAULT_COLOR_SPEC } from '../services/palette';
+import { DEFAULT_EFFECTS_CONFIG } from '../services/postProcessing';
+import {
+  createPreset, decodeShape, encodeShape, parsePreset, presetFromHash, presetToHash, serializePreset
+} from '../services/presets';
+import { DEFAULT_TEXT_OPTIONS } from '../services/textSampler';
+
+const FALLBACK: ParticleConfig = {
+  density: 0.8,
+  spread: 1,
+  color: DEFAULT_COLOR_SPEC,
+  shape: ShapeType.NEBULA,
+  forceMode: ForceMode.PUSH_PULL,
+  forceRadius: 8,
+  text: DEFAULT_TEXT_OPTIONS,
+  transition: DEFAULT_TRANSITION_CONFIG,
+  seed: 42,
+  particleSize: 0.6,
+  glow: 1,
+  twinkle: 0.3,
+  effects: DEFAULT_EFFECTS_CONFIG
+};
+
+const POINTS = [{ x: 1, y: -2, z: 3 }, { x: -4, y: 5, z: -6 }, { x: 0.5, y: 0, z: 0 }];
+
+const parseConfig = (config: unknown) => parsePreset(JSON.stringify({ name: 'p', config }), FALLBACK).config;
+
+describe('encodeShape / decodeShape', () => {
+  it('round-trips points and colors within the quantization step', () => {
+    const colors = new Float32Array([1, 0, 0.5, 0, 1, 0, 0.2, 0.4, 0.6]);
+    const decoded = decodeShape(encodeShape(POINTS, colors));
+    expect(decoded.points).toHaveLength(3);
+    decoded.points.forEach((p, i) => {
+      expect(p.x).toBeCloseTo(POINTS[i].x, 3);
+      expect(p.y).toBeCloseTo(POINTS[i].y, 3);
+      expect(p.z).toBeCloseTo(POINTS[i].z, 3);
+    });
+    decoded.colors!.forEach((c, i) => expect(c).toBeCloseTo(colors[i], 2));
+  });
+
+  it('subsamples to the point budget', () => {
+    const many = Array.from({ length: 100 }, (_, i) => ({ x: i, y: 0, z: 0 }));
+    expect(encodeShape(many, null, 10).count).toBe(10);
+    expect(decodeShape(encodeShape(many, null, 10)).colors).toBeNull();
+  });
+
+  it('never reads past the encoded data', () => {
+    const shape = { ...encodeShape(POINTS, null), count: 1e9 };
+    expect(decodeShape(shape).points).toHaveLength(3);
+  });
+});
+
+describe('parsePreset', () => {
+  it('keeps a valid config as is', () => {
+    const preset = createPreset('mine', { ...FALLBACK, shape: ShapeType.HEART, density: 0.5 }, { points: POINTS, colors: null });
+    const parsed = parsePreset(serializePreset(preset), FALLBACK);
+    expect(parsed.name).toBe('mine');
+    expect(parsed.config).toEqual({ ...FALLBACK, shape: ShapeType.HEART, density: 0.5 });
+    expect(decodeShape(parsed.customShape!).points).toHaveLength(3);
+  });
+
+  it('clamps numbers to their slider ranges', () => {
+    const config = parseConfig({
+      density: 1e9, spread: -1, forceRadius: 100, particleSize: 0, glow: 7, twinkle: -2, seed: -1,
+      text: { depth: 99, fontWeight: 5 },
+      transition: { duration: 1e9, stagger: -1 },
+      effects: { bloomStrength: 99, chromaticAmount: 1, trailLength: 1 }
+    });
+    expect(config).toMatchObject({ density: 1, spread: 0.1, forceRadius: 25, particleSize: 0.2, glow: 2, twinkle: 0, seed: 4294967295 });
+    expect(config.text).toMatchObject({ depth: 12, fontWeight: 100 });
+    expect(config.transition).toMatchObject({ duration: 4000, stagger: 0 });
+    expect(config.effects).toMatchObject({ bloomStrength: 3, chromaticAmount: 0.01, trailLength: 0.98 });
+  });
+
+  it('falls back field by field on invalid values', () => {
+    const config = parseConfig({
+      density: 'lots', shape: 'DODECAHEDRON', forceMode: 'NUKE', seed: null, glow: 1.5,
+      text: { content: 'ok', fontWeight: 'bold', align: 'justify' },
+      transition: { duration: 'abc', easing: TransitionEasing.LINEAR, wave: 42 },
+      effects: { bloom: 'yes', grain: true, injected: '<script>' }
+    });
+    expect(config).toMatchObject({
+      density: FALLBACK.density, shape: FALLBACK.shape, forceMode: FALLBACK.forceMode, seed: FALLBACK.seed, glow: 1.5
+    });
+    expect(config.text).toEqual({ ...DEFAULT_TEXT_OPTIONS, content: 'ok' });
+    expect(config.transition).toEqual({ ...DEFAULT_TRANSITION_CONFIG, easing: TransitionEasing.LINEAR });
+    expect(config.effects).toEqual({ ...DEFAULT_EFFECTS_CONFIG, grain: true });
+  });
+
+  it('replaces sub-objects of the wrong type with the defaults', () => {
+    const config = parseConfig({ text: 'hello', transition: [1, 2], effects: null, color: 7 });
+    expect(config).toEqual(FALLBACK);
+  });
+
+  it('drops malformed custom shapes', () => {
+    const valid = encodeShape(POINTS, null);
+    const parseShape = (customShape: unknown) =>
+      parsePreset(JSON.stringify({ config: {}, customShape }), FALLBACK).customShape;
+    expect(parseShape(valid)).toEqual(valid);
+    expect(parseShape({ ...valid, points: '!!not base64!!' })).toBeNull();
+    expect(parseShape({ ...valid, colors: 12 })).toBeNull();
+    expect(parseShape({ ...valid, count: -1 })).toBeNull();
+    expect(parseShape({ ...valid, scale: 0 })).toBeNull();
+  });
+
+  it('rejects files without a config', () => {
+    expect(() => parsePreset('not json', FALLBACK)).toThrow('JSON');
+    expect(() => parsePreset('{"config": 5}', FALLBACK)).toThrow('config');
+  });
+});
+
+describe('presetToHash / presetFromHash', () => {
+  it('round-trips through the URL fragment', () => {
+    const preset = createPreset('分享', { ...FALLBACK, forceMode: ForceMode.SWIRL }, null);
+    const parsed = presetFromHash(presetToHash(preset), FALLBACK);
+    expect(parsed?.name).toBe('分享');
+    expect(parsed?.config.forceMode).toBe(ForceMode.SWIRL);
+  });
+
+  it('ignores foreign or corrupted fragments', () => {
+    expect(presetFromHash('#section', FALLBACK)).toBeNull();
+    expect(presetFromHash('#preset=%%%', FALLBACK)).toBeNull();
+  });
+});
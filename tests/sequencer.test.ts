@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { Sequence, ShapeType, TransitionEasing } from '../types';
+import { SequencePlayer, parseSequence } from '../services/sequencer';
+
+const SHOW: Sequence = {
+  name: 'test',
+  loop: true,
+  cues: [
+    { shape: ShapeType.HEART, duration: 1000 },
+    { shape: ShapeType.SPHERE, duration: 2000 }
+  ]
+};
+
+const cueJson = (cue: object) => JSON.stringify({ cues: [{ duration: 1000, ...cue }] });
+
+describe('parseSequence', () => {
+  it('clamps text and transition fields to their ranges', () => {
+    const [cue] = parseSequence(cueJson({
+      text: { content: 'hi', fontWeight: 2000, depth: -3 },
+      transition: { duration: 1e9, stagger: 5, easing: TransitionEasing.LINEAR }
+    })).cues;
+    expect(cue.text).toEqual({ content: 'hi', fontWeight: 900, depth: 0 });
+    expect(cue.transition).toEqual({ duration: 4000, stagger: 0.9, easing: TransitionEasing.LINEAR });
+  });
+
+  it('rejects malformed text and transition fields', () => {
+    expect(() => parseSequence(cueJson({ transition: { duration: 'abc' } }))).toThrow('transition');
+    expect(() => parseSequence(cueJson({ transition: { easing: 'BOUNCE' } }))).toThrow('transition');
+    expect(() => parseSequence(cueJson({ transition: 'slow' }))).toThrow('transition');
+    expect(() => parseSequence(cueJson({ text: { align: 'justify' } }))).toThrow('text');
+    expect(() => parseSequence(cueJson({ text: { content: 42 } }))).toThrow('text');
+  });
+});
+
+describe('SequencePlayer', () => {
+  it('hands out each cue as playback enters it', () => {
+    const player = new SequencePlayer(SHOW);
+    expect(player.update(0)).toBeNull();
+    player.play();
+    expect(player.update(0)).toBe(SHOW.cues[0]);
+    expect(player.update(500)).toBeNull();
+    expect(player.update(1200)).toBe(SHOW.cues[1]);
+    expect(player.getStatus(1200)).toMatchObject({ playing: true, cueIndex: 1, position: 1200, total: 3000 });
+  });
+
+  it('holds the position while paused and re-applies the cue on resume', () => {
+    const player = new SequencePlayer(SHOW);
+    player.play();
+    player.update(0);
+    player.update(1200);
+    player.pause();
+    expect(player.update(5000)).toBeNull();
+    expect(player.getStatus(5000).position).toBe(1200);
+
+    player.play();
+    expect(player.update(6000)).toBe(SHOW.cues[1]);
+    player.update(6500);
+    expect(player.getStatus(6500).position).toBe(1700);
+  });
+
+  it('wraps around when looping and stops at the end otherwise', () => {
+    const player = new SequencePlayer(SHOW);
+    player.play();
+    player.update(0);
+    player.update(1000);
+    expect(player.update(3500)).toBe(SHOW.cues[0]);
+    expect(player.getStatus(3500).position).toBe(500);
+
+    player.setLoop(false);
+    expect(player.update(6000)).toBeNull();
+    expect(player.playing).toBe(false);
+    expect(player.getStatus(6000).position).toBe(3000);
+
+    // Playing again after the end starts over
+    player.play();
+    expect(player.update(7000)).toBe(SHOW.cues[0]);
+  });
+
+  it('reports a non-looping show as stopped once it passes the end', () => {
+    const player = new SequencePlayer({ ...SHOW, loop: false });
+    player.play();
+    player.update(0);
+    player.update(2999);
+    expect(player.getStatus(2999).playing).toBe(true);
+    expect(player.update(3100)).toBeNull();
+    expect(player.getStatus(3100)).toMatchObject({ playing: false, position: 3000, cueIndex: 1 });
+  });
+
+  it('seeks within the sequence and applies the cue there', () => {
+    const player = new SequencePlayer(SHOW);
+    player.play();
+    player.update(0);
+    player.seek(1500);
+    expect(player.update(0)).toBe(SHOW.cues[1]);
+    player.seek(0);
+    expect(player.update(100)).toBe(SHOW.cues[0]);
+
+    player.seek(-5);
+    expect(player.getStatus(100).position).toBe(0);
+    player.seek(1e9);
+    expect(player.getStatus(100).position).toBe(3000);
+  });
+
+  it('holds cues back during a manual override and catches up afterwards', () => {
+    const player = new SequencePlayer(SHOW);
+    player.override(0);
+    expect(player.getStatus(0).overridden).toBe(false); // Only while playing
+
+    player.play();
+    player.update(0);
+    player.override(100);
+    expect(player.update(1500)).toBeNull();
+    expect(player.getStatus(1500)).toMatchObject({ overridden: true, cueIndex: 1 });
+
+    // The hold ends 8 s after the last gesture; the clock kept running meanwhile
+    expect(player.update(8000)).toBeNull();
+    expect(player.update(8200)).toBe(SHOW.cues[1]);
+    expect(player.getStatus(8200)).toMatchObject({ overridden: false, position: 2200 });
+  });
+});
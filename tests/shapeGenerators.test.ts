@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import { ShapeType, Point3D } from '../types';
+import { createRandom, deriveSeed } from '../services/random';
+import { generateShapeTargets, ShapeSources } from '../services/shapeGenerators';
+
+const CAPACITY = 20000;
+
+const ring = (n: number, radius: number): Point3D[] =>
+  Array.from({ length: n }, (_, i) => {
+    const a = (i / n) * Math.PI * 2;
+    return { x: Math.cos(a) * radius, y: Math.sin(a) * radius, z: 0 };
+  });
+
+const sources: ShapeSources = { customPoints: ring(500, 10), textPoints: ring(300, 6) };
+
+const generate = (shape: ShapeType, density = 1, seed = 1) =>
+  generateShapeTargets(
+    shape,
+    Math.floor(CAPACITY * density),
+    createRandom(deriveSeed(seed, `shape:${shape}`)),
+    sources
+  );
+
+const activePoints = (targets: Float32Array): Point3D[] => {
+  const points: Point3D[] = [];
+  for (let i = 0; i < targets.length / 3; i++) {
+    points.push({ x: targets[i * 3], y: targets[i * 3 + 1], z: targets[i * 3 + 2] });
+  }
+  return points;
+};
+
+const fraction = (points: Point3D[], test: (p: Point3D) => boolean) =>
+  points.filter(test).length / points.length;
+
+// Axis-aligned limits each shape must respect (small margins for jitter terms)
+const BOUNDS: Record<ShapeType, { x: number; y: number; z: number }> = {
+  [ShapeType.NEBULA]: { x: 20, y: 20, z: 5 },
+  [ShapeType.HEART]: { x: 16 * 0.9, y: 17 * 0.9, z: 5 },
+  [ShapeType.SPHERE]: { x: 12, y: 12, z: 12 },
+  [ShapeType.GALAXY]: { x: 22, y: 22, z: 3 },
+  [ShapeType.MOBIUS]: { x: 21.5, y: 12.5, z: 8 },
+  [ShapeType.TEXT]: { x: 6, y: 6, z: 0 },
+  [ShapeType.CUSTOM]: { x: 10.5, y: 10.5, z: 0.5 }
+};
+
+describe('generateShapeTargets', () => {
+  describe.each(Object.values(ShapeType))('%s', (shape) => {
+    const targets = generate(shape);
+    const points = activePoints(targets);
+
+    it('fills every point with finite coordinates', () => {
+      expect(points).toHaveLength(CAPACITY);
+      points.forEach(p => {
+        expect(Number.isFinite(p.x) && Number.isFinite(p.y) && Number.isFinite(p.z)).toBe(true);
+      });
+    });
+
+    it('stays within the shape bounds', () => {
+      const b = BOUNDS[shape];
+      const max = { x: 0, y: 0, z: 0 };
+      points.forEach(p => {
+        max.x = Math.max(max.x, Math.abs(p.x));
+        max.y = Math.max(max.y, Math.abs(p.y));
+        max.z = Math.max(max.z, Math.abs(p.z));
+      });
+      expect(max.x).toBeLessThanOrEqual(b.x + 1e-3);
+      expect(max.y).toBeLessThanOrEqual(b.y + 1e-3);
+      expect(max.z).toBeLessThanOrEqual(b.z + 1e-3);
+    });
+
+    it('is deterministic for a seed', () => {
+      expect(generate(shape)).toEqual(targets);
+      if (shape !== ShapeType.TEXT) {
+        // TEXT without jitter only repeats its source points
+        expect(generate(shape, 1, 2)).not.toEqual(targets);
+      }
+    });
+  });
+
+  it('fills the SPHERE volume uniformly', () => {
+    const points = activePoints(generate(ShapeType.SPHERE));
+    // Inner sphere of half the radius holds 1/8 of the volume
+    expect(fraction(points, p => Math.hypot(p.x, p.y, p.z) < 6)).toBeCloseTo(1 / 8, 1);
+    const mean = points.reduce((m, p) => ({ x: m.x + p.x, y: m.y + p.y, z: m.z + p.z }), { x: 0, y: 0, z: 0 });
+    expect(Math.abs(mean.x / points.length)).toBeLessThan(0.3);
+    expect(Math.abs(mean.y / points.length)).toBeLessThan(0.3);
+    expect(Math.abs(mean.z / points.length)).toBeLessThan(0.3);
+  });
+
+  it('gives NEBULA a dense core', () => {
+    const points = activePoints(generate(ShapeType.NEBULA));
+    // Half the points within radius 5, plus a quarter of the wide halo
+    expect(fraction(points, p => Math.hypot(p.x, p.y) < 5)).toBeCloseTo(0.625, 1);
+  });
+
+  it('winds GALAXY slots along their three spiral arms, biased to the center', () => {
+    const targets = generate(ShapeType.GALAXY);
+    const points = activePoints(targets);
+    // Radius fraction r^0.7 puts 0.5^(1/0.7) ≈ 37% inside half the radius (25% if uniform)
+    expect(fraction(points, p => Math.hypot(p.x, p.y) < 11)).toBeCloseTo(Math.pow(0.5, 1 / 0.7), 1);
+    // Slot i belongs to arm i % 3 and deviates at most half the outer arm width from it
+    for (let i = 0; i < CAPACITY; i += 7) {
+      const x = targets[i * 3], y = targets[i * 3 + 1];
+      const expected = ((i % 3) / 3) * Math.PI * 2 + (Math.hypot(x, y) / 22) * 3.5;
+      const diff = Math.atan2(Math.sin(Math.atan2(y, x) - expected), Math.cos(Math.atan2(y, x) - expected));
+      expect(Math.abs(diff)).toBeLessThanOrEqual(0.55 + 1e-3);
+    }
+  });
+
+  it('keeps HEART flattened in z', () => {
+    const points = activePoints(generate(ShapeType.HEART));
+    const spreadZ = Math.sqrt(points.reduce((s, p) => s + p.z * p.z, 0) / points.length);
+    const spreadX = Math.sqrt(points.reduce((s, p) => s + p.x * p.x, 0) / points.length);
+    expect(spreadZ).toBeLessThan(spreadX);
+  });
+
+  it('cycles CUSTOM and TEXT source points by slot', () => {
+    const custom = generate(ShapeType.CUSTOM);
+    const text = generate(ShapeType.TEXT);
+    for (const i of [0, 1, 499, 500, 777]) {
+      const c = sources.customPoints[i % 500];
+      expect(Math.abs(custom[i * 3] - c.x)).toBeLessThanOrEqual(0.5);
+      const t = sources.textPoints[i % 300];
+      expect(text[i * 3]).toBeCloseTo(t.x);
+    }
+  });
+
+  it('falls back to a small patch when CUSTOM has no points', () => {
+    const targets = generateShapeTargets(ShapeType.CUSTOM, 100, createRandom(1));
+    activePoints(targets).forEach(p => {
+      expect(Math.abs(p.x)).toBeLessThanOrEqual(2.5);
+      expect(p.z).toBe(0);
+    });
+  });
+});
+
+describe('density', () => {
+  it.each([0, 0.1, 0.37, 0.5, 1])('generates exactly the points of density %f', (density) => {
+    const targets = generate(ShapeType.SPHERE, density);
+    expect(targets.length).toBe(Math.floor(CAPACITY * density) * 3);
+    targets.forEach(v => expect(Math.abs(v)).toBeLessThanOrEqual(12));
+  });
+
+  it('keeps the points of a lower density as a prefix', () => {
+    const full = generate(ShapeType.NEBULA, 1);
+    const half = generate(ShapeType.NEBULA, 0.5);
+    expect(half).toEqual(full.subarray(0, half.length));
+  });
+});
+
+describe('shape parameters', () => {
+  const params = (shape: ShapeType, count = 3000) => {
+    const out = new Float32Array(count);
+    const targets = generateShapeTargets(shape, count, createRandom(deriveSeed(1, `shape:${shape}`)), sources, out);
+    return { out, targets };
+  };
+
+  it.each(Object.values(ShapeType))('stays within 0 - 1 for %s', (shape) => {
+    params(shape).out.forEach(v => {
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('does not change the generated points', () => {
+    expect(params(ShapeType.MOBIUS).targets).toEqual(generateShapeTargets(ShapeType.MOBIUS, 3000, createRandom(deriveSeed(1, 'shape:MOBIUS')), sources));
+  });
+
+  it('gives each galaxy arm its own value', () => {
+    expect(new Set(params(ShapeType.GALAXY).out).size).toBe(3);
+  });
+
+  it('follows the point order of custom shapes', () => {
+    const { out } = params(ShapeType.CUSTOM, 1000);
+    expect(out[0]).toBe(0);
+    expect(out[250]).toBeCloseTo(0.5);
+    expect(out[500]).toBe(0);
+  });
+});
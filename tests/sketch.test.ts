@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { createRandom } from '../services/random';
+import {
+  DEFAULT_SKETCH_OPTIONS, SketchHistory, SketchVolumeOptions, Stroke, canvasToSketch, insidePolygon, isClosedStroke,
+  sketchToCanvas, sketchToPoints, symmetricStrokes
+} from '../services/sketch';
+
+const line = (x0: number, y0: number, x1: number, y1: number, width = 0.5): Stroke => ({
+  points: Array.from({ length: 21 }, (_, i) => ({ x: x0 + ((x1 - x0) * i) / 20, y: y0 + ((y1 - y0) * i) / 20 })),
+  width
+});
+
+// Closed circle of radius r around the origin
+const circle = (r: number): Stroke => ({
+  points: Array.from({ length: 65 }, (_, i) => ({ x: r * Math.cos((i / 64) * Math.PI * 2), y: r * Math.sin((i / 64) * Math.PI * 2) })),
+  width: 0.5
+});
+
+const sample = (strokes: Stroke[], options: Partial<SketchVolumeOptions>) =>
+  sketchToPoints(strokes, { ...DEFAULT_SKETCH_OPTIONS, sampleCount: 2000, ...options }, createRandom(7));
+
+describe('canvasToSketch', () => {
+  it('centers the canvas and keeps its aspect ratio', () => {
+    expect(canvasToSketch(960, 540, 1920, 1080)).toEqual({ x: 0, y: -0 });
+    expect(canvasToSketch(1920, 0, 1920, 1080)).toEqual({ x: 960 * (40 / 1080), y: 20 });
+    const p = { x: 3, y: -7 };
+    const px = sketchToCanvas(p, 1920, 1080);
+    expect(canvasToSketch(px.x, px.y, 1920, 1080).y).toBeCloseTo(-7);
+  });
+});
+
+describe('symmetricStrokes', () => {
+  it('mirrors across the vertical axis', () => {
+    const [original, mirrored] = symmetricStrokes(line(1, 2, 5, 6), 'mirror', 6);
+    expect(original.points[0]).toEqual({ x: 1, y: 2 });
+    expect(mirrored.points[0]).toEqual({ x: -1, y: 2 });
+  });
+
+  it('repeats around the center', () => {
+    const copies = symmetricStrokes(line(0, 5, 0, 10), 'radial', 4);
+    expect(copies).toHaveLength(4);
+    expect(copies[1].points[0].x).toBeCloseTo(-5);
+    expect(copies[1].points[0].y).toBeCloseTo(0);
+  });
+
+  it('spaces a fractional fold count evenly', () => {
+    const copies = symmetricStrokes(line(0, 5, 0, 10), 'radial', 3.6);
+    expect(copies).toHaveLength(4);
+    expect(copies[2].points[0].x).toBeCloseTo(0);
+    expect(copies[2].points[0].y).toBeCloseTo(-5);
+  });
+});
+
+describe('SketchHistory', () => {
+  it('undoes and redoes whole edits, including a clear', () => {
+    const history = new SketchHistory();
+    history.add(symmetricStrokes(line(0, 0, 1, 1), 'mirror', 6));
+    history.add([line(2, 2, 3, 3)]);
+    expect(history.strokes).toHaveLength(3);
+
+    history.clear();
+    expect(history.strokes).toHaveLength(0);
+    history.undo();
+    expect(history.strokes).toHaveLength(3);
+    history.undo();
+    expect(history.strokes).toHaveLength(2);
+    history.redo();
+    expect(history.strokes).toHaveLength(3);
+
+    history.add([line(4, 4, 5, 5)]);
+    expect(history.canRedo).toBe(false);
+  });
+});
+
+describe('isClosedStroke', () => {
+  it('tells outlines from open lines', () => {
+    expect(isClosedStroke(circle(5))).toBe(true);
+    expect(isClosedStroke(line(-5, 0, 5, 0))).toBe(false);
+  });
+});
+
+describe('sketchToPoints', () => {
+  it('produces the requested count reproducibly', () => {
+    const strokes = [line(-5, 0, 5, 0), circle(3)];
+    const points = sample(strokes, {});
+    expect(points).toHaveLength(2000);
+    expect(sample(strokes, {})).toEqual(points);
+    expect(sample([], {})).toEqual([]);
+  });
+
+  it('keeps flat drawings thin and extrudes to the depth', () => {
+    const flat = sample([line(-5, 0, 5, 0)], { mode: 'flat' });
+    expect(Math.max(...flat.map(p => Math.abs(p.z)))).toBeLessThanOrEqual(0.25);
+    const extruded = sample([line(-5, 0, 5, 0)], { mode: 'extrude', depth: 8 });
+    const zs = extruded.map(p => p.z);
+    expect(Math.max(...zs)).toBeGreaterThan(3.5);
+    expect(Math.min(...zs)).toBeLessThan(-3.5);
+    expect(Math.max(...zs.map(Math.abs))).toBeLessThanOrEqual(4);
+  });
+
+  it('revolves around the chosen axis', () => {
+    // Vertical line at x = 4 becomes a cylinder of radius about 4 around y
+    const points = sample([line(4, -5, 4, 5, 0.1)], { mode: 'lathe', latheAxis: 'y' });
+    for (const p of points) expect(Math.hypot(p.x, p.z)).toBeCloseTo(4, 0);
+    expect(points.some(p => p.z > 3)).toBe(true);
+  });
+
+  it('inflates closed outlines into a rounded solid', () => {
+    const outline = circle(6);
+    const points = sample([outline], { mode: 'inflate', depth: 6 });
+    expect(points).toHaveLength(2000);
+    for (const p of points) {
+      expect(insidePolygon(p, outline.points)).toBe(true);
+      expect(Math.abs(p.z)).toBeLessThanOrEqual(3);
+    }
+    // Thickest in the middle, flat at the rim
+    const center = points.filter(p => Math.hypot(p.x, p.y) < 1);
+    const rim = points.filter(p => Math.hypot(p.x, p.y) > 5.5);
+    expect(Math.min(...center.map(p => Math.abs(p.z)))).toBeGreaterThan(2.5);
+    expect(Math.max(...rim.map(p => Math.abs(p.z)))).toBeLessThan(2);
+  });
+});
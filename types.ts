@@ -5,14 +5,176 @@ export enum ShapeType {
   SPHERE = 'SPHERE',
   GALAXY = 'GALAXY',
   MOBIUS = 'MOBIUS',
+  TEXT = 'TEXT',
   CUSTOM = 'CUSTOM'
 }
 
+export enum ForceMode {
+  PUSH_PULL = 'PUSH_PULL', // Open hand repels, fist attracts
+  ATTRACT = 'ATTRACT',
+  REPEL = 'REPEL',
+  SWIRL = 'SWIRL'
+}
+
+export interface TextShapeOptions {
+  content: string; // Multi-line text, lines separated by '\n'
+  fontFamily: string; // Key of FONT_FAMILIES or a CSS font-family
+  fontWeight: number; // CSS weight, 100 - 900
+  align: 'left' | 'center' | 'right';
+  lineHeight: number; // Multiple of the font size
+  depth: number; // Extrusion depth in world units
+}
+
+export enum TransitionEasing {
+  LINEAR = 'LINEAR',
+  EASE_IN_OUT_SINE = 'EASE_IN_OUT_SINE',
+  EASE_IN_OUT_CUBIC = 'EASE_IN_OUT_CUBIC',
+  EASE_OUT_EXPO = 'EASE_OUT_EXPO',
+  EASE_OUT_BACK = 'EASE_OUT_BACK' // Slight overshoot
+}
+
+// Order in which particles start moving
+export enum TransitionWave {
+  NONE = 'NONE', // All at once
+  RADIAL = 'RADIAL', // Center outwards
+  AXIS_X = 'AXIS_X', // Left to right
+  AXIS_Y = 'AXIS_Y', // Top to bottom
+  RANDOM = 'RANDOM'
+}
+
+// How particles are paired with points of the next shape
+export enum TransitionMatching {
+  RANDOM = 'RANDOM', // By index (previous behaviour)
+  AXIS = 'AXIS', // Sort both sets along x
+  SPATIAL = 'SPATIAL' // Z-order curve, keeps 3D neighbourhoods together
+}
+
+export interface TransitionConfig {
+  duration: number; // ms
+  easing: TransitionEasing;
+  wave: TransitionWave;
+  stagger: number; // 0 - 0.9, share of the duration spent staggering starts
+  matching: TransitionMatching;
+}
+
+export interface TransitionState {
+  active: boolean;
+  progress: number; // 0 - 1 overall
+  from: ShapeType;
+  to: ShapeType;
+}
+
+// How particle colors are chosen. Every mode but SOLID and RANDOM maps a
+// per-particle value onto the gradient.
+export enum ColorMode {
+  SOLID = 'SOLID',
+  RANDOM = 'RANDOM', // Random hue per particle
+  RADIAL = 'RADIAL', // Distance from the shape center
+  HEIGHT = 'HEIGHT', // Bottom to top
+  VELOCITY = 'VELOCITY', // Current speed
+  HAND_DISTANCE = 'HAND_DISTANCE', // Distance from the primary hand
+  SHAPE = 'SHAPE', // Shape parameter: galaxy arm, Möbius u, stroke order...
+  HUE_CYCLE = 'HUE_CYCLE' // Gradient scrolling outwards over time
+}
+
+export interface GradientStop {
+  offset: number; // 0 - 1
+  color: string; // Hex color
+}
+
+export interface ColorSpec {
+  mode: ColorMode;
+  solid: string; // Hex color for SOLID
+  gradient: GradientStop[]; // At least two stops, any order
+  cycleSpeed: number; // HUE_CYCLE gradient turns per second
+}
+
+// Post-processing. Strengths are the values at a half-open hand when followHand is on.
+export interface EffectsConfig {
+  bloom: boolean;
+  bloomStrength: number; // 0 to 3
+  bloomRadius: number; // 0 to 1
+  bloomThreshold: number; // Luminance above which pixels bloom, 0 to 1
+  trails: boolean;
+  trailLength: number; // Afterimage damping, 0 to 0.98 (higher = longer trails)
+  chromatic: boolean;
+  chromaticAmount: number; // RGB shift as a fraction of the screen, 0 to 0.01
+  vignette: boolean;
+  vignetteDarkness: number; // 0 to 1.5
+  grain: boolean;
+  grainIntensity: number; // 0 to 1
+  followHand: boolean; // Strengths rise as the hand opens
+  autoQuality: boolean; // Drop expensive effects when the frame rate sags
+}
+
 export interface ParticleConfig {
   density: number; // 0.1 to 1.0 (multiplier of max particles)
   spread: number; // Dispersion factor
-  color: string;
+  color: ColorSpec;
   shape: ShapeType;
+  forceMode: ForceMode; // How each hand acts on particles near it
+  forceRadius: number; // World-space falloff radius of the hand force
+  text: TextShapeOptions; // Used by ShapeType.TEXT
+  transition: TransitionConfig; // Morph between shapes
+  seed: number; // Drives every random choice in shape / color / background generation
+  particleSize: number; // World-space sprite size, 0.2 to 2.0
+  glow: number; // Halo intensity around each particle, 0 to 2
+  twinkle: number; // Per-particle brightness flicker, 0 to 1
+  effects: EffectsConfig;
+}
+
+// One step of a scripted show. Omitted fields keep their current value.
+export interface SequenceCue {
+  shape?: ShapeType;
+  color?: Partial<ColorSpec>;
+  density?: number;
+  spread?: number;
+  text?: Partial<TextShapeOptions>;
+  transition?: Partial<TransitionConfig>; // Morph into this cue
+  duration: number; // ms the cue is held, including its morph
+}
+
+export interface Sequence {
+  name: string;
+  loop: boolean;
+  cues: SequenceCue[];
+}
+
+// One Euro filter + hysteresis parameters for the hand signal pipeline
+// Scripted camera flights around the formation
+export enum CameraPath {
+  NONE = 'NONE', // Free camera: orbit / pan / zoom with mouse and touch
+  ORBIT = 'ORBIT', // Level circle with a gentle bob
+  SWOOP = 'SWOOP', // Ellipse diving close in front and climbing away behind
+  SPIRAL = 'SPIRAL' // Spirals in towards the formation and back out
+}
+
+export interface CameraSettings {
+  path: CameraPath;
+  pathSpeed: number; // Multiple of the path's base speed, 0.25 to 3
+  followHand: boolean; // Hand tilt orbits the camera, hand distance zooms
+}
+
+// What drives the particles: the tracked hand, music, or both
+export enum InputSource {
+  HAND = 'HAND',
+  AUDIO = 'AUDIO', // Hands still trigger gestures but no longer push particles
+  MIX = 'MIX'
+}
+
+export interface AudioReactiveSettings {
+  source: InputSource;
+  sensitivity: number; // Gain on the normalized bands, 0.25 to 3
+}
+
+export interface TrackingSettings {
+  minCutoff: number; // Hz, lower = smoother at rest (more lag)
+  beta: number; // Speed coefficient, higher = less lag on fast moves
+  dCutoff: number; // Hz, cutoff for the derivative estimate
+  openThreshold: number; // Openness above which a closed hand becomes open
+  closeThreshold: number; // Openness below which an open hand becomes closed
+  minConfidence: number; // Hands with a lower handedness score are ignored
+  lostEaseSpeed: number; // Ease factor back to idle per 60 fps frame when hands are lost
 }
 
 export interface HandData {
@@ -20,6 +182,36 @@ export interface HandData {
   openness: number; // 0 (closed/fist) to 1 (fully open)
   x: number; // Normalized screen X
   y: number; // Normalized screen Y
+  handedness: 'Left' | 'Right';
+  score: number; // Handedness classification confidence (0 - 1)
+  landmarks: Point3D[]; // Raw 21 MediaPipe landmarks (normalized video coords)
+}
+
+export type Point3D = { x: number; y: number; z: number };
+
+export enum GestureType {
+  // Static poses
+  PINCH = 'PINCH',
+  POINT = 'POINT',
+  PEACE = 'PEACE',
+  THUMBS_UP = 'THUMBS_UP',
+  OPEN_PALM = 'OPEN_PALM',
+  FIST = 'FIST',
+  // Dynamic gestures
+  SWIPE_LEFT = 'SWIPE_LEFT',
+  SWIPE_RIGHT = 'SWIPE_RIGHT',
+  SWIPE_UP = 'SWIPE_UP',
+  SWIPE_DOWN = 'SWIPE_DOWN',
+  CIRCLE = 'CIRCLE',
+  PINCH_DRAG = 'PINCH_DRAG'
 }
 
-export type Point3D = { x: number; y: number; z: number };
\ No newline at end of file
+export interface GestureEvent {
+  type: GestureType;
+  confidence: number; // 0 - 1
+  handedness: 'Left' | 'Right';
+  timestamp: number; // performance.now() ms
+  // PINCH_DRAG only: movement since last event in normalized screen units (mirrored like the preview)
+  dx?: number;
+  dy?: number;
+}
\ No newline at end of file
@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URL of self-hosted assets (MediaPipe wasm/model, textures). Defaults to `<BASE_URL>assets/`
+  readonly VITE_ASSET_BASE?: string;
+  // Set to "false" to never fall back to public CDNs (air-gapped installs)
+  readonly VITE_ASSET_CDN_FALLBACK?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}